@@ -0,0 +1,301 @@
+/**
+ * Date parsing for lead files
+ *
+ * Dates are read with the lead source's csv_config.date_format and
+ * interpreted as wall-clock time in csv_config.timezone (IANA name),
+ * so "03/04/2024 9:15 PM" means the same instant regardless of where
+ * the function runs.
+ *
+ * Format tokens:
+ *   YYYY  4-digit year         YY    2-digit year
+ *   MMMM  month name           MMM   month abbreviation
+ *   MM/M  month                DD/D  day
+ *   HH/H  hour (24h)           hh/h  hour (12h, with A)
+ *   mm    minutes              ss    seconds
+ *   A/a   AM/PM
+ * Any other character must appear literally. A trailing time part may be
+ * left out of the value, so "MM/DD/YYYY HH:mm" also reads "03/04/2024".
+ */
+
+export interface DateParseOptions {
+  format?: string | null;
+  timezone?: string | null;
+}
+
+const MONTHS = [
+  "january",
+  "february",
+  "march",
+  "april",
+  "may",
+  "june",
+  "july",
+  "august",
+  "september",
+  "october",
+  "november",
+  "december",
+];
+
+const TOKEN_PATTERNS: Record<string, string> = {
+  YYYY: "(\\d{4})",
+  YY: "(\\d{2})",
+  MMMM: "([A-Za-z]+)",
+  MMM: "([A-Za-z]{3})\\.?",
+  MM: "(\\d{1,2})",
+  M: "(\\d{1,2})",
+  DD: "(\\d{1,2})",
+  D: "(\\d{1,2})",
+  HH: "(\\d{1,2})",
+  H: "(\\d{1,2})",
+  hh: "(\\d{1,2})",
+  h: "(\\d{1,2})",
+  mm: "(\\d{2})",
+  ss: "(\\d{2})",
+  A: "([AaPp][Mm])",
+  a: "([AaPp][Mm])",
+};
+
+// Longest tokens first so "YYYY" isn't read as two "YY"
+const TOKEN_REGEX = /YYYY|YY|MMMM|MMM|MM|M|DD|D|HH|H|hh|h|mm|ss|A|a/g;
+
+// Day 0 of Excel's 1900 date system (with its fictional 1900-02-29)
+const EXCEL_EPOCH = Date.UTC(1899, 11, 30);
+
+interface DateParts {
+  year: number;
+  month: number; // 1-12
+  day: number;
+  hour: number;
+  minute: number;
+  second: number;
+}
+
+/**
+ * Parse a date from a lead file. Tries, in order: the configured format,
+ * ISO 8601 (which may carry its own offset), and Excel serial day numbers.
+ * Returns null if none apply or the date doesn't exist (e.g. 02/30).
+ */
+export function parseDate(value: string, options: DateParseOptions = {}): Date | null {
+  const input = value?.trim();
+  if (!input) return null;
+
+  const timezone = options.timezone || "UTC";
+
+  if (options.format) {
+    const parts = parseWithFormat(input, options.format);
+    if (parts) return zonedTimeToUtc(parts, timezone);
+  }
+
+  const iso = input.match(
+    /^(\d{4})-(\d{2})-(\d{2})(?:[T ](\d{2}):(\d{2})(?::(\d{2})(?:\.\d+)?)?)?\s*(Z|[+-]\d{2}:?\d{2})?$/i
+  );
+  if (iso) {
+    // An explicit offset wins over the source's timezone
+    if (iso[7]) {
+      const date = new Date(input.replace(" ", "T"));
+      return isNaN(date.getTime()) ? null : date;
+    }
+
+    return zonedTimeToUtc(
+      {
+        year: Number(iso[1]),
+        month: Number(iso[2]),
+        day: Number(iso[3]),
+        hour: Number(iso[4] || 0),
+        minute: Number(iso[5] || 0),
+        second: Number(iso[6] || 0),
+      },
+      timezone
+    );
+  }
+
+  // Excel serial dates (e.g. 45306 or 45306.75), limited to 1950-2100
+  if (/^\d{5}(\.\d+)?$/.test(input)) {
+    const serial = Number(input);
+    if (serial >= 18264 && serial <= 73051) {
+      const wallClock = new Date(EXCEL_EPOCH + Math.round(serial * 86400) * 1000);
+      return zonedTimeToUtc(
+        {
+          year: wallClock.getUTCFullYear(),
+          month: wallClock.getUTCMonth() + 1,
+          day: wallClock.getUTCDate(),
+          hour: wallClock.getUTCHours(),
+          minute: wallClock.getUTCMinutes(),
+          second: wallClock.getUTCSeconds(),
+        },
+        timezone
+      );
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Whether a timezone name is a valid IANA zone in this runtime
+ */
+export function isValidTimezone(timezone: string): boolean {
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone: timezone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Read date parts using a format string
+ */
+function parseWithFormat(input: string, format: string): DateParts | null {
+  const tokens: string[] = [];
+  let pattern = "";
+  let lastIndex = 0;
+
+  for (const match of format.matchAll(TOKEN_REGEX)) {
+    pattern += escapeRegex(format.slice(lastIndex, match.index));
+    pattern += TOKEN_PATTERNS[match[0]];
+    tokens.push(match[0]);
+    lastIndex = match.index! + match[0].length;
+  }
+  pattern += escapeRegex(format.slice(lastIndex));
+
+  // Let the time part be missing when the format has one
+  const timeStart = tokens.findIndex((t) => /^(HH|H|hh|h)$/.test(t));
+  let match = input.match(new RegExp(`^${pattern}$`, "i"));
+
+  if (!match && timeStart > 0) {
+    const dateFormat = format.slice(0, format.search(/\s*(HH|H|hh|h)/)).trim();
+    return parseWithFormat(input, dateFormat);
+  }
+
+  if (!match) return null;
+
+  const parts: DateParts = { year: 0, month: 1, day: 1, hour: 0, minute: 0, second: 0 };
+  let meridiem: string | null = null;
+
+  tokens.forEach((token, i) => {
+    const raw = match![i + 1];
+    switch (token) {
+      case "YYYY":
+        parts.year = Number(raw);
+        break;
+      case "YY":
+        parts.year = expandTwoDigitYear(Number(raw));
+        break;
+      case "MMMM":
+      case "MMM":
+        parts.month = MONTHS.findIndex((m) => m.startsWith(raw.toLowerCase())) + 1;
+        break;
+      case "MM":
+      case "M":
+        parts.month = Number(raw);
+        break;
+      case "DD":
+      case "D":
+        parts.day = Number(raw);
+        break;
+      case "HH":
+      case "H":
+      case "hh":
+      case "h":
+        parts.hour = Number(raw);
+        break;
+      case "mm":
+        parts.minute = Number(raw);
+        break;
+      case "ss":
+        parts.second = Number(raw);
+        break;
+      case "A":
+      case "a":
+        meridiem = raw.toLowerCase();
+        break;
+    }
+  });
+
+  if (meridiem) {
+    if (parts.hour < 1 || parts.hour > 12) return null;
+    parts.hour = (parts.hour % 12) + (meridiem === "pm" ? 12 : 0);
+  }
+
+  return isValidParts(parts) ? parts : null;
+}
+
+/**
+ * Two-digit years are this century unless that would be more than a year
+ * in the future
+ */
+function expandTwoDigitYear(year: number): number {
+  const nextYear = (new Date().getUTCFullYear() + 1) % 100;
+  return year <= nextYear ? 2000 + year : 1900 + year;
+}
+
+function isValidParts(parts: DateParts): boolean {
+  if (parts.year < 1900 || parts.month < 1 || parts.month > 12) return false;
+  if (parts.hour > 23 || parts.minute > 59 || parts.second > 59) return false;
+
+  const daysInMonth = new Date(Date.UTC(parts.year, parts.month, 0)).getUTCDate();
+  return parts.day >= 1 && parts.day <= daysInMonth;
+}
+
+/**
+ * Convert a wall-clock time in an IANA timezone to the UTC instant.
+ * The offset is looked up at the guessed instant and again at the result,
+ * which settles on the right side of a DST change.
+ */
+function zonedTimeToUtc(parts: DateParts, timezone: string): Date | null {
+  if (!isValidParts(parts)) return null;
+
+  const wallClock = Date.UTC(
+    parts.year,
+    parts.month - 1,
+    parts.day,
+    parts.hour,
+    parts.minute,
+    parts.second
+  );
+
+  if (timezone === "UTC") return new Date(wallClock);
+
+  let utc = wallClock - getTimezoneOffset(wallClock, timezone);
+  utc = wallClock - getTimezoneOffset(utc, timezone);
+
+  return new Date(utc);
+}
+
+/**
+ * Offset of a timezone from UTC at an instant, in milliseconds
+ */
+function getTimezoneOffset(instant: number, timezone: string): number {
+  const formatter = new Intl.DateTimeFormat("en-US", {
+    timeZone: timezone,
+    hourCycle: "h23",
+    year: "numeric",
+    month: "numeric",
+    day: "numeric",
+    hour: "numeric",
+    minute: "numeric",
+    second: "numeric",
+  });
+
+  const values: Record<string, number> = {};
+  for (const part of formatter.formatToParts(new Date(instant))) {
+    if (part.type !== "literal") values[part.type] = Number(part.value);
+  }
+
+  const asUtc = Date.UTC(
+    values.year,
+    values.month - 1,
+    values.day,
+    values.hour,
+    values.minute,
+    values.second
+  );
+
+  return asUtc - Math.floor(instant / 1000) * 1000;
+}
+
+function escapeRegex(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
@@ -0,0 +1,229 @@
+/**
+ * Lead extraction from notification email bodies
+ *
+ * Some sources send one lead per email, in the body, with no attachment.
+ * lead_sources.email_body_config describes where each field appears:
+ *
+ *   {
+ *     "subject_pattern": "New (Premier Agent )?lead",
+ *     "fields": {
+ *       "full_name": { "labels": ["Name", "Buyer"] },
+ *       "phone": { "regex": "Phone:\\s*([\\d()\\-. +]+)" }
+ *     },
+ *     "llm_fallback": true
+ *   }
+ *
+ * A label matches "Label: value" on one line, or a label line followed by
+ * its value (how HTML tables come out as text). A regex uses its first
+ * capture group. When the template finds neither an email nor a phone, the
+ * model fills in what it can, and only values that appear in the email
+ * are kept.
+ */
+
+import { TARGET_FIELDS } from "./field-mapping.ts";
+import { chatCompletion } from "./openai.ts";
+
+export interface EmailBodyField {
+  label?: string;
+  labels?: string[];
+  regex?: string;
+}
+
+export interface EmailBodyTemplate {
+  /** Set to false to ignore email bodies for this source */
+  enabled?: boolean;
+  /** Only emails whose subject matches (case-insensitive) are read */
+  subject_pattern?: string;
+  fields?: Record<string, EmailBodyField>;
+  /** Ask the model when the template finds no contact details (default: true) */
+  llm_fallback?: boolean;
+}
+
+export interface EmailBodyLead {
+  fields: Record<string, string>;
+  method: "template" | "llm" | "template+llm";
+}
+
+// Labels used when a source has no template
+const DEFAULT_FIELDS: Record<string, EmailBodyField> = {
+  full_name: { labels: ["Name", "Full Name", "Contact", "Buyer", "Consumer Name"] },
+  first_name: { labels: ["First Name"] },
+  last_name: { labels: ["Last Name"] },
+  email: { labels: ["Email", "E-mail", "Email Address"] },
+  phone: { labels: ["Phone", "Phone Number", "Mobile", "Cell"] },
+  address: { labels: ["Property Address", "Address", "Property", "Listing"] },
+  city: { labels: ["City"] },
+  state: { labels: ["State"] },
+  zip: { labels: ["Zip", "ZIP Code", "Postal Code"] },
+  lead_type: { labels: ["Lead Type", "Inquiry Type", "Type"] },
+  source_lead_id: { labels: ["Lead ID", "Reference", "Reference ID"] },
+};
+
+const MAX_BODY_CHARS = 8000;
+
+/**
+ * Read a lead from an email's body. Returns null when the source doesn't
+ * read bodies, the subject doesn't match, or nothing usable is found.
+ */
+export async function extractLeadFromEmail(
+  email: { subject: string; text?: string | null; html?: string | null },
+  template: EmailBodyTemplate | null
+): Promise<EmailBodyLead | null> {
+  if (template?.enabled === false) return null;
+
+  if (template?.subject_pattern && !new RegExp(template.subject_pattern, "i").test(email.subject)) {
+    return null;
+  }
+
+  const body = (email.text?.trim() || htmlToText(email.html || "")).slice(0, MAX_BODY_CHARS);
+  if (!body) return null;
+
+  const fields = extractWithTemplate(body, template?.fields || DEFAULT_FIELDS);
+  const hasContact = !!(fields.email || fields.phone);
+
+  if (hasContact || template?.llm_fallback === false) {
+    return hasContact ? { fields, method: "template" } : null;
+  }
+
+  const llmFields = await extractWithModel(email.subject, body);
+  if (!llmFields) return null;
+
+  // The template's values win; the model only fills gaps
+  const merged = { ...llmFields, ...fields };
+  if (!merged.email && !merged.phone) return null;
+
+  return {
+    fields: merged,
+    method: Object.keys(fields).length > 0 ? "template+llm" : "llm",
+  };
+}
+
+/**
+ * Apply label and regex rules to the body text
+ */
+function extractWithTemplate(
+  body: string,
+  fieldRules: Record<string, EmailBodyField>
+): Record<string, string> {
+  const lines = body.split("\n").map((line) => line.trim()).filter(Boolean);
+  const fields: Record<string, string> = {};
+
+  for (const [field, rule] of Object.entries(fieldRules)) {
+    if (!TARGET_FIELDS.includes(field)) continue;
+
+    let value: string | null = null;
+
+    if (rule.regex) {
+      const match = body.match(new RegExp(rule.regex, "im"));
+      value = match ? (match[1] ?? match[0]) : null;
+    }
+
+    for (const label of [...(rule.label ? [rule.label] : []), ...(rule.labels || [])]) {
+      if (value) break;
+      value = findLabelValue(lines, label);
+    }
+
+    if (value?.trim()) {
+      fields[field] = value.trim();
+    }
+  }
+
+  return fields;
+}
+
+/**
+ * "Label: value" on one line, or "Label" (optionally with a colon) on its
+ * own line followed by the value
+ */
+function findLabelValue(lines: string[], label: string): string | null {
+  const escaped = label.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+  const inline = new RegExp(`^${escaped}\\s*[:\\-–]\\s*(.+)$`, "i");
+  const alone = new RegExp(`^${escaped}\\s*:?$`, "i");
+
+  for (let i = 0; i < lines.length; i++) {
+    const match = lines[i].match(inline);
+    if (match) return match[1];
+
+    if (alone.test(lines[i]) && lines[i + 1]) {
+      return lines[i + 1];
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Ask the model for the lead's fields. Returns null if it's unavailable or
+ * its answer can't be used.
+ */
+async function extractWithModel(subject: string, body: string): Promise<Record<string, string> | null> {
+  try {
+    const response = await chatCompletion([
+      {
+        role: "system",
+        content: `You extract the prospective client (the lead) from real estate lead notification emails.
+Ignore the agent, the sender and any signatures or footers.
+Respond with JSON only, using these keys when the value is present in the email: ${TARGET_FIELDS.join(", ")}.
+"address" is the property address. Use null for anything not in the email; never guess.`,
+      },
+      {
+        role: "user",
+        content: `Subject: ${subject}\n\n${body}`,
+      },
+    ], {
+      temperature: 0,
+      max_tokens: 400,
+    });
+
+    const parsed = JSON.parse(response.message.content) as Record<string, unknown>;
+    const fields: Record<string, string> = {};
+
+    for (const field of TARGET_FIELDS) {
+      const value = parsed[field];
+      if (typeof value === "string" && value.trim()) {
+        fields[field] = value.trim();
+      }
+    }
+
+    // Drop anything the model made up: values must appear in the email
+    // (phones by their digits, since formatting varies)
+    const text = `${subject}\n${body}`.toLowerCase().replace(/\s+/g, " ");
+    const textDigits = text.replace(/\D/g, "");
+
+    for (const [field, value] of Object.entries(fields)) {
+      const digits = value.replace(/\D/g, "");
+      const found =
+        field === "phone"
+          ? digits.length >= 7 && textDigits.includes(digits.slice(-7))
+          : text.includes(value.toLowerCase().replace(/\s+/g, " "));
+
+      if (!found) delete fields[field];
+    }
+
+    return fields;
+  } catch (err) {
+    console.error("Failed to extract lead with model:", err);
+    return null;
+  }
+}
+
+/**
+ * Plain text from an HTML email: block elements and cells become line
+ * breaks so labels and values stay on separate lines
+ */
+function htmlToText(html: string): string {
+  return html
+    .replace(/<(script|style|head)[^>]*>[\s\S]*?<\/\1>/gi, "")
+    .replace(/<br\s*\/?>/gi, "\n")
+    .replace(/<\/(p|div|tr|td|th|li|h[1-6]|table)>/gi, "\n")
+    .replace(/<[^>]+>/g, "")
+    .replace(/&nbsp;/gi, " ")
+    .replace(/&amp;/gi, "&")
+    .replace(/&lt;/gi, "<")
+    .replace(/&gt;/gi, ">")
+    .replace(/&quot;/gi, '"')
+    .replace(/&#39;/gi, "'")
+    .replace(/[ \t]+/g, " ")
+    .replace(/\n\s*\n+/g, "\n")
+    .trim();
+}
@@ -41,6 +41,34 @@ export async function queueForEmbedding(
   }
 }
 
+/**
+ * Add many records from one table to the embedding queue in a single write
+ */
+export async function queueManyForEmbedding(
+  supabase: SupabaseClient,
+  tableName: string,
+  items: { recordId: string; textToEmbed: string }[]
+): Promise<void> {
+  if (items.length === 0) return;
+
+  const { error } = await supabase.from("embedding_queue").upsert(
+    items.map((item) => ({
+      table_name: tableName,
+      record_id: item.recordId,
+      text_to_embed: item.textToEmbed,
+      status: "pending",
+      attempts: 0,
+    })),
+    {
+      onConflict: "table_name,record_id",
+    }
+  );
+
+  if (error) {
+    console.error("Failed to queue embeddings:", error);
+  }
+}
+
 /**
  * Process pending items in the embedding queue
  */
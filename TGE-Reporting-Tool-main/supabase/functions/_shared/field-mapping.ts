@@ -0,0 +1,148 @@
+/**
+ * Field mapping utilities
+ *
+ * lead_sources.field_mapping maps each target field to the source column
+ * names (aliases) it may appear under; the first non-empty column wins.
+ */
+
+export type FieldMapping = Record<string, string[]>;
+
+/**
+ * Target fields a source column can be mapped to
+ */
+export const TARGET_FIELDS = [
+  "email",
+  "phone",
+  "first_name",
+  "last_name",
+  "full_name",
+  "address",
+  "city",
+  "state",
+  "zip",
+  "lead_type",
+  "source_lead_id",
+  "source_created_at",
+];
+
+/**
+ * Get default field mapping
+ */
+export function getDefaultFieldMapping(): FieldMapping {
+  return {
+    email: ["email", "Email", "EMAIL", "Consumer Email", "E-mail"],
+    phone: ["phone", "Phone", "PHONE", "Consumer Phone", "Phone Number"],
+    first_name: ["first_name", "First Name", "FirstName", "First"],
+    last_name: ["last_name", "Last Name", "LastName", "Last"],
+    full_name: ["name", "Name", "Full Name", "Consumer Name"],
+    address: ["property_address", "Address", "Property Address", "Street Address"],
+    city: ["city", "City", "Property City"],
+    state: ["state", "State", "Property State"],
+    zip: ["zip", "Zip", "ZIP", "Postal Code", "Zip Code"],
+    lead_type: ["lead_type", "Type", "Inquiry Type", "Lead Type"],
+    source_lead_id: ["id", "Lead ID", "lead_id", "ID"],
+    source_created_at: ["created", "Created Date", "Date", "Inquiry Date", "Created At"],
+  };
+}
+
+/**
+ * Map raw data fields to normalized fields using field mapping
+ */
+export function mapFields(
+  rawData: Record<string, string>,
+  fieldMapping: FieldMapping
+): Record<string, string | null> {
+  const result: Record<string, string | null> = {};
+
+  for (const [targetField, sourceColumns] of Object.entries(fieldMapping)) {
+    for (const col of sourceColumns) {
+      if (rawData[col] && rawData[col].trim() !== "") {
+        result[targetField] = rawData[col].trim();
+        break;
+      }
+    }
+    if (!result[targetField]) {
+      result[targetField] = null;
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Field mapping for an ingestion's rows. A row read from an email body is
+ * already keyed by target field, so it maps to itself.
+ */
+export function getIngestionFieldMapping(
+  ingestion: { body_extraction?: unknown },
+  leadSource: { field_mapping?: FieldMapping | null } | null
+): FieldMapping {
+  if (ingestion.body_extraction) {
+    return Object.fromEntries(TARGET_FIELDS.map((field) => [field, [field]]));
+  }
+
+  return leadSource?.field_mapping || getDefaultFieldMapping();
+}
+
+/**
+ * Lowercase and strip everything but letters and digits,
+ * so "E-mail", "e_mail" and "EMAIL " compare equal
+ */
+function normalizeHeader(header: string): string {
+  return header.toLowerCase().replace(/[^a-z0-9]/g, "");
+}
+
+/**
+ * Suggest a source column for each target field from a file's headers.
+ * Aliases from the source's own mapping are tried before the defaults,
+ * exact matches before normalized ones, and a header is used at most once.
+ */
+export function suggestFieldMapping(
+  headers: string[],
+  fieldMapping?: FieldMapping | null
+): Record<string, string | null> {
+  const defaults = getDefaultFieldMapping();
+  const used = new Set<string>();
+  const suggestions: Record<string, string | null> = {};
+
+  for (const field of TARGET_FIELDS) {
+    const aliases = [...(fieldMapping?.[field] || []), ...(defaults[field] || []), field];
+    const available = headers.filter((h) => !used.has(h));
+
+    let match = aliases.map((alias) => available.find((h) => h === alias)).find(Boolean);
+
+    if (!match) {
+      const normalized = aliases.map(normalizeHeader);
+      match = normalized
+        .map((alias) => available.find((h) => normalizeHeader(h) === alias))
+        .find(Boolean);
+    }
+
+    suggestions[field] = match || null;
+    if (match) used.add(match);
+  }
+
+  return suggestions;
+}
+
+/**
+ * Merge confirmed column choices for a file into a source's field mapping.
+ * Other columns of the same file are dropped from each confirmed field so
+ * the file maps exactly as confirmed; aliases for columns the file doesn't
+ * have are kept so files in other layouts still map.
+ */
+export function applyFieldSelections(
+  fieldMapping: FieldMapping | null | undefined,
+  headers: string[],
+  selections: Record<string, string | null>
+): FieldMapping {
+  const merged: FieldMapping = { ...(fieldMapping || getDefaultFieldMapping()) };
+  const fileColumns = new Set(headers);
+
+  for (const [field, column] of Object.entries(selections)) {
+    const aliases = (merged[field] || []).filter((alias) => !fileColumns.has(alias));
+    merged[field] = column ? [column, ...aliases] : aliases;
+  }
+
+  return merged;
+}
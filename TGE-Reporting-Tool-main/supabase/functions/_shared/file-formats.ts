@@ -0,0 +1,167 @@
+/**
+ * Lead file readers
+ *
+ * CSV, TSV and Excel workbooks are all read into the same rows of strings,
+ * so everything after parsing (validation, transformation, matching) is
+ * format-independent.
+ */
+
+import { CsvParseStream } from "https://deno.land/std@0.208.0/csv/csv_parse_stream.ts";
+import * as XLSX from "https://cdn.sheetjs.com/xlsx-0.20.3/package/xlsx.mjs";
+import { LeadSource } from "./supabase.ts";
+
+export type FileFormat = "csv" | "tsv" | "xlsx" | "xls";
+
+export const CONTENT_TYPES: Record<FileFormat, string> = {
+  csv: "text/csv",
+  tsv: "text/tab-separated-values",
+  xlsx: "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
+  xls: "application/vnd.ms-excel",
+};
+
+/**
+ * Detect a lead file's format from its name, falling back to its content type.
+ * Returns null for anything we can't ingest.
+ */
+export function detectFileFormat(fileName: string, contentType?: string | null): FileFormat | null {
+  const extension = fileName.toLowerCase().split(".").pop();
+
+  if (extension && extension in CONTENT_TYPES) {
+    return extension as FileFormat;
+  }
+
+  const type = (contentType || "").split(";")[0].trim().toLowerCase();
+  const match = Object.entries(CONTENT_TYPES).find(([, t]) => t === type);
+
+  return match ? (match[0] as FileFormat) : null;
+}
+
+/**
+ * Stream a lead file's data rows, keyed by header. Without a header row,
+ * rows are keyed by column index ("0", "1", ...).
+ *
+ * CSV and TSV are parsed as a stream, so quoted fields may span lines and
+ * the whole file is never held as one string. csv_config.skip_rows counts
+ * records before the header. Workbooks use the sheet named (or 0-based
+ * indexed) by csv_config.sheet, or the first sheet.
+ */
+export async function* iterateRows(
+  file: Blob,
+  format: FileFormat,
+  csvConfig: Partial<LeadSource["csv_config"]> = {}
+): AsyncGenerator<{ headers: string[]; row: Record<string, string> }> {
+  const skipRows = csvConfig.skip_rows || 0;
+  const hasHeader = csvConfig.has_header ?? true;
+
+  const records =
+    format === "xlsx" || format === "xls"
+      ? readWorksheet(file, csvConfig.sheet)
+      : file
+          .stream()
+          .pipeThrough(new TextDecoderStream())
+          .pipeThrough(
+            new CsvParseStream({
+              separator: format === "tsv" ? "\t" : csvConfig.delimiter || ",",
+            })
+          );
+
+  let index = 0;
+  let headers: string[] | null = null;
+
+  for await (const record of records) {
+    if (index++ < skipRows) continue;
+
+    if (hasHeader && !headers) {
+      headers = record;
+      continue;
+    }
+
+    const rowHeaders = headers || record.map((_, i) => String(i));
+
+    yield {
+      headers: rowHeaders,
+      row: Object.fromEntries(rowHeaders.map((header, i) => [header, record[i] ?? ""])),
+    };
+  }
+}
+
+/**
+ * Estimate a file's data rows without parsing it, for progress while it is
+ * streamed. CSV and TSV count line breaks, so quoted fields spanning lines
+ * make this an overestimate. Workbooks return null: reading one costs as
+ * much as parsing it.
+ */
+export async function estimateRowCount(
+  file: Blob,
+  format: FileFormat,
+  csvConfig: Partial<LeadSource["csv_config"]> = {}
+): Promise<number | null> {
+  if (format === "xlsx" || format === "xls") return null;
+
+  let lines = 0;
+  let lastByte = 0x0a;
+
+  for await (const chunk of file.stream()) {
+    for (let i = 0; i < chunk.length; i++) {
+      if (chunk[i] === 0x0a) lines++;
+    }
+    if (chunk.length > 0) lastByte = chunk[chunk.length - 1];
+  }
+
+  // The last line may have no line break
+  if (lastByte !== 0x0a) lines++;
+
+  const leadingRows = (csvConfig.skip_rows || 0) + ((csvConfig.has_header ?? true) ? 1 : 0);
+  return Math.max(0, lines - leadingRows);
+}
+
+/**
+ * Read a worksheet into rows of cell strings. Workbooks can't be streamed,
+ * but they are far smaller than the CSV backfills.
+ */
+async function* readWorksheet(file: Blob, sheet?: string | number): AsyncGenerator<string[]> {
+  const workbook = XLSX.read(new Uint8Array(await file.arrayBuffer()), {
+    type: "array",
+    cellDates: true,
+  });
+
+  const sheetName = resolveSheetName(workbook.SheetNames, sheet);
+  const rows = XLSX.utils.sheet_to_json<unknown[]>(workbook.Sheets[sheetName], {
+    header: 1,
+    raw: false,
+    defval: "",
+    blankrows: false,
+    dateNF: "yyyy-mm-dd hh:mm:ss",
+  });
+
+  for (const row of rows) {
+    yield row.map((cell) => String(cell ?? ""));
+  }
+}
+
+/**
+ * Pick the sheet to read from csv_config.sheet
+ */
+function resolveSheetName(sheetNames: string[], sheet?: string | number): string {
+  if (sheetNames.length === 0) {
+    throw new Error("Workbook has no sheets");
+  }
+
+  if (sheet === undefined || sheet === null || sheet === "") {
+    return sheetNames[0];
+  }
+
+  if (typeof sheet === "number") {
+    if (!sheetNames[sheet]) {
+      throw new Error(`Sheet ${sheet} not found (workbook has ${sheetNames.length})`);
+    }
+    return sheetNames[sheet];
+  }
+
+  const match = sheetNames.find((name) => name.toLowerCase() === sheet.toLowerCase());
+  if (!match) {
+    throw new Error(`Sheet "${sheet}" not found (available: ${sheetNames.join(", ")})`);
+  }
+
+  return match;
+}
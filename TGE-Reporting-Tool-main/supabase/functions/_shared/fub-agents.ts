@@ -0,0 +1,381 @@
+/**
+ * Agents and teams from FUB users and groups
+ *
+ * Every sync reconciles the account's users into agents, so matches can be
+ * attributed through agents.fub_user_id:
+ * - groups map to teams (team_fub_mappings), by team name or as new teams
+ * - users link to the organization's agent with their email, or become new
+ *   agents in their group's team (or the connection's default team)
+ * - agents follow their FUB user's active status
+ * Anything ambiguous is left as it is and raised in fub_mapping_reviews.
+ */
+
+import { SupabaseClient } from "./supabase.ts";
+import { FubGroup, FubUser } from "./fub-client.ts";
+
+export interface FubRosterResult {
+  agentsCreated: number;
+  agentsLinked: number;
+  agentsDeactivated: number;
+  agentsReactivated: number;
+  teamsCreated: number;
+  reviewsRaised: number;
+  matchesAttributed: number;
+}
+
+export type FubMappingReason =
+  | "multiple_agents"
+  | "fub_user_conflict"
+  | "multiple_groups"
+  | "multiple_teams";
+
+export interface FubMappingCandidate {
+  id: string;
+  type: "agent" | "team";
+  label: string;
+}
+
+interface AgentRow {
+  id: string;
+  team_id: string;
+  email: string;
+  first_name: string | null;
+  last_name: string | null;
+  fub_user_id: number | null;
+  status: string;
+  metadata: Record<string, unknown> | null;
+}
+
+interface TeamRow {
+  id: string;
+  name: string;
+}
+
+// Name of the team for users who aren't in any mapped group
+const DEFAULT_TEAM_NAME = "Follow Up Boss (no group)";
+
+/**
+ * Bring agents and teams in line with the account's users and groups
+ */
+export async function reconcileFubUsers(
+  supabase: SupabaseClient,
+  connection: { id: string; organization_id: string },
+  users: FubUser[],
+  groups: FubGroup[]
+): Promise<FubRosterResult> {
+  const result: FubRosterResult = {
+    agentsCreated: 0,
+    agentsLinked: 0,
+    agentsDeactivated: 0,
+    agentsReactivated: 0,
+    teamsCreated: 0,
+    reviewsRaised: 0,
+    matchesAttributed: 0,
+  };
+
+  const [teamsResult, mappingsResult, agentsResult, reviewsResult] = await Promise.all([
+    supabase.from("teams").select("id, name").eq("organization_id", connection.organization_id),
+    supabase.from("team_fub_mappings").select("team_id, fub_team_id").eq("fub_connection_id", connection.id),
+    supabase
+      .from("agents")
+      .select("id, team_id, email, first_name, last_name, fub_user_id, status, metadata, teams!inner(organization_id)")
+      .eq("teams.organization_id", connection.organization_id),
+    supabase.from("fub_mapping_reviews").select("kind, fub_id").eq("fub_connection_id", connection.id),
+  ]);
+
+  for (const { error } of [teamsResult, mappingsResult, agentsResult, reviewsResult]) {
+    if (error) {
+      throw new Error(`Failed to load agents and teams: ${error.message}`);
+    }
+  }
+
+  const teams = (teamsResult.data || []) as TeamRow[];
+  const agents = ((agentsResult.data || []) as AgentRow[]).map((agent) => ({
+    ...agent,
+    fub_user_id: agent.fub_user_id === null ? null : Number(agent.fub_user_id),
+  }));
+  const teamNames = new Map(teams.map((team) => [team.id, team.name]));
+
+  // Users and groups already raised for review are left to the reviewer
+  const reviewed = new Set(
+    ((reviewsResult.data || []) as { kind: string; fub_id: number }[]).map((r) => `${r.kind}:${r.fub_id}`)
+  );
+  const reviews: Record<string, unknown>[] = [];
+
+  const raiseReview = (
+    kind: "user" | "group",
+    fubId: number,
+    reason: FubMappingReason,
+    candidates: FubMappingCandidate[],
+    details: { name?: string; email?: string; first_name?: string; last_name?: string }
+  ) => {
+    reviews.push({
+      organization_id: connection.organization_id,
+      fub_connection_id: connection.id,
+      kind,
+      fub_id: fubId,
+      fub_name: details.name || null,
+      fub_email: details.email || null,
+      fub_first_name: details.first_name || null,
+      fub_last_name: details.last_name || null,
+      reason,
+      candidates,
+    });
+  };
+
+  const teamCandidate = (teamId: string): FubMappingCandidate => ({
+    id: teamId,
+    type: "team",
+    label: teamNames.get(teamId) || teamId,
+  });
+
+  const agentCandidate = (agent: AgentRow): FubMappingCandidate => ({
+    id: agent.id,
+    type: "agent",
+    label: `${[agent.first_name, agent.last_name].filter(Boolean).join(" ") || agent.email} (${teamNames.get(agent.team_id) || "no team"})`,
+  });
+
+  const createTeam = async (name: string, fubGroupId: number | null): Promise<string> => {
+    const { data: team, error } = await supabase
+      .from("teams")
+      .insert({ organization_id: connection.organization_id, name })
+      .select("id")
+      .single();
+
+    if (error) {
+      throw new Error(`Failed to create team "${name}": ${error.message}`);
+    }
+
+    result.teamsCreated++;
+    teamNames.set(team.id, name);
+    await mapTeam(team.id, fubGroupId);
+    return team.id;
+  };
+
+  const mapTeam = async (teamId: string, fubGroupId: number | null) => {
+    const { error } = await supabase.from("team_fub_mappings").insert({
+      team_id: teamId,
+      fub_connection_id: connection.id,
+      fub_team_id: fubGroupId,
+    });
+
+    if (error) {
+      throw new Error(`Failed to map team ${teamId}: ${error.message}`);
+    }
+  };
+
+  // ---- Groups → teams ----
+
+  const mappings = (mappingsResult.data || []) as { team_id: string; fub_team_id: number | null }[];
+  const groupTeams = new Map<number, string>();
+  const mappedTeamIds = new Set(mappings.map((m) => m.team_id));
+  let defaultTeamId = mappings.find((m) => m.fub_team_id === null)?.team_id || null;
+
+  for (const mapping of mappings) {
+    if (mapping.fub_team_id !== null) {
+      groupTeams.set(Number(mapping.fub_team_id), mapping.team_id);
+    }
+  }
+
+  for (const group of groups) {
+    if (groupTeams.has(group.id) || reviewed.has(`group:${group.id}`)) continue;
+
+    const sameName = teams.filter(
+      (team) =>
+        team.name.trim().toLowerCase() === group.name.trim().toLowerCase() &&
+        !mappedTeamIds.has(team.id)
+    );
+
+    if (sameName.length > 1) {
+      raiseReview("group", group.id, "multiple_teams", sameName.map((t) => teamCandidate(t.id)), {
+        name: group.name,
+      });
+      continue;
+    }
+
+    let teamId: string;
+    if (sameName.length === 1) {
+      teamId = sameName[0].id;
+      await mapTeam(teamId, group.id);
+    } else {
+      teamId = await createTeam(group.name, group.id);
+    }
+
+    groupTeams.set(group.id, teamId);
+    mappedTeamIds.add(teamId);
+  }
+
+  const userGroups = new Map<number, number[]>();
+  for (const group of groups) {
+    for (const member of group.users || []) {
+      userGroups.set(member.id, [...(userGroups.get(member.id) || []), group.id]);
+    }
+  }
+
+  // ---- Users → agents ----
+
+  const updateAgent = async (agent: AgentRow, changes: Partial<AgentRow>) => {
+    const { error } = await supabase
+      .from("agents")
+      .update({ ...changes, updated_at: new Date().toISOString() })
+      .eq("id", agent.id);
+
+    if (error) {
+      throw new Error(`Failed to update agent ${agent.id}: ${error.message}`);
+    }
+
+    Object.assign(agent, changes);
+  };
+
+  // Deactivate agents whose FUB user is inactive; only reactivate those
+  // that sync deactivated
+  const syncStatus = async (agent: AgentRow, user: FubUser) => {
+    const metadata = agent.metadata || {};
+
+    if (!user.isActive && agent.status === "active") {
+      await updateAgent(agent, {
+        status: "inactive",
+        metadata: { ...metadata, deactivated_by: "fub_sync" },
+      });
+      result.agentsDeactivated++;
+    } else if (user.isActive && agent.status !== "active" && metadata.deactivated_by === "fub_sync") {
+      const { deactivated_by: _, ...rest } = metadata;
+      await updateAgent(agent, { status: "active", metadata: rest });
+      result.agentsReactivated++;
+    }
+  };
+
+  for (const user of users) {
+    const linked = agents.filter((agent) => agent.fub_user_id === user.id);
+
+    if (linked.length > 0) {
+      for (const agent of linked) {
+        await syncStatus(agent, user);
+      }
+      continue;
+    }
+
+    const email = user.email?.trim().toLowerCase();
+    if (!email || reviewed.has(`user:${user.id}`)) continue;
+
+    const details = {
+      name: user.name,
+      email,
+      first_name: user.firstName,
+      last_name: user.lastName,
+    };
+    const sameEmail = agents.filter((agent) => agent.email.trim().toLowerCase() === email);
+
+    if (sameEmail.length > 1) {
+      raiseReview("user", user.id, "multiple_agents", sameEmail.map(agentCandidate), details);
+      continue;
+    }
+
+    if (sameEmail.length === 1) {
+      const agent = sameEmail[0];
+
+      if (agent.fub_user_id !== null) {
+        raiseReview("user", user.id, "fub_user_conflict", [agentCandidate(agent)], details);
+        continue;
+      }
+
+      await updateAgent(agent, { fub_user_id: user.id });
+      result.agentsLinked++;
+      await syncStatus(agent, user);
+      continue;
+    }
+
+    // Inactive users who were never agents don't need one
+    if (!user.isActive) continue;
+
+    const teamIds = [
+      ...new Set(
+        (userGroups.get(user.id) || [])
+          .map((groupId) => groupTeams.get(groupId))
+          .filter((teamId): teamId is string => !!teamId)
+      ),
+    ];
+
+    if (teamIds.length > 1) {
+      raiseReview("user", user.id, "multiple_groups", teamIds.map(teamCandidate), details);
+      continue;
+    }
+
+    if (teamIds.length === 0 && !defaultTeamId) {
+      defaultTeamId = await createTeam(DEFAULT_TEAM_NAME, null);
+    }
+
+    const { data: agent, error } = await supabase
+      .from("agents")
+      .insert({
+        team_id: teamIds[0] || defaultTeamId,
+        email,
+        first_name: user.firstName || null,
+        last_name: user.lastName || null,
+        fub_user_id: user.id,
+        status: "active",
+        metadata: { created_by: "fub_sync" },
+      })
+      .select("id, team_id, email, first_name, last_name, fub_user_id, status, metadata")
+      .single();
+
+    if (error) {
+      throw new Error(`Failed to create agent for FUB user ${user.id}: ${error.message}`);
+    }
+
+    agents.push(agent as AgentRow);
+    result.agentsCreated++;
+  }
+
+  // ---- Reviews and attribution ----
+
+  if (reviews.length > 0) {
+    const { error } = await supabase
+      .from("fub_mapping_reviews")
+      .upsert(reviews, { onConflict: "fub_connection_id,kind,fub_id", ignoreDuplicates: true });
+
+    if (error) {
+      throw new Error(`Failed to save mapping reviews: ${error.message}`);
+    }
+
+    result.reviewsRaised = reviews.length;
+
+    await supabase.from("ai_insights").insert({
+      organization_id: connection.organization_id,
+      insight_type: "data_quality",
+      scope_type: "organization",
+      scope_id: connection.organization_id,
+      title: `${reviews.length} Follow Up Boss mapping${reviews.length !== 1 ? "s" : ""} need review`,
+      summary:
+        "Some FUB users or groups match more than one agent or team. " +
+        "Their leads can't be attributed to an agent until the mapping is chosen.",
+      details: { fub_connection_id: connection.id, reviews: reviews.length },
+      is_actionable: true,
+    });
+  }
+
+  if (result.agentsCreated > 0 || result.agentsLinked > 0) {
+    result.matchesAttributed = await backfillAttribution(supabase, connection.organization_id);
+  }
+
+  return result;
+}
+
+/**
+ * Attribute active matches that had no agent, now that more FUB users map
+ * to agents. Returns the number of matches attributed.
+ */
+export async function backfillAttribution(
+  supabase: SupabaseClient,
+  organizationId: string
+): Promise<number> {
+  const { data, error } = await supabase.rpc("backfill_match_attribution", {
+    p_organization_id: organizationId,
+  });
+
+  if (error) {
+    throw new Error(`Failed to backfill attribution: ${error.message}`);
+  }
+
+  return (data as number) || 0;
+}
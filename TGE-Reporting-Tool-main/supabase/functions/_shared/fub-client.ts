@@ -4,12 +4,15 @@
 
 const FUB_BASE_URL = "https://api.followupboss.com/v1";
 
+const DEFAULT_MAX_RETRIES = 5;
+const MAX_RETRY_DELAY_MS = 60_000;
+
 interface FubApiError {
   error: string;
   message: string;
 }
 
-interface FubPerson {
+export interface FubPerson {
   id: number;
   created: string;
   updated: string;
@@ -41,7 +44,7 @@ interface FubPerson {
   }>;
 }
 
-interface FubUser {
+export interface FubUser {
   id: number;
   email: string;
   firstName: string;
@@ -57,12 +60,74 @@ interface FubPaginatedResponse<T> {
     offset: number;
     limit: number;
     total: number;
+    next?: string | null;
   };
   [key: string]: T[] | FubPaginatedResponse<T>["_metadata"];
 }
 
+export interface FubGroup {
+  id: number;
+  name: string;
+  type?: string;
+  users: Array<{ id: number; name?: string }>;
+}
+
+export interface FubDeal {
+  id: number;
+  name: string;
+  status: string; // Active, Archived or Deleted
+  pipelineId: number;
+  pipelineName?: string;
+  stageId: number;
+  stageName?: string;
+  price?: number | null;
+  commissionValue?: number | null;
+  agentCommission?: number | null;
+  teamCommission?: number | null;
+  projectedCloseDate?: string | null;
+  createdAt: string;
+  updatedAt?: string;
+  people?: Array<{ id: number; name: string }>;
+  users?: Array<{ id: number; name: string }>;
+}
+
+export interface FubPipeline {
+  id: number;
+  name: string;
+  stages: Array<{
+    id: number;
+    name: string;
+    orderWeight?: number;
+  }>;
+}
+
+interface FubWebhook {
+  id: number;
+  event: string;
+  url: string;
+  status: string;
+}
+
+/**
+ * Position in a people listing. FUB returns a `next` token for deep pages;
+ * the offset is used until it does.
+ */
+export interface FubPeopleCursor {
+  offset: number;
+  next?: string | null;
+}
+
 export interface FubClientConfig {
   apiKey: string;
+  /** Registered system name and key, required to manage webhooks */
+  system?: string;
+  systemKey?: string;
+  /** Spread requests out to stay within the account's share of the rate limit */
+  requestsPerMinute?: number;
+  /** Retries for rate-limited (429) and server error (5xx) responses */
+  maxRetries?: number;
+  /** Epoch ms the caller must finish by: no retry waits past it */
+  deadline?: number;
 }
 
 /**
@@ -70,13 +135,34 @@ export interface FubClientConfig {
  */
 export class FubClient {
   private apiKey: string;
+  private system?: string;
+  private systemKey?: string;
+  private minIntervalMs: number;
+  private maxRetries: number;
+  private deadline?: number;
+  private nextRequestAt = 0;
+  private requestCount = 0;
 
   constructor(config: FubClientConfig) {
     this.apiKey = config.apiKey;
+    this.system = config.system;
+    this.systemKey = config.systemKey;
+    this.minIntervalMs = config.requestsPerMinute ? 60_000 / config.requestsPerMinute : 0;
+    this.maxRetries = config.maxRetries ?? DEFAULT_MAX_RETRIES;
+    this.deadline = config.deadline;
+  }
+
+  /**
+   * Requests made by this client, including retries
+   */
+  get requestsMade(): number {
+    return this.requestCount;
   }
 
   /**
-   * Make an authenticated request to the FUB API
+   * Make an authenticated request to the FUB API. Rate-limited and 5xx
+   * responses are retried after Retry-After, or with exponential backoff,
+   * unless the wait would run past the deadline.
    */
   private async request<T>(
     endpoint: string,
@@ -85,30 +171,99 @@ export class FubClient {
     const url = `${FUB_BASE_URL}${endpoint}`;
     const auth = btoa(`${this.apiKey}:`);
 
-    const response = await fetch(url, {
-      ...options,
-      headers: {
-        Authorization: `Basic ${auth}`,
-        "Content-Type": "application/json",
-        Accept: "application/json",
-        ...options.headers,
-      },
-    });
+    let response: Response;
+
+    for (let attempt = 0; ; attempt++) {
+      await this.throttle();
+
+      try {
+        response = await fetch(url, {
+          ...options,
+          headers: {
+            Authorization: `Basic ${auth}`,
+            "Content-Type": "application/json",
+            Accept: "application/json",
+            ...(this.system ? { "X-System": this.system } : {}),
+            ...(this.systemKey ? { "X-System-Key": this.systemKey } : {}),
+            ...options.headers,
+          },
+        });
+      } catch (err) {
+        // Network errors are retried like 5xx responses
+        const delay = backoffDelay(attempt);
+        if (attempt >= this.maxRetries || !this.canWait(delay)) throw err;
+        await sleep(delay);
+        continue;
+      }
+
+      this.trackRateLimit(response);
+
+      const retryable = response.status === 429 || response.status >= 500;
+      if (!retryable || attempt >= this.maxRetries) break;
+
+      const delay = retryAfterDelay(response) ?? backoffDelay(attempt);
+      if (!this.canWait(delay)) break;
+
+      await response.body?.cancel();
+      await sleep(delay);
+    }
 
     if (!response.ok) {
-      const error = (await response.json()) as FubApiError;
-      throw new Error(`FUB API error: ${error.message || error.error}`);
+      const error = (await response.json().catch(() => ({}))) as Partial<FubApiError>;
+      throw new Error(
+        `FUB API error (${response.status}): ${error.message || error.error || response.statusText}`
+      );
+    }
+
+    // DELETE responds without a body
+    if (response.status === 204) {
+      return undefined as T;
     }
 
     return response.json() as Promise<T>;
   }
 
+  /**
+   * Whether a retry after waiting this long still starts before the deadline
+   */
+  private canWait(ms: number): boolean {
+    return !this.deadline || Date.now() + ms < this.deadline;
+  }
+
+  /**
+   * Wait until the next request is allowed by requestsPerMinute and by the
+   * account's rate limit window
+   */
+  private async throttle(): Promise<void> {
+    const wait = this.nextRequestAt - Date.now();
+    if (wait > 0) {
+      await sleep(wait);
+    }
+
+    this.nextRequestAt = Date.now() + this.minIntervalMs;
+    this.requestCount++;
+  }
+
+  /**
+   * When FUB reports the rate limit window is used up, hold further
+   * requests until it resets
+   */
+  private trackRateLimit(response: Response): void {
+    const remaining = response.headers.get("X-RateLimit-Remaining");
+    const windowSeconds = Number(response.headers.get("X-RateLimit-Window"));
+
+    if (remaining === "0" && windowSeconds > 0) {
+      this.nextRequestAt = Math.max(this.nextRequestAt, Date.now() + windowSeconds * 1000);
+    }
+  }
+
   /**
    * Get all people (leads) with pagination
    * Reference: https://docs.followupboss.com/reference/people-get
    */
   async getPeople(params: {
     offset?: number;
+    next?: string;
     limit?: number;
     sort?: string;
     updatedAfter?: string;
@@ -134,11 +289,12 @@ export class FubClient {
     includeUnclaimed?: boolean;
     tags?: string;
     fields?: string;
-  } = {}): Promise<{ people: FubPerson[]; total: number; hasMore: boolean }> {
+  } = {}): Promise<{ people: FubPerson[]; total: number; hasMore: boolean; next: string | null }> {
     const searchParams = new URLSearchParams();
 
     // Pagination
     if (params.offset !== undefined) searchParams.set("offset", params.offset.toString());
+    if (params.next) searchParams.set("next", params.next);
     if (params.limit !== undefined) searchParams.set("limit", params.limit.toString());
     
     // Sorting
@@ -198,7 +354,8 @@ export class FubClient {
     return {
       people,
       total: metadata.total,
-      hasMore: metadata.offset + people.length < metadata.total,
+      hasMore: !!metadata.next || metadata.offset + people.length < metadata.total,
+      next: metadata.next || null,
     };
   }
 
@@ -213,8 +370,39 @@ export class FubClient {
    * Get all users in the account
    */
   async getUsers(): Promise<FubUser[]> {
-    const response = await this.request<FubPaginatedResponse<FubUser>>("/users");
-    return (response.users || []) as FubUser[];
+    const users: FubUser[] = [];
+
+    while (true) {
+      const response = await this.request<FubPaginatedResponse<FubUser>>(
+        `/users?limit=100&offset=${users.length}`
+      );
+      const page = (response.users || []) as FubUser[];
+      users.push(...page);
+
+      if (page.length === 0 || users.length >= response._metadata.total) {
+        return users;
+      }
+    }
+  }
+
+  /**
+   * Get all groups with their members
+   * Reference: https://docs.followupboss.com/reference/groups-get
+   */
+  async getGroups(): Promise<FubGroup[]> {
+    const groups: FubGroup[] = [];
+
+    while (true) {
+      const response = await this.request<FubPaginatedResponse<FubGroup>>(
+        `/groups?limit=100&offset=${groups.length}`
+      );
+      const page = (response.groups || []) as FubGroup[];
+      groups.push(...page);
+
+      if (page.length === 0 || groups.length >= response._metadata.total) {
+        return groups;
+      }
+    }
   }
 
   /**
@@ -225,32 +413,132 @@ export class FubClient {
   }
 
   /**
-   * Iterate through all people with automatic pagination
+   * Iterate through all people with automatic pagination. Each page comes
+   * with the cursor of the page after it (null after the last), so an
+   * interrupted iteration can be resumed.
    */
   async *iteratePeople(params: {
     batchSize?: number;
     updatedAfter?: string;
-  } = {}): AsyncGenerator<FubPerson[], void, unknown> {
+    sort?: string;
+    cursor?: FubPeopleCursor | null;
+  } = {}): AsyncGenerator<{ people: FubPerson[]; cursor: FubPeopleCursor | null }, void, unknown> {
     const batchSize = params.batchSize || 100;
-    let offset = 0;
-    let hasMore = true;
+    let cursor: FubPeopleCursor | null = params.cursor || { offset: 0 };
 
-    while (hasMore) {
+    while (cursor) {
       const result = await this.getPeople({
-        offset,
+        offset: cursor.next ? undefined : cursor.offset,
+        next: cursor.next || undefined,
         limit: batchSize,
+        sort: params.sort,
         updatedAfter: params.updatedAfter,
       });
 
+      cursor = result.hasMore && result.people.length > 0
+        ? { offset: cursor.offset + result.people.length, next: result.next }
+        : null;
+
       if (result.people.length > 0) {
-        yield result.people;
+        yield { people: result.people, cursor };
       }
+    }
+  }
+
+  /**
+   * Get a page of deals
+   * Reference: https://docs.followupboss.com/reference/deals-get
+   */
+  async getDeals(params: {
+    offset?: number;
+    next?: string;
+    limit?: number;
+    status?: string;
+  } = {}): Promise<{ deals: FubDeal[]; hasMore: boolean; next: string | null }> {
+    const searchParams = new URLSearchParams();
+
+    if (params.offset !== undefined) searchParams.set("offset", params.offset.toString());
+    if (params.next) searchParams.set("next", params.next);
+    if (params.limit !== undefined) searchParams.set("limit", params.limit.toString());
+    if (params.status) searchParams.set("status", params.status);
+
+    const query = searchParams.toString();
+    const response = await this.request<FubPaginatedResponse<FubDeal>>(`/deals${query ? `?${query}` : ""}`);
+
+    const deals = (response.deals || []) as FubDeal[];
+    const metadata = response._metadata;
+
+    return {
+      deals,
+      hasMore: !!metadata.next || metadata.offset + deals.length < metadata.total,
+      next: metadata.next || null,
+    };
+  }
+
+  /**
+   * Iterate through all deals with automatic pagination. Like people, each
+   * page comes with the cursor of the page after it.
+   */
+  async *iterateDeals(params: {
+    batchSize?: number;
+    status?: string;
+    cursor?: FubPeopleCursor | null;
+  } = {}): AsyncGenerator<{ deals: FubDeal[]; cursor: FubPeopleCursor | null }, void, unknown> {
+    const batchSize = params.batchSize || 100;
+    let cursor: FubPeopleCursor | null = params.cursor || { offset: 0 };
+
+    while (cursor) {
+      const result = await this.getDeals({
+        offset: cursor.next ? undefined : cursor.offset,
+        next: cursor.next || undefined,
+        limit: batchSize,
+        status: params.status,
+      });
+
+      cursor = result.hasMore && result.deals.length > 0
+        ? { offset: cursor.offset + result.deals.length, next: result.next }
+        : null;
 
-      hasMore = result.hasMore;
-      offset += batchSize;
+      if (result.deals.length > 0) {
+        yield { deals: result.deals, cursor };
+      }
     }
   }
 
+  /**
+   * Get deal pipelines with their stages
+   */
+  async getPipelines(): Promise<FubPipeline[]> {
+    const response = await this.request<FubPaginatedResponse<FubPipeline>>("/pipelines?limit=100");
+    return (response.pipelines || []) as FubPipeline[];
+  }
+
+  /**
+   * Get the webhooks registered by this system
+   * Reference: https://docs.followupboss.com/reference/webhooks-get
+   */
+  async getWebhooks(): Promise<FubWebhook[]> {
+    const response = await this.request<FubPaginatedResponse<FubWebhook>>("/webhooks?limit=100");
+    return (response.webhooks || []) as FubWebhook[];
+  }
+
+  /**
+   * Subscribe a URL to an event
+   */
+  async createWebhook(event: string, url: string): Promise<FubWebhook> {
+    return this.request<FubWebhook>("/webhooks", {
+      method: "POST",
+      body: JSON.stringify({ event, url }),
+    });
+  }
+
+  /**
+   * Remove a webhook subscription
+   */
+  async deleteWebhook(id: number): Promise<void> {
+    await this.request<unknown>(`/webhooks/${id}`, { method: "DELETE" });
+  }
+
   /**
    * Get account info to verify API key
    */
@@ -267,6 +555,50 @@ export class FubClient {
   }
 }
 
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+/**
+ * Exponential backoff with jitter: ~1s, 2s, 4s... capped at a minute
+ */
+function backoffDelay(attempt: number): number {
+  return Math.min(MAX_RETRY_DELAY_MS, 1000 * 2 ** attempt) * (0.5 + Math.random() / 2);
+}
+
+/**
+ * Delay requested by a Retry-After header (seconds or an HTTP date)
+ */
+function retryAfterDelay(response: Response): number | null {
+  const header = response.headers.get("Retry-After");
+  if (!header) return null;
+
+  const seconds = Number(header);
+  const delay = Number.isFinite(seconds) ? seconds * 1000 : new Date(header).getTime() - Date.now();
+
+  return Number.isFinite(delay) ? Math.min(MAX_RETRY_DELAY_MS, Math.max(0, delay)) : null;
+}
+
+/**
+ * 64-bit non-cryptographic hash (cyrb53 variant), enough to tell whether a
+ * record changed
+ */
+function hashText(text: string): string {
+  let h1 = 0xdeadbeef;
+  let h2 = 0x41c6ce57;
+
+  for (let i = 0; i < text.length; i++) {
+    const ch = text.charCodeAt(i);
+    h1 = Math.imul(h1 ^ ch, 2654435761);
+    h2 = Math.imul(h2 ^ ch, 1597334677);
+  }
+
+  h1 = Math.imul(h1 ^ (h1 >>> 16), 2246822507) ^ Math.imul(h2 ^ (h2 >>> 13), 3266489909);
+  h2 = Math.imul(h2 ^ (h2 >>> 16), 2246822507) ^ Math.imul(h1 ^ (h1 >>> 13), 3266489909);
+
+  return (h2 >>> 0).toString(16).padStart(8, "0") + (h1 >>> 0).toString(16).padStart(8, "0");
+}
+
 /**
  * Transform FUB person to our FubLead format
  */
@@ -307,17 +639,15 @@ export function transformFubPerson(
   const assignedUserId = person.assignedUserId || person.assignedTo || null;
   const assignedUser = assignedUserId ? usersMap.get(assignedUserId) : undefined;
 
-  // Create a hash for change detection
-  const hashData = JSON.stringify({
-    email: primaryEmail,
-    phone: primaryPhone,
-    firstName: person.firstName,
-    lastName: person.lastName,
-    stage: person.stage,
-    assignedTo: assignedUserId,
-    updated: person.updated,
-  });
-  const syncHash = btoa(hashData).slice(0, 32);
+  // Create a hash for change detection. Every stored column (raw_data
+  // included) comes from the person or its assignee, so hash all of them.
+  const syncHash = hashText(
+    JSON.stringify({
+      person,
+      assignedUserEmail: assignedUser?.email || null,
+      assignedUserName: assignedUser?.name || null,
+    })
+  );
 
   return {
     fub_connection_id: connectionId,
@@ -345,3 +675,81 @@ export function transformFubPerson(
     sync_hash: syncHash,
   };
 }
+
+/**
+ * Generate embedding text for a FUB lead
+ */
+export function generateFubEmbeddingText(lead: ReturnType<typeof transformFubPerson>): string {
+  const parts = [
+    "FUB Lead",
+    lead.first_name && lead.last_name ? `${lead.first_name} ${lead.last_name}` : "",
+    lead.email ? `email: ${lead.email}` : "",
+    lead.phone ? `phone: ${lead.phone}` : "",
+    lead.address ? `address: ${lead.address}` : "",
+    lead.city || "",
+    lead.state || "",
+    lead.zip || "",
+    lead.assigned_user_name ? `assigned to: ${lead.assigned_user_name}` : "",
+    lead.fub_source ? `source: ${lead.fub_source}` : "",
+    lead.fub_stage ? `stage: ${lead.fub_stage}` : "",
+  ];
+
+  return parts.filter((p) => p).join(", ");
+}
+
+/**
+ * Transform FUB deal to our FubDeal format. fub_lead_id is linked
+ * separately, since the person may not be synced yet.
+ */
+export function transformFubDeal(
+  deal: FubDeal,
+  connectionId: string,
+  organizationId: string
+): {
+  fub_connection_id: string;
+  organization_id: string;
+  fub_deal_id: number;
+  fub_person_id: number | null;
+  name: string | null;
+  fub_pipeline_id: number | null;
+  pipeline_name: string | null;
+  fub_stage_id: number | null;
+  stage_name: string | null;
+  status: string | null;
+  price: number | null;
+  commission_value: number | null;
+  agent_commission: number | null;
+  team_commission: number | null;
+  close_date: string | null;
+  fub_user_ids: number[];
+  fub_created_at: string | null;
+  fub_updated_at: string | null;
+  raw_data: Record<string, unknown>;
+  sync_hash: string;
+} {
+  return {
+    fub_connection_id: connectionId,
+    organization_id: organizationId,
+    fub_deal_id: deal.id,
+    // The first person on a deal is its primary contact
+    fub_person_id: deal.people?.[0]?.id ?? null,
+    name: deal.name || null,
+    fub_pipeline_id: deal.pipelineId ?? null,
+    pipeline_name: deal.pipelineName || null,
+    fub_stage_id: deal.stageId ?? null,
+    stage_name: deal.stageName || null,
+    status: deal.status || null,
+    price: deal.price ?? null,
+    commission_value: deal.commissionValue ?? null,
+    agent_commission: deal.agentCommission ?? null,
+    team_commission: deal.teamCommission ?? null,
+    // FUB keeps a single close date, projected until the deal closes
+    close_date: deal.projectedCloseDate ? deal.projectedCloseDate.slice(0, 10) : null,
+    fub_user_ids: (deal.users || []).map((u) => u.id),
+    fub_created_at: deal.createdAt || null,
+    fub_updated_at: deal.updatedAt || null,
+    raw_data: deal as unknown as Record<string, unknown>,
+    // raw_data is stored too, so a change anywhere in the deal is a change
+    sync_hash: hashText(JSON.stringify(deal)),
+  };
+}
@@ -0,0 +1,191 @@
+/**
+ * Writing FUB deals and pipeline stages
+ *
+ * Deals are read in full on every sync (accounts have far fewer deals than
+ * people) and written a page at a time, upserting only those whose hash
+ * changed. A sync that reaches its deadline returns the cursor of the next
+ * page so a fresh invocation can continue from it; one whose page fails to
+ * write stops there and returns that page's cursor instead. A deal counts as
+ * closed revenue when its stage is marked is_closed in fub_pipeline_stages;
+ * new stages are guessed from their name and can be corrected afterwards.
+ */
+
+import { SupabaseClient } from "./supabase.ts";
+import { FubClient, FubDeal, FubPeopleCursor, transformFubDeal } from "./fub-client.ts";
+
+export interface FubDealsSyncResult {
+  fetched: number;
+  changed: number;
+  linked: number;
+  errors: string[];
+  /** A page failed to write; the deals are neither finished nor linked */
+  writeFailed: boolean;
+  /**
+   * Next page to read when the deadline was reached or a write failed; null
+   * once all deals are read, or when the first page failed
+   */
+  cursor: FubPeopleCursor | null;
+}
+
+const CLOSED_STAGE_PATTERN = /\b(closed|sold|won|funded)\b/i;
+
+/**
+ * Sync a connection's pipeline stages and deals, then link deals to the
+ * fub_leads of their primary person. Continuing from a cursor skips the
+ * stages, which were stored when the deals were started; past the deadline
+ * (epoch ms) it stops after the current page and returns the next cursor.
+ * A page that fails to write stops the sync before the cursor moves past it.
+ */
+export async function syncFubDeals(
+  supabase: SupabaseClient,
+  fubClient: FubClient,
+  connection: { id: string; organization_id: string },
+  options: { cursor?: FubPeopleCursor | null; deadline?: number } = {}
+): Promise<FubDealsSyncResult> {
+  const result: FubDealsSyncResult = {
+    fetched: 0,
+    changed: 0,
+    linked: 0,
+    errors: [],
+    writeFailed: false,
+    cursor: null,
+  };
+
+  if (!options.cursor) {
+    await syncPipelineStages(supabase, fubClient, connection.id);
+  }
+
+  const pages = fubClient.iterateDeals({ batchSize: 100, cursor: options.cursor });
+  let pageCursor = options.cursor || null;
+
+  for await (const { deals, cursor } of pages) {
+    result.fetched += deals.length;
+
+    try {
+      result.changed += await upsertFubDeals(supabase, connection, deals);
+    } catch (err) {
+      // Stop on this page, so the next run reads it again
+      result.errors.push(err instanceof Error ? err.message : String(err));
+      result.writeFailed = true;
+      result.cursor = pageCursor;
+      return result;
+    }
+
+    if (cursor && options.deadline && Date.now() > options.deadline) {
+      result.cursor = cursor;
+      return result;
+    }
+
+    pageCursor = cursor;
+  }
+
+  const { data: linked, error: linkError } = await supabase.rpc("link_fub_deals", {
+    p_fub_connection_id: connection.id,
+  });
+
+  if (linkError) {
+    result.errors.push(`Failed to link deals to leads: ${linkError.message}`);
+  } else {
+    result.linked = (linked as number) || 0;
+  }
+
+  return result;
+}
+
+/**
+ * Store pipeline stages. is_closed is only set for new stages so manual
+ * corrections survive later syncs.
+ */
+async function syncPipelineStages(
+  supabase: SupabaseClient,
+  fubClient: FubClient,
+  connectionId: string
+): Promise<void> {
+  const pipelines = await fubClient.getPipelines();
+
+  const stages = pipelines.flatMap((pipeline) =>
+    pipeline.stages.map((stage, index) => ({
+      fub_connection_id: connectionId,
+      fub_pipeline_id: pipeline.id,
+      pipeline_name: pipeline.name,
+      fub_stage_id: stage.id,
+      name: stage.name,
+      position: stage.orderWeight ?? index,
+      updated_at: new Date().toISOString(),
+    }))
+  );
+
+  if (stages.length === 0) return;
+
+  const { data: existing } = await supabase
+    .from("fub_pipeline_stages")
+    .select("fub_stage_id")
+    .eq("fub_connection_id", connectionId);
+
+  const known = new Set((existing || []).map((s: { fub_stage_id: number }) => Number(s.fub_stage_id)));
+
+  const newStages = stages
+    .filter((stage) => !known.has(stage.fub_stage_id))
+    .map((stage) => ({ ...stage, is_closed: CLOSED_STAGE_PATTERN.test(stage.name) }));
+  const knownStages = stages.filter((stage) => known.has(stage.fub_stage_id));
+
+  for (const rows of [newStages, knownStages]) {
+    if (rows.length === 0) continue;
+
+    const { error } = await supabase
+      .from("fub_pipeline_stages")
+      .upsert(rows, { onConflict: "fub_connection_id,fub_stage_id" });
+
+    if (error) {
+      throw new Error(`Failed to save pipeline stages: ${error.message}`);
+    }
+  }
+}
+
+/**
+ * Upsert the deals whose data changed. Returns how many were written.
+ */
+async function upsertFubDeals(
+  supabase: SupabaseClient,
+  connection: { id: string; organization_id: string },
+  deals: FubDeal[]
+): Promise<number> {
+  const rows = new Map<number, ReturnType<typeof transformFubDeal>>();
+  for (const deal of deals) {
+    rows.set(deal.id, transformFubDeal(deal, connection.id, connection.organization_id));
+  }
+
+  const { data: existingRows, error: existingError } = await supabase
+    .from("fub_deals")
+    .select("fub_deal_id, sync_hash")
+    .eq("fub_connection_id", connection.id)
+    .in("fub_deal_id", [...rows.keys()]);
+
+  if (existingError) {
+    throw new Error(`Failed to read FUB deal hashes: ${existingError.message}`);
+  }
+
+  const existingHashes = new Map(
+    (existingRows || []).map((row: { fub_deal_id: number; sync_hash: string | null }) => [
+      Number(row.fub_deal_id),
+      row.sync_hash,
+    ])
+  );
+
+  const syncedAt = new Date().toISOString();
+  const changed = [...rows.values()]
+    .filter((row) => existingHashes.get(row.fub_deal_id) !== row.sync_hash)
+    .map((row) => ({ ...row, last_synced_at: syncedAt, updated_at: syncedAt }));
+
+  if (changed.length === 0) return 0;
+
+  const { error } = await supabase
+    .from("fub_deals")
+    .upsert(changed, { onConflict: "fub_connection_id,fub_deal_id" });
+
+  if (error) {
+    throw new Error(`Upsert failed for ${changed.length} FUB deals: ${error.message}`);
+  }
+
+  return changed.length;
+}
@@ -0,0 +1,149 @@
+/**
+ * Writing FUB people to fub_leads
+ *
+ * People are written a page at a time: one query reads the stored sync
+ * hashes, and only people whose hash changed are upserted and queued for
+ * embedding. Unchanged people cost nothing beyond the hash lookup. When a
+ * lead's assignee changes, its active matches are attributed to the new agent.
+ */
+
+import { SupabaseClient } from "./supabase.ts";
+import { FubPerson, FubUser, generateFubEmbeddingText, transformFubPerson } from "./fub-client.ts";
+import { queueManyForEmbedding } from "./embeddings.ts";
+
+export interface FubPeopleWriteResult {
+  created: number;
+  updated: number;
+  unchanged: number;
+  /** fub_leads.id of every created or updated lead */
+  changedIds: string[];
+  /** Active matches attributed to a different agent after a reassignment */
+  reattributed: number;
+  errors: string[];
+}
+
+/**
+ * Upsert the people whose data changed since they were last stored
+ */
+export async function upsertFubPeople(
+  supabase: SupabaseClient,
+  connection: { id: string; organization_id: string },
+  people: FubPerson[],
+  usersMap: Map<number, FubUser>
+): Promise<FubPeopleWriteResult> {
+  const result: FubPeopleWriteResult = {
+    created: 0,
+    updated: 0,
+    unchanged: 0,
+    changedIds: [],
+    reattributed: 0,
+    errors: [],
+  };
+
+  if (people.length === 0) return result;
+
+  // A person listed twice keeps their last version
+  const leads = new Map<number, ReturnType<typeof transformFubPerson>>();
+  for (const person of people) {
+    leads.set(person.id, transformFubPerson(person, connection.id, connection.organization_id, usersMap));
+  }
+
+  const { data: existingRows, error: existingError } = await supabase
+    .from("fub_leads")
+    .select("fub_lead_id, sync_hash, assigned_user_id")
+    .eq("fub_connection_id", connection.id)
+    .in("fub_lead_id", [...leads.keys()]);
+
+  if (existingError) {
+    throw new Error(`Failed to read FUB lead hashes: ${existingError.message}`);
+  }
+
+  const existing = new Map(
+    (existingRows || []).map(
+      (row: { fub_lead_id: number; sync_hash: string | null; assigned_user_id: number | null }) => [
+        Number(row.fub_lead_id),
+        row,
+      ]
+    )
+  );
+
+  const changed = [...leads.values()].filter(
+    (lead) => existing.get(lead.fub_lead_id)?.sync_hash !== lead.sync_hash
+  );
+  result.unchanged = leads.size - changed.length;
+
+  if (changed.length === 0) return result;
+
+  const syncedAt = new Date().toISOString();
+  const rows = changed.map((lead) => ({ ...lead, last_synced_at: syncedAt }));
+
+  let written = await writeLeads(supabase, rows);
+
+  // One bad row fails the whole statement: retry one at a time to find it
+  if (written.error) {
+    written = { data: [], error: null };
+
+    for (const row of rows) {
+      const single = await writeLeads(supabase, [row]);
+
+      if (single.error) {
+        result.errors.push(`Upsert failed for FUB lead ${row.fub_lead_id}: ${single.error.message}`);
+      } else {
+        written.data.push(...single.data);
+      }
+    }
+  }
+
+  const embeddingItems: { recordId: string; textToEmbed: string }[] = [];
+  const reassignedIds: string[] = [];
+
+  for (const row of written.data) {
+    const lead = leads.get(Number(row.fub_lead_id));
+    if (!lead) continue;
+
+    const previous = existing.get(lead.fub_lead_id);
+
+    if (previous) {
+      result.updated++;
+
+      if (Number(previous.assigned_user_id ?? 0) !== Number(lead.assigned_user_id ?? 0)) {
+        reassignedIds.push(row.id);
+      }
+    } else {
+      result.created++;
+    }
+
+    result.changedIds.push(row.id);
+    embeddingItems.push({ recordId: row.id, textToEmbed: generateFubEmbeddingText(lead) });
+  }
+
+  await queueManyForEmbedding(supabase, "fub_leads", embeddingItems);
+
+  // Matches keep the agent they were attributed to until the lead moves
+  if (reassignedIds.length > 0) {
+    const { data: reattributed, error: reattributeError } = await supabase.rpc(
+      "reattribute_fub_lead_matches",
+      { p_fub_lead_ids: reassignedIds }
+    );
+
+    if (reattributeError) {
+      result.errors.push(`Failed to reattribute matches: ${reattributeError.message}`);
+    } else {
+      result.reattributed = Number(reattributed) || 0;
+    }
+  }
+
+  return result;
+}
+
+async function writeLeads(
+  supabase: SupabaseClient,
+  rows: Record<string, unknown>[]
+): Promise<{ data: { id: string; fub_lead_id: number }[]; error: { message: string } | null }> {
+  const { data, error } = await supabase
+    .from("fub_leads")
+    .upsert(rows, { onConflict: "fub_connection_id,fub_lead_id" })
+    .select("id, fub_lead_id");
+
+  return { data: (data || []) as { id: string; fub_lead_id: number }[], error };
+}
@@ -0,0 +1,229 @@
+/**
+ * Follow Up Boss webhooks
+ *
+ * FUB only sends webhooks to a registered system. Requests to manage them
+ * carry the system's name and key (FUB_SYSTEM_NAME / FUB_SYSTEM_KEY), and
+ * every delivery is signed with that key: the FUB-Signature header is the
+ * hex HMAC-SHA256 of the base64-encoded body. The key a connection was
+ * registered with is kept in fub_connections.webhook_signing_key.
+ *
+ * fub-webhook records each delivery in fub_webhook_events and answers right
+ * away; fub-sync then processes the event with processFubWebhookEvent.
+ */
+
+import { encodeBase64 } from "https://deno.land/std@0.208.0/encoding/base64.ts";
+import { FubClient, FubPerson, FubUser } from "./fub-client.ts";
+import { upsertFubPeople } from "./fub-leads.ts";
+import { queueRematchForFubLeads, triggerRematch } from "./matching.ts";
+import { hmacSha256Hex, timingSafeEqual } from "./signatures.ts";
+import { SupabaseClient } from "./supabase.ts";
+
+// Reassignments arrive as peopleUpdated
+export const FUB_WEBHOOK_EVENTS = ["peopleCreated", "peopleUpdated", "peopleStageUpdated"];
+
+export interface FubWebhookEvent {
+  eventId: string;
+  eventCreated: string;
+  event: string;
+  resourceIds: number[];
+  uri: string;
+}
+
+/**
+ * Verify a FUB-Signature header against the raw request body
+ */
+export async function verifyFubSignature(
+  secret: string,
+  body: Uint8Array,
+  signature: string | null
+): Promise<boolean> {
+  if (!signature) return false;
+
+  const expected = await hmacSha256Hex(secret, encodeBase64(body));
+  return timingSafeEqual(signature.toLowerCase(), expected);
+}
+
+/**
+ * URL FUB delivers a connection's events to
+ */
+export function getFubWebhookUrl(connectionId: string): string {
+  return `${Deno.env.get("SUPABASE_URL")}/functions/v1/fub-webhook?connection_id=${connectionId}`;
+}
+
+/**
+ * Subscribe a connection to the people events it doesn't already receive.
+ * Returns the events that were added.
+ */
+export async function registerFubWebhooks(
+  supabase: SupabaseClient,
+  connection: { id: string; api_key_encrypted: string }
+): Promise<string[]> {
+  const system = Deno.env.get("FUB_SYSTEM_NAME");
+  const systemKey = Deno.env.get("FUB_SYSTEM_KEY");
+
+  if (!system || !systemKey) {
+    throw new Error("FUB_SYSTEM_NAME and FUB_SYSTEM_KEY must be configured to register webhooks");
+  }
+
+  const fubClient = new FubClient({
+    apiKey: connection.api_key_encrypted,
+    system,
+    systemKey,
+  });
+
+  const url = getFubWebhookUrl(connection.id);
+  const existing = await fubClient.getWebhooks();
+  const added: string[] = [];
+
+  for (const event of FUB_WEBHOOK_EVENTS) {
+    if (existing.some((webhook) => webhook.event === event && webhook.url === url)) {
+      continue;
+    }
+
+    await fubClient.createWebhook(event, url);
+    added.push(event);
+  }
+
+  const { error } = await supabase
+    .from("fub_connections")
+    .update({
+      webhook_signing_key: systemKey,
+      webhooks_registered_at: new Date().toISOString(),
+    })
+    .eq("id", connection.id);
+
+  if (error) {
+    throw new Error(`Failed to save webhook registration: ${error.message}`);
+  }
+
+  return added;
+}
+
+export interface FubWebhookEventResult {
+  processed: boolean;
+  leads_created: number;
+  leads_updated: number;
+  matches_reattributed: number;
+  errors: number;
+}
+
+/**
+ * Fetch the people named in a recorded webhook event and write any changes
+ * to fub_leads. The event is claimed first, so a second trigger for it does
+ * nothing. Failures are logged rather than retried: the next fub-sync poll
+ * picks up anything missed here.
+ */
+export async function processFubWebhookEvent(
+  supabase: SupabaseClient,
+  webhookEventId: string
+): Promise<FubWebhookEventResult> {
+  const { data: claimed, error: claimError } = await supabase
+    .from("fub_webhook_events")
+    .update({ status: "processing" })
+    .eq("id", webhookEventId)
+    .eq("status", "received")
+    .select("id, fub_connection_id, event_id, resource_ids");
+
+  if (claimError) {
+    throw new Error(`Failed to claim webhook event: ${claimError.message}`);
+  }
+
+  const event = claimed?.[0];
+  if (!event) {
+    return { processed: false, leads_created: 0, leads_updated: 0, matches_reattributed: 0, errors: 0 };
+  }
+
+  const startedAt = new Date();
+  const personIds = (event.resource_ids || []) as number[];
+  const errors: string[] = [];
+  let created = 0;
+  let updated = 0;
+  let reattributed = 0;
+
+  try {
+    const { data: connection, error: connectionError } = await supabase
+      .from("fub_connections")
+      .select("id, organization_id, api_key_encrypted")
+      .eq("id", event.fub_connection_id)
+      .single();
+
+    if (connectionError || !connection) {
+      throw new Error("FUB connection not found");
+    }
+
+    const fubClient = new FubClient({ apiKey: connection.api_key_encrypted });
+    const people: FubPerson[] = [];
+
+    for (const personId of personIds) {
+      try {
+        people.push(await fubClient.getPerson(personId));
+      } catch (err) {
+        errors.push(`Error fetching FUB lead ${personId}: ${err instanceof Error ? err.message : err}`);
+      }
+    }
+
+    // Users are only needed to name assignees
+    const usersMap = people.some((person) => person.assignedUserId || person.assignedTo)
+      ? new Map((await fubClient.getUsers()).map((u) => [u.id, u]))
+      : new Map<number, FubUser>();
+
+    const written = await upsertFubPeople(supabase, connection, people, usersMap);
+    created = written.created;
+    updated = written.updated;
+    reattributed = written.reattributed;
+    errors.push(...written.errors);
+
+    // Source leads waiting for a match may now have one
+    if (written.changedIds.length > 0) {
+      try {
+        const sourceLeadIds = await queueRematchForFubLeads(supabase, written.changedIds);
+        triggerRematch(sourceLeadIds);
+      } catch (err) {
+        errors.push(`Re-match failed: ${err instanceof Error ? err.message : err}`);
+      }
+    }
+  } catch (err) {
+    errors.push(err instanceof Error ? err.message : String(err));
+  }
+
+  if (errors.length > 0) {
+    console.error(`FUB webhook ${event.event_id} errors:`, errors);
+  }
+
+  const completedAt = new Date();
+
+  await supabase
+    .from("fub_webhook_events")
+    .update({
+      status: errors.length > 0 ? "failed" : "processed",
+      error: errors[0] ?? null,
+      processed_at: completedAt.toISOString(),
+    })
+    .eq("id", event.id);
+
+  await supabase.from("fub_sync_log").insert({
+    fub_connection_id: event.fub_connection_id,
+    sync_type: "webhook",
+    status: errors.length > 0 ? "completed_with_errors" : "completed",
+    leads_fetched: personIds.length,
+    leads_created: created,
+    leads_updated: updated,
+    started_at: startedAt.toISOString(),
+    completed_at: completedAt.toISOString(),
+    duration_ms: completedAt.getTime() - startedAt.getTime(),
+    errors: errors.slice(0, 100),
+  });
+
+  await supabase
+    .from("fub_connections")
+    .update({ webhook_last_event_at: completedAt.toISOString() })
+    .eq("id", event.fub_connection_id);
+
+  return {
+    processed: true,
+    leads_created: created,
+    leads_updated: updated,
+    matches_reattributed: reattributed,
+    errors: errors.length,
+  };
+}
@@ -8,7 +8,11 @@ export interface MatchResult {
   fub_lead_id: string;
   match_type: string;
   confidence: number;
-  match_details: Record<string, unknown>;
+  match_details: {
+    scoring?: string;
+    reasons?: MatchReason[];
+    [key: string]: unknown;
+  };
 }
 
 export interface MatchCandidate {
@@ -28,14 +32,71 @@ export interface MatchReason {
 }
 
 /**
- * Confidence thresholds for automatic vs review matching
+ * Signals behind a match result, one MatchReason per contributing field.
+ * Falls back to a single reason for results without a breakdown.
+ */
+export function getMatchReasons(match: MatchResult): MatchReason[] {
+  if (match.match_details.reasons && match.match_details.reasons.length > 0) {
+    return match.match_details.reasons;
+  }
+
+  return [
+    {
+      type: match.match_type,
+      field: match.match_type.replace("_exact", "").replace("_fuzzy", ""),
+      source_value: null,
+      fub_value: null,
+      score: match.confidence,
+    },
+  ];
+}
+
+/**
+ * Default confidence thresholds for automatic vs review matching.
+ * Organizations and lead sources can override these (see getMatchConfig).
  */
 export const MATCH_THRESHOLDS = {
   AUTO_MATCH: 0.9, // Automatically create match
-  REVIEW_THRESHOLD: 0.6, // Add to review queue
+  REVIEW_THRESHOLD: 0.6, // Add to review queue; weaker matches only when nothing scores higher
   REJECT_THRESHOLD: 0.4, // Below this, don't even suggest
 };
 
+/**
+ * Effective matching configuration, merged from defaults,
+ * organizations.settings.matching and lead_sources.matching_config
+ */
+export interface MatchConfig {
+  auto_match_enabled: boolean;
+  thresholds: {
+    auto_match: number;
+    review: number;
+    reject: number;
+  };
+  weights: Record<string, number>;
+}
+
+/**
+ * Load the matching configuration for an organization and lead source.
+ * Throws rather than falling back to defaults, which could auto-match
+ * for an organization that turned auto-matching off.
+ */
+export async function getMatchConfig(
+  supabase: SupabaseClient,
+  organizationId: string,
+  leadSourceId?: string | null
+): Promise<MatchConfig> {
+  const { data, error } = await supabase.rpc("get_match_config", {
+    p_organization_id: organizationId,
+    p_lead_source_id: leadSourceId || null,
+  });
+
+  if (error || !data) {
+    throw new Error(`Failed to load match config: ${error?.message || "no config returned"}`);
+  }
+
+  return data as MatchConfig;
+}
+
 /**
  * Find potential FUB matches for a source lead using the database function
  */
@@ -63,119 +124,85 @@ export async function processMatches(
   supabase: SupabaseClient,
   sourceLeadId: string,
   matches: MatchResult[],
-  organizationId: string
+  organizationId: string,
+  leadSourceId?: string | null
 ): Promise<{
   matched: boolean;
   matchId?: string;
   candidatesCreated: number;
 }> {
-  if (matches.length === 0) {
-    // No matches found - mark as unmatched
-    await supabase
-      .from("source_leads")
-      .update({ match_status: "unmatched", matched_at: new Date().toISOString() })
-      .eq("id", sourceLeadId);
+  // A pair whose match was invalidated by a dispute is never matched again
+  const { data: invalidatedMatches, error: invalidatedError } = await supabase
+    .from("lead_matches")
+    .select("fub_lead_id")
+    .eq("source_lead_id", sourceLeadId)
+    .eq("status", "invalidated");
 
-    return { matched: false, candidatesCreated: 0 };
+  if (invalidatedError) {
+    throw new Error(`Failed to load invalidated matches: ${invalidatedError.message}`);
   }
 
-  // Check for high-confidence automatic match
-  const autoMatch = matches.find((m) => m.confidence >= MATCH_THRESHOLDS.AUTO_MATCH);
+  const invalidatedFubLeadIds = new Set((invalidatedMatches || []).map((m) => m.fub_lead_id));
+  const eligible = matches.filter((m) => !invalidatedFubLeadIds.has(m.fub_lead_id));
 
-  if (autoMatch) {
-    // Get FUB lead to find assigned agent
-    const { data: fubLead } = await supabase
-      .from("fub_leads")
-      .select("assigned_user_id")
-      .eq("id", autoMatch.fub_lead_id)
-      .single();
-
-    // Find agent by FUB user ID
-    let agentId: string | null = null;
-    let teamId: string | null = null;
-
-    if (fubLead?.assigned_user_id) {
-      const { data: agent } = await supabase
-        .from("agents")
-        .select("id, team_id")
-        .eq("fub_user_id", fubLead.assigned_user_id)
-        .single();
-
-      if (agent) {
-        agentId = agent.id;
-        teamId = agent.team_id;
-      }
-    }
+  if (eligible.length === 0) {
+    // No matches found - unmatched unless earlier candidates are still pending
+    await updateReviewStatus(supabase, sourceLeadId);
 
-    // Create the match
-    const { data: match, error: matchError } = await supabase
-      .from("lead_matches")
-      .insert({
-        source_lead_id: sourceLeadId,
-        fub_lead_id: autoMatch.fub_lead_id,
-        match_type: autoMatch.match_type,
-        match_confidence: autoMatch.confidence,
-        match_details: autoMatch.match_details,
-        matched_by: "system",
-        attributed_agent_id: agentId,
-        attributed_team_id: teamId,
-      })
-      .select("id")
-      .single();
-
-    if (matchError) {
-      throw new Error(`Failed to create match: ${matchError.message}`);
-    }
+    return { matched: false, candidatesCreated: 0 };
+  }
 
-    // Update source lead status
-    await supabase
-      .from("source_leads")
-      .update({
-        match_status: "matched",
-        match_confidence: autoMatch.confidence,
-        matched_at: new Date().toISOString(),
-      })
-      .eq("id", sourceLeadId);
+  const { auto_match_enabled, thresholds } = await getMatchConfig(
+    supabase,
+    organizationId,
+    leadSourceId
+  );
 
-    // Record lineage
-    await supabase.from("data_lineage").insert({
-      source_table: "source_leads",
-      source_id: sourceLeadId,
-      target_table: "lead_matches",
-      target_id: match.id,
-      operation: "create",
-      transformation_type: "match",
-      transformation_details: {
-        match_type: autoMatch.match_type,
-        confidence: autoMatch.confidence,
-        auto_matched: true,
-      },
-      performed_by: "system",
+  // Check for high-confidence automatic match
+  const autoMatch = auto_match_enabled
+    ? eligible.find((m) => m.confidence >= thresholds.auto_match)
+    : undefined;
+
+  if (autoMatch) {
+    const matchId = await createLeadMatch(supabase, {
+      sourceLeadId,
+      fubLeadId: autoMatch.fub_lead_id,
+      matchType: autoMatch.match_type,
+      confidence: autoMatch.confidence,
+      matchDetails: autoMatch.match_details,
+      matchedBy: "system",
     });
 
-    return { matched: true, matchId: match.id, candidatesCreated: 0 };
+    return { matched: true, matchId, candidatesCreated: 0 };
   }
 
-  // Create match candidates for review
-  const candidates = matches.filter(
+  // Pairs already rejected or expired are not suggested again
+  const { data: closedCandidates } = await supabase
+    .from("match_candidates")
+    .select("fub_lead_id")
+    .eq("source_lead_id", sourceLeadId)
+    .in("status", ["rejected", "expired"]);
+
+  const closedFubLeadIds = new Set((closedCandidates || []).map((c) => c.fub_lead_id));
+
+  const suggestions = eligible.filter(
     (m) =>
-      m.confidence >= MATCH_THRESHOLDS.REJECT_THRESHOLD &&
-      m.confidence < MATCH_THRESHOLDS.AUTO_MATCH
+      m.confidence >= thresholds.reject &&
+      (!auto_match_enabled || m.confidence < thresholds.auto_match) &&
+      !closedFubLeadIds.has(m.fub_lead_id)
   );
 
+  // Create match candidates for review. Weaker suggestions (between the
+  // reject and review thresholds) are only queued when nothing scores higher.
+  const strong = suggestions.filter((m) => m.confidence >= thresholds.review);
+  const candidates = strong.length > 0 ? strong : suggestions;
+
   if (candidates.length > 0) {
     const candidateInserts = candidates.map((c) => ({
       source_lead_id: sourceLeadId,
       fub_lead_id: c.fub_lead_id,
       confidence_score: c.confidence,
-      match_reasons: [
-        {
-          type: c.match_type,
-          field: c.match_type.replace("_exact", "").replace("_fuzzy", ""),
-          score: c.confidence,
-          details: c.match_details,
-        },
-      ],
+      match_reasons: getMatchReasons(c),
     }));
 
     const { error: candidateError } = await supabase
@@ -189,119 +216,104 @@ export async function processMatches(
     }
 
     // Update source lead to review status
-    await supabase
-      .from("source_leads")
-      .update({
-        match_status: candidates.length > 1 ? "multiple" : "review",
-        match_confidence: Math.max(...candidates.map((c) => c.confidence)),
-      })
-      .eq("id", sourceLeadId);
+    await updateReviewStatus(supabase, sourceLeadId);
 
     return { matched: false, candidatesCreated: candidates.length };
   }
 
-  // Below threshold - mark as unmatched
-  await supabase
-    .from("source_leads")
-    .update({ match_status: "unmatched", matched_at: new Date().toISOString() })
-    .eq("id", sourceLeadId);
+  // Below threshold - unmatched unless earlier candidates are still pending
+  await updateReviewStatus(supabase, sourceLeadId);
 
   return { matched: false, candidatesCreated: 0 };
 }
 
 /**
- * Approve a match candidate
+ * Set a source lead's match status from its pending candidates:
+ * review or multiple while any are pending, unmatched otherwise.
+ * Leads can be matched more than once (re-match on FUB changes, expiry),
+ * so candidates from earlier runs count too.
  */
-export async function approveCandidate(
+async function updateReviewStatus(
   supabase: SupabaseClient,
-  candidateId: string,
-  reviewedBy: string
-): Promise<string> {
-  // Get the candidate
-  const { data: candidate, error: fetchError } = await supabase
+  sourceLeadId: string
+): Promise<void> {
+  const { data: pending } = await supabase
     .from("match_candidates")
-    .select("*")
-    .eq("id", candidateId)
-    .single();
+    .select("confidence_score")
+    .eq("source_lead_id", sourceLeadId)
+    .eq("status", "pending");
 
-  if (fetchError || !candidate) {
-    throw new Error("Candidate not found");
+  if (!pending || pending.length === 0) {
+    await supabase
+      .from("source_leads")
+      .update({ match_status: "unmatched", matched_at: new Date().toISOString() })
+      .eq("id", sourceLeadId);
+    return;
   }
 
-  // Get FUB lead for attribution
-  const { data: fubLead } = await supabase
-    .from("fub_leads")
-    .select("assigned_user_id")
-    .eq("id", candidate.fub_lead_id)
-    .single();
-
-  let agentId: string | null = null;
-  let teamId: string | null = null;
-
-  if (fubLead?.assigned_user_id) {
-    const { data: agent } = await supabase
-      .from("agents")
-      .select("id, team_id")
-      .eq("fub_user_id", fubLead.assigned_user_id)
-      .single();
+  await supabase
+    .from("source_leads")
+    .update({
+      match_status: pending.length > 1 ? "multiple" : "review",
+      match_confidence: Math.max(...pending.map((c) => Number(c.confidence_score))),
+    })
+    .eq("id", sourceLeadId);
+}
 
-    if (agent) {
-      agentId = agent.id;
-      teamId = agent.team_id;
-    }
+/**
+ * Create a lead match atomically via the create_lead_match RPC.
+ * Attribution, source lead status, competing candidates and lineage are
+ * updated in the same transaction.
+ */
+export async function createLeadMatch(
+  supabase: SupabaseClient,
+  params: {
+    sourceLeadId: string;
+    fubLeadId: string;
+    matchType: string;
+    confidence: number;
+    matchDetails?: Record<string, unknown>;
+    matchedBy: "system" | "ai" | "manual";
+    matchedByUserId?: string;
   }
+): Promise<string> {
+  const { data, error } = await supabase.rpc("create_lead_match", {
+    p_source_lead_id: params.sourceLeadId,
+    p_fub_lead_id: params.fubLeadId,
+    p_match_type: params.matchType,
+    p_confidence: params.confidence,
+    p_match_details: params.matchDetails || {},
+    p_matched_by: params.matchedBy,
+    p_matched_by_user_id: params.matchedByUserId || null,
+  });
 
-  // Create the match
-  const { data: match, error: matchError } = await supabase
-    .from("lead_matches")
-    .insert({
-      source_lead_id: candidate.source_lead_id,
-      fub_lead_id: candidate.fub_lead_id,
-      match_type: "manual",
-      match_confidence: candidate.confidence_score,
-      match_details: { reasons: candidate.match_reasons, approved_from_candidate: true },
-      matched_by: "manual",
-      matched_by_user_id: reviewedBy,
-      attributed_agent_id: agentId,
-      attributed_team_id: teamId,
-    })
-    .select("id")
-    .single();
-
-  if (matchError) {
-    throw new Error(`Failed to create match: ${matchError.message}`);
+  if (error) {
+    throw new Error(`Failed to create match: ${error.message}`);
   }
 
-  // Update candidate
-  await supabase
-    .from("match_candidates")
-    .update({
-      status: "approved",
-      reviewed_by: reviewedBy,
-      reviewed_at: new Date().toISOString(),
-      lead_match_id: match.id,
-    })
-    .eq("id", candidateId);
+  return data as string;
+}
 
-  // Update source lead
-  await supabase
-    .from("source_leads")
-    .update({
-      match_status: "matched",
-      match_confidence: candidate.confidence_score,
-      matched_at: new Date().toISOString(),
-    })
-    .eq("id", candidate.source_lead_id);
+/**
+ * Approve a match candidate via the approve_match_candidate RPC
+ */
+export async function approveCandidate(
+  supabase: SupabaseClient,
+  candidateId: string,
+  reviewedBy: string,
+  notes?: string
+): Promise<string> {
+  const { data, error } = await supabase.rpc("approve_match_candidate", {
+    p_candidate_id: candidateId,
+    p_reviewer: reviewedBy,
+    p_notes: notes || null,
+  });
 
-  // Reject other candidates for this source lead
-  await supabase
-    .from("match_candidates")
-    .update({ status: "rejected", reviewed_by: reviewedBy, reviewed_at: new Date().toISOString() })
-    .eq("source_lead_id", candidate.source_lead_id)
-    .neq("id", candidateId)
-    .eq("status", "pending");
+  if (error) {
+    throw new Error(`Failed to approve candidate: ${error.message}`);
+  }
 
-  return match.id;
+  return data as string;
 }
 
 /**
@@ -313,7 +325,7 @@ export async function rejectCandidate(
   reviewedBy: string,
   notes?: string
 ): Promise<void> {
-  await supabase
+  const { data: candidate, error: updateError } = await supabase
     .from("match_candidates")
     .update({
       status: "rejected",
@@ -321,5 +333,109 @@ export async function rejectCandidate(
       reviewed_at: new Date().toISOString(),
       review_notes: notes,
     })
-    .eq("id", candidateId);
+    .eq("id", candidateId)
+    .eq("status", "pending")
+    .select("source_lead_id")
+    .single();
+
+  if (updateError || !candidate) {
+    throw new Error("Pending candidate not found");
+  }
+
+  // Review, multiple or unmatched, from the candidates still pending
+  await updateReviewStatus(supabase, candidate.source_lead_id);
+}
+
+/**
+ * Flag an active match as disputed via the dispute_lead_match RPC
+ */
+export async function disputeMatch(
+  supabase: SupabaseClient,
+  matchId: string,
+  raisedBy: string,
+  reason: string
+): Promise<string> {
+  const { data, error } = await supabase.rpc("dispute_lead_match", {
+    p_match_id: matchId,
+    p_user: raisedBy,
+    p_reason: reason,
+  });
+
+  if (error) {
+    throw new Error(`Failed to dispute match: ${error.message}`);
+  }
+
+  return data as string;
+}
+
+export type DisputeResolution = "dismiss" | "invalidate" | "reattribute" | "reopen";
+
+/**
+ * Resolve an open dispute via the resolve_match_dispute RPC.
+ * Re-attribution requires the FUB lead the source lead should be matched to.
+ */
+export async function resolveDispute(
+  supabase: SupabaseClient,
+  disputeId: string,
+  resolvedBy: string,
+  resolution: DisputeResolution,
+  options: { fubLeadId?: string; notes?: string } = {}
+): Promise<void> {
+  const { error } = await supabase.rpc("resolve_match_dispute", {
+    p_dispute_id: disputeId,
+    p_resolver: resolvedBy,
+    p_resolution: resolution,
+    p_fub_lead_id: options.fubLeadId || null,
+    p_notes: options.notes || null,
+  });
+
+  if (error) {
+    throw new Error(`Failed to resolve dispute: ${error.message}`);
+  }
+}
+
+/**
+ * Queue source leads that share an email, phone or address with the given
+ * FUB leads for re-matching. Returns the affected source lead IDs.
+ */
+export async function queueRematchForFubLeads(
+  supabase: SupabaseClient,
+  fubLeadIds: string[]
+): Promise<string[]> {
+  const sourceLeadIds: string[] = [];
+
+  // Keep the id array in the RPC payload reasonably small
+  for (let i = 0; i < fubLeadIds.length; i += 500) {
+    const { data, error } = await supabase.rpc("queue_rematch_for_fub_leads", {
+      p_fub_lead_ids: fubLeadIds.slice(i, i + 500),
+    });
+
+    if (error) {
+      throw new Error(`Failed to queue re-match: ${error.message}`);
+    }
+
+    sourceLeadIds.push(...((data || []) as { source_lead_id: string }[]).map((r) => r.source_lead_id));
+  }
+
+  return sourceLeadIds;
+}
+
+/**
+ * Run lead-matcher for re-queued source leads without waiting for the result.
+ * Unmatched leads are already back in 'pending', so the scheduled
+ * lead-matcher run catches anything this misses.
+ */
+export function triggerRematch(sourceLeadIds: string[]): void {
+  const matchUrl = `${Deno.env.get("SUPABASE_URL")}/functions/v1/lead-matcher`;
+
+  for (let i = 0; i < sourceLeadIds.length; i += 100) {
+    fetch(matchUrl, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        Authorization: `Bearer ${Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")}`,
+      },
+      body: JSON.stringify({ source_lead_ids: sourceLeadIds.slice(i, i + 100) }),
+    }).catch((err) => console.error("Failed to trigger lead-matcher:", err));
+  }
 }
@@ -242,7 +242,7 @@ export const dataQueryFunctions: FunctionDefinition[] = [
   {
     name: "get_source_summary",
     description:
-      "Get summary statistics for lead sources including total leads, match rates, and date ranges.",
+      "Get summary statistics for lead sources including total leads, match rates, date ranges, and closed deals, volume and GCI.",
     parameters: {
       type: "object",
       properties: {
@@ -257,7 +257,7 @@ export const dataQueryFunctions: FunctionDefinition[] = [
   {
     name: "get_team_summary",
     description:
-      "Get summary statistics for teams including attributed leads and agent counts.",
+      "Get summary statistics for teams including attributed leads, agent counts, and closed deals, volume and GCI.",
     parameters: {
       type: "object",
       properties: {
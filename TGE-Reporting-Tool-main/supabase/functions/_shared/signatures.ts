@@ -0,0 +1,66 @@
+/**
+ * Webhook signature verification
+ *
+ * Inbound webhooks are signed with an HMAC-SHA256 of their raw body using a
+ * secret shared with the sender. Signatures are compared in constant time.
+ */
+
+import { encodeHex } from "https://deno.land/std@0.208.0/encoding/hex.ts";
+
+/**
+ * Hex HMAC-SHA256 of a payload
+ */
+export async function hmacSha256Hex(secret: string, payload: string | Uint8Array): Promise<string> {
+  const encoder = new TextEncoder();
+  const key = await crypto.subtle.importKey(
+    "raw",
+    encoder.encode(secret),
+    { name: "HMAC", hash: "SHA-256" },
+    false,
+    ["sign"]
+  );
+
+  const data = typeof payload === "string" ? encoder.encode(payload) : payload;
+  return encodeHex(new Uint8Array(await crypto.subtle.sign("HMAC", key, data)));
+}
+
+/**
+ * Compare two strings without leaking where they differ
+ */
+export function timingSafeEqual(a: string, b: string): boolean {
+  if (a.length !== b.length) return false;
+
+  let diff = 0;
+  for (let i = 0; i < a.length; i++) {
+    diff |= a.charCodeAt(i) ^ b.charCodeAt(i);
+  }
+  return diff === 0;
+}
+
+/**
+ * Verify a timestamped signature: HMAC of "<timestamp>.<body>", sent as
+ * "sha256=<hex>" (or bare hex). Timestamps are Unix seconds and must be
+ * within maxAgeSeconds of now, so a captured request can't be replayed.
+ */
+export async function verifyTimestampedSignature(
+  secret: string,
+  body: Uint8Array,
+  timestamp: string | null,
+  signature: string | null,
+  maxAgeSeconds = 300
+): Promise<boolean> {
+  if (!timestamp || !signature) return false;
+
+  const sentAt = Number(timestamp);
+  if (!Number.isFinite(sentAt) || Math.abs(Date.now() / 1000 - sentAt) > maxAgeSeconds) {
+    return false;
+  }
+
+  const prefix = new TextEncoder().encode(`${timestamp}.`);
+  const payload = new Uint8Array(prefix.length + body.length);
+  payload.set(prefix);
+  payload.set(body, prefix.length);
+
+  const expected = await hmacSha256Hex(secret, payload);
+  return timingSafeEqual(signature.replace(/^sha256=/, "").toLowerCase(), expected);
+}
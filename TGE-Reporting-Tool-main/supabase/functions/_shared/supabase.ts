@@ -3,8 +3,12 @@
  */
 
 import { createClient, SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+import type { ValidationRules } from "./validation.ts";
+import type { EmailBodyTemplate } from "./email-body.ts";
 
 export type { SupabaseClient };
+export type { ValidationRules };
+export type { EmailBodyTemplate };
 
 /**
  * Create a Supabase client with service role key (for server-side operations)
@@ -55,7 +59,7 @@ export function createUserClient(authHeader: string | null): SupabaseClient {
 export async function getUserFromHeader(
   supabase: SupabaseClient,
   authHeader: string | null
-): Promise<{ id: string; email: string } | null> {
+): Promise<{ id: string; email: string; role: string | null } | null> {
   if (!authHeader) {
     return null;
   }
@@ -73,6 +77,8 @@ export async function getUserFromHeader(
   return {
     id: user.id,
     email: user.email || "",
+    // Set server-side in auth app_metadata, e.g. "admin"
+    role: (user.app_metadata?.role as string | undefined) || null,
   };
 }
 
@@ -97,14 +103,22 @@ export interface LeadSource {
     delimiter: string;
     has_header: boolean;
     date_format: string;
+    /** IANA timezone dates in the file are written in (default: UTC) */
+    timezone?: string;
     skip_rows: number;
+    /** Excel workbooks: sheet name or 0-based index (default: first sheet) */
+    sheet?: string | number;
   };
   field_mapping: Record<string, string[]>;
-  validation_rules: {
-    required_fields: string[];
-    email_regex: string;
-  };
+  validation_rules: ValidationRules | null;
+  matching_config: Record<string, unknown> | null;
+  dedup_config: {
+    keys: ("source_lead_id" | "email" | "phone")[];
+    on_resend: "skip" | "update";
+  } | null;
   ingest_email: string | null;
+  /** Reading single leads from notification email bodies */
+  email_body_config: EmailBodyTemplate | null;
   is_active: boolean;
 }
 
@@ -121,12 +135,19 @@ export interface RawIngestion {
   email_received_at: string | null;
   status: "pending" | "processing" | "parsed" | "transforming" | "completed" | "failed" | "partial";
   total_rows: number | null;
+  /** Written when parsing starts, until total_rows is known */
+  estimated_rows: number | null;
   parsed_rows: number;
   valid_rows: number;
   duplicate_rows: number;
   error_rows: number;
+  warning_rows: number;
+  /** Set when the single row was read from an email body instead of a file */
+  body_extraction: { method: string; fields: string[] } | null;
   processing_log: unknown[];
   errors: unknown[];
+  /** Invocation currently parsing or transforming the ingestion */
+  claim_id: string | null;
   started_at: string | null;
   completed_at: string | null;
   created_at: string;
@@ -155,6 +176,7 @@ export interface SourceLead {
   match_status: "pending" | "matched" | "unmatched" | "multiple" | "review";
   match_confidence: number | null;
   matched_at: string | null;
+  ai_matched_at: string | null;
   raw_data: Record<string, unknown> | null;
   created_at: string;
   updated_at: string;
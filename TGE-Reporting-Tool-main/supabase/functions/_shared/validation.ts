@@ -0,0 +1,295 @@
+/**
+ * Row validation rules
+ *
+ * lead_sources.validation_rules holds the legacy required_fields and
+ * email_regex settings plus an optional list of rules:
+ *
+ *   {
+ *     "required_fields": ["email"],
+ *     "rules": [
+ *       { "type": "required_one_of", "fields": ["email", "phone"] },
+ *       { "type": "regex", "field": "zip", "pattern": "^\\d{5}(-\\d{4})?$" },
+ *       { "type": "enum", "field": "lead_type", "values": ["buyer", "seller"] },
+ *       { "type": "phone", "field": "phone", "country": "US" },
+ *       { "type": "date_range", "field": "source_created_at", "min": "2015-01-01", "max": "now" },
+ *       { "type": "required", "field": "full_name", "severity": "warning",
+ *         "message": "No name; agents will have to look this lead up" }
+ *     ]
+ *   }
+ *
+ * Fields are target fields from the field mapping (or raw column names when
+ * unmapped). Every rule accepts a custom "message" and a "severity": errors
+ * reject the row, warnings keep it but flag it.
+ */
+
+import { FieldMapping, mapFields } from "./field-mapping.ts";
+import { parseDate } from "./dates.ts";
+import { LeadSource } from "./supabase.ts";
+
+export type ValidationSeverity = "error" | "warning";
+
+interface BaseRule {
+  message?: string;
+  severity?: ValidationSeverity;
+}
+
+export type ValidationRule =
+  | (BaseRule & { type: "required"; field: string })
+  | (BaseRule & { type: "required_one_of"; fields: string[] })
+  | (BaseRule & { type: "regex"; field: string; pattern: string; flags?: string })
+  | (BaseRule & { type: "enum"; field: string; values: string[]; case_sensitive?: boolean })
+  | (BaseRule & {
+      type: "phone";
+      field: string;
+      /** "US" / "CA" check North American numbers; other countries only check length */
+      country?: string;
+      min_digits?: number;
+      max_digits?: number;
+    })
+  | (BaseRule & {
+      type: "date_range";
+      field: string;
+      /** ISO date or "now" */
+      min?: string;
+      max?: string;
+    });
+
+export interface ValidationRules {
+  required_fields?: string[];
+  email_regex?: string;
+  rules?: ValidationRule[];
+}
+
+/** One failed rule, as stored in raw_lead_rows.validation_errors */
+export interface ValidationIssue {
+  rule: ValidationRule["type"] | "email" | "date";
+  field: string;
+  severity: ValidationSeverity;
+  message: string;
+  value?: string;
+}
+
+export interface ValidationResult {
+  isValid: boolean;
+  hasWarnings: boolean;
+  issues: ValidationIssue[];
+}
+
+const DEFAULT_EMAIL_REGEX = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+// Country calling code and national number length for the countries we see
+const PHONE_COUNTRIES: Record<string, { code: string; digits: number }> = {
+  US: { code: "1", digits: 10 },
+  CA: { code: "1", digits: 10 },
+};
+
+type Check = (values: Record<string, string | null>) => ValidationIssue | null;
+
+/**
+ * Compile a source's validation rules once per file. Throws if a rule is
+ * malformed (e.g. a bad regex) so the ingestion fails up front instead of
+ * rejecting every row.
+ */
+export function createValidator(
+  validationRules: ValidationRules | null | undefined,
+  fieldMapping: FieldMapping,
+  csvConfig: Partial<LeadSource["csv_config"]> = {}
+): (row: Record<string, string>) => ValidationResult {
+  const rules = validationRules || { required_fields: ["email"] };
+  const dateOptions = { format: csvConfig.date_format, timezone: csvConfig.timezone };
+  const checks: Check[] = [];
+
+  // Legacy settings
+  for (const field of rules.required_fields || []) {
+    checks.push(compileRule({ type: "required", field }, dateOptions));
+  }
+
+  const emailRegex = rules.email_regex ? new RegExp(rules.email_regex) : DEFAULT_EMAIL_REGEX;
+  checks.push((values) =>
+    values.email && !emailRegex.test(values.email)
+      ? issue("email", "email", "error", `Invalid email format: ${values.email}`, values.email)
+      : null
+  );
+
+  // Dates that don't read in the source's format are rejected instead of stored as null
+  checks.push((values) => {
+    const value = values.source_created_at;
+    if (!value || parseDate(value, dateOptions)) return null;
+
+    return issue(
+      "date",
+      "source_created_at",
+      "error",
+      `Invalid date: ${value}` + (dateOptions.format ? ` (expected ${dateOptions.format})` : ""),
+      value
+    );
+  });
+
+  for (const rule of rules.rules || []) {
+    checks.push(compileRule(rule, dateOptions));
+  }
+
+  return (row) => {
+    // Mapped target fields win over raw columns of the same name
+    const values: Record<string, string | null> = {
+      ...Object.fromEntries(Object.entries(row).map(([col, v]) => [col, v?.trim() || null])),
+      ...mapFields(row, fieldMapping),
+    };
+
+    const issues = checks.map((check) => check(values)).filter((i): i is ValidationIssue => !!i);
+
+    return {
+      isValid: !issues.some((i) => i.severity === "error"),
+      hasWarnings: issues.some((i) => i.severity === "warning"),
+      issues,
+    };
+  };
+}
+
+/**
+ * Fields a row must have to pass validation, from both the legacy
+ * required_fields list and error-severity "required" rules
+ */
+export function getRequiredFields(validationRules: ValidationRules | null | undefined): string[] {
+  const rules = validationRules || { required_fields: ["email"] };
+  const fields = new Set(rules.required_fields || []);
+
+  for (const rule of rules.rules || []) {
+    if (rule.type === "required" && (rule.severity || "error") === "error") {
+      fields.add(rule.field);
+    }
+  }
+
+  return [...fields];
+}
+
+/**
+ * Turn one rule into a check over a row's values
+ */
+function compileRule(
+  rule: ValidationRule,
+  dateOptions: { format?: string; timezone?: string }
+): Check {
+  const severity = rule.severity || "error";
+  const fail = (field: string, message: string, value?: string | null) =>
+    issue(rule.type, field, severity, rule.message || message, value ?? undefined);
+
+  switch (rule.type) {
+    case "required":
+      return (values) =>
+        values[rule.field] ? null : fail(rule.field, `Missing required field: ${rule.field}`);
+
+    case "required_one_of":
+      return (values) =>
+        rule.fields.some((field) => values[field])
+          ? null
+          : fail(rule.fields.join(","), `Missing all of: ${rule.fields.join(", ")}`);
+
+    case "regex": {
+      const regex = new RegExp(rule.pattern, rule.flags);
+      return (values) => {
+        const value = values[rule.field];
+        return value && !regex.test(value)
+          ? fail(rule.field, `Invalid ${rule.field}: ${value}`, value)
+          : null;
+      };
+    }
+
+    case "enum": {
+      const allowed = new Set(
+        rule.values.map((v) => (rule.case_sensitive ? v : v.toLowerCase()))
+      );
+      return (values) => {
+        const value = values[rule.field];
+        if (!value) return null;
+
+        return allowed.has(rule.case_sensitive ? value : value.toLowerCase())
+          ? null
+          : fail(rule.field, `${rule.field} must be one of: ${rule.values.join(", ")}`, value);
+      };
+    }
+
+    case "phone": {
+      const country = rule.country ? PHONE_COUNTRIES[rule.country.toUpperCase()] : undefined;
+      if (rule.country && !country && rule.min_digits === undefined) {
+        throw new Error(`Unsupported phone country: ${rule.country}`);
+      }
+
+      return (values) => {
+        const value = values[rule.field];
+        if (!value) return null;
+
+        let digits = value.replace(/\D/g, "");
+
+        if (country) {
+          if (digits.length === country.digits + country.code.length && digits.startsWith(country.code)) {
+            digits = digits.slice(country.code.length);
+          }
+
+          // North American numbers: area code and exchange can't start with 0 or 1
+          const valid =
+            digits.length === country.digits &&
+            (country.code !== "1" || /^[2-9]\d{2}[2-9]\d{6}$/.test(digits));
+
+          return valid ? null : fail(rule.field, `Invalid ${rule.country} phone number: ${value}`, value);
+        }
+
+        const min = rule.min_digits ?? 7;
+        const max = rule.max_digits ?? 15;
+
+        return digits.length >= min && digits.length <= max
+          ? null
+          : fail(rule.field, `Phone number must have ${min}-${max} digits: ${value}`, value);
+      };
+    }
+
+    case "date_range": {
+      const bound = (value?: string) => {
+        if (!value) return null;
+        if (value === "now") return "now";
+
+        const date = new Date(value);
+        if (isNaN(date.getTime())) {
+          throw new Error(`Invalid date_range bound: ${value}`);
+        }
+        return date;
+      };
+      const min = bound(rule.min);
+      const max = bound(rule.max);
+
+      return (values) => {
+        const value = values[rule.field];
+        const date = value ? parseDate(value, dateOptions) : null;
+        // Unparseable dates are reported by the date check
+        if (!date) return null;
+
+        const now = new Date();
+        const minDate = min === "now" ? now : min;
+        const maxDate = max === "now" ? now : max;
+
+        if (minDate && date < minDate) {
+          return fail(rule.field, `${rule.field} is before ${rule.min}: ${value}`, value);
+        }
+        if (maxDate && date > maxDate) {
+          return fail(rule.field, `${rule.field} is after ${rule.max}: ${value}`, value);
+        }
+        return null;
+      };
+    }
+
+    default:
+      throw new Error(`Unknown validation rule type: ${(rule as { type: string }).type}`);
+  }
+}
+
+function issue(
+  rule: ValidationIssue["rule"],
+  field: string,
+  severity: ValidationSeverity,
+  message: string,
+  value?: string
+): ValidationIssue {
+  return value === undefined
+    ? { rule, field, severity, message }
+    : { rule, field, severity, message, value };
+}
@@ -0,0 +1,351 @@
+/**
+ * AI Matcher Edge Function
+ *
+ * Second matching stage for source_leads that deterministic matching left
+ * unmatched. Finds the nearest fub_leads by embedding, optionally asks the
+ * model to judge each pair, and queues ai_suggested match_candidates for review.
+ * Run by lead-matcher for the leads it left unmatched, and by embedding-worker
+ * for leads embedded after that.
+ */
+
+import { serve } from "https://deno.land/std@0.208.0/http/server.ts";
+import { corsHeaders, handleCors, jsonResponse, errorResponse } from "../_shared/cors.ts";
+import { createServiceClient } from "../_shared/supabase.ts";
+import { chatCompletion } from "../_shared/openai.ts";
+import { getMatchConfig, MatchReason } from "../_shared/matching.ts";
+
+interface AiMatchRequest {
+  source_lead_ids?: string[];
+  organization_id?: string;
+  batch_size?: number;
+  similarity_threshold?: number;
+  max_candidates?: number;
+  judge?: boolean;
+}
+
+interface SourceLeadRow {
+  id: string;
+  organization_id: string;
+  lead_source_id: string | null;
+  email: string | null;
+  phone: string | null;
+  first_name: string | null;
+  last_name: string | null;
+  full_name: string | null;
+  property_address: string | null;
+  property_city: string | null;
+  property_state: string | null;
+  embedding: string;
+}
+
+interface VectorMatch {
+  id: string;
+  fub_lead_id: number;
+  email: string | null;
+  first_name: string | null;
+  last_name: string | null;
+  address: string | null;
+  city: string | null;
+  state: string | null;
+  fub_stage: string | null;
+  assigned_user_name: string | null;
+  similarity: number;
+}
+
+interface Judgment {
+  same_person: boolean;
+  confidence: number;
+  reasoning: string;
+}
+
+// Embeddings of the same person are typically well above this
+const DEFAULT_SIMILARITY_THRESHOLD = 0.85;
+const DEFAULT_MAX_CANDIDATES = 3;
+
+serve(async (req: Request) => {
+  // Handle CORS
+  const corsResponse = handleCors(req);
+  if (corsResponse) return corsResponse;
+
+  try {
+    const body = (await req.json()) as AiMatchRequest;
+    const supabase = createServiceClient();
+
+    const threshold = body.similarity_threshold ?? DEFAULT_SIMILARITY_THRESHOLD;
+    const maxCandidates = body.max_candidates ?? DEFAULT_MAX_CANDIDATES;
+    const judge = body.judge ?? true;
+
+    let query = supabase
+      .from("source_leads")
+      .select(
+        "id, organization_id, lead_source_id, email, phone, first_name, last_name, full_name, property_address, property_city, property_state, embedding"
+      )
+      .eq("match_status", "unmatched")
+      .not("embedding", "is", null);
+
+    if (body.source_lead_ids && body.source_lead_ids.length > 0) {
+      // Process specific leads
+      query = query.in("id", body.source_lead_ids);
+    } else {
+      // Leads the AI stage has not looked at yet (cron job mode)
+      query = query.is("ai_matched_at", null);
+
+      if (body.organization_id) {
+        query = query.eq("organization_id", body.organization_id);
+      }
+    }
+
+    const { data: leads, error } = await query.limit(body.batch_size || 50);
+
+    if (error) {
+      return errorResponse("Failed to fetch unmatched leads", 500);
+    }
+
+    if (!leads || leads.length === 0) {
+      return jsonResponse({
+        success: true,
+        message: "No unmatched leads to process",
+        processed: 0,
+      });
+    }
+
+    const results = {
+      processed: 0,
+      suggested: 0,
+      candidates: 0,
+      no_match: 0,
+      errors: 0,
+    };
+
+    for (const lead of leads as SourceLeadRow[]) {
+      try {
+        const created = await suggestMatches(supabase, lead, {
+          threshold,
+          maxCandidates,
+          judge,
+        });
+
+        results.processed++;
+
+        if (created > 0) {
+          results.suggested++;
+          results.candidates += created;
+        } else {
+          results.no_match++;
+        }
+      } catch (err) {
+        console.error(`Error AI matching lead ${lead.id}:`, err);
+        results.errors++;
+      }
+    }
+
+    return jsonResponse({
+      success: true,
+      ...results,
+    });
+  } catch (error) {
+    console.error("AI matcher error:", error);
+    return errorResponse(
+      error instanceof Error ? error.message : "Unknown error",
+      500
+    );
+  }
+});
+
+/**
+ * Find vector neighbours for one source lead and queue them as candidates
+ */
+async function suggestMatches(
+  supabase: ReturnType<typeof createServiceClient>,
+  lead: SourceLeadRow,
+  options: { threshold: number; maxCandidates: number; judge: boolean }
+): Promise<number> {
+  const { data: neighbours, error } = await supabase.rpc("vector_search_fub_leads", {
+    p_organization_id: lead.organization_id,
+    p_embedding: lead.embedding,
+    p_limit: options.maxCandidates,
+    p_threshold: options.threshold,
+  });
+
+  if (error) {
+    throw new Error(`Vector search failed: ${error.message}`);
+  }
+
+  // Suggestions below the source's reject threshold are dropped, as in lead-matcher
+  const { thresholds } = await getMatchConfig(supabase, lead.organization_id, lead.lead_source_id);
+
+  // Nor are pairs whose match was invalidated by a dispute
+  const { data: invalidatedMatches } = await supabase
+    .from("lead_matches")
+    .select("fub_lead_id")
+    .eq("source_lead_id", lead.id)
+    .eq("status", "invalidated");
+
+  const invalidatedFubLeadIds = new Set((invalidatedMatches || []).map((m) => m.fub_lead_id));
+  const candidateInserts = [];
+
+  for (const match of (neighbours || []) as VectorMatch[]) {
+    if (invalidatedFubLeadIds.has(match.id)) continue;
+
+    const reasons: MatchReason[] = [
+      {
+        type: "ai_suggested",
+        field: "embedding",
+        source_value: describeSourceLead(lead).join("; "),
+        fub_value: describeFubLead(match).join("; "),
+        score: round(match.similarity),
+        details: `Vector similarity ${round(match.similarity)}`,
+      },
+    ];
+    let confidence = match.similarity;
+
+    if (options.judge) {
+      const judgment = await judgePair(supabase, lead, match);
+
+      if (judgment) {
+        if (!judgment.same_person) continue;
+
+        confidence = judgment.confidence;
+        reasons.push({
+          type: "ai_judgment",
+          field: "record",
+          source_value: null,
+          fub_value: null,
+          score: round(judgment.confidence),
+          details: judgment.reasoning,
+        });
+      }
+    }
+
+    if (confidence < thresholds.reject) continue;
+
+    candidateInserts.push({
+      source_lead_id: lead.id,
+      fub_lead_id: match.id,
+      confidence_score: round(confidence),
+      match_reasons: reasons,
+    });
+  }
+
+  let created = 0;
+
+  if (candidateInserts.length > 0) {
+    // Never overwrite a pair a reviewer has already decided on
+    const { data: inserted, error: candidateError } = await supabase
+      .from("match_candidates")
+      .upsert(candidateInserts, {
+        onConflict: "source_lead_id,fub_lead_id",
+        ignoreDuplicates: true,
+      })
+      .select("id, confidence_score");
+
+    if (candidateError) {
+      throw new Error(`Failed to create candidates: ${candidateError.message}`);
+    }
+
+    created = inserted?.length || 0;
+
+    if (created > 0) {
+      await supabase
+        .from("source_leads")
+        .update({
+          match_status: created > 1 ? "multiple" : "review",
+          match_confidence: Math.max(...inserted!.map((c) => Number(c.confidence_score))),
+        })
+        .eq("id", lead.id);
+    }
+  }
+
+  await supabase
+    .from("source_leads")
+    .update({ ai_matched_at: new Date().toISOString() })
+    .eq("id", lead.id);
+
+  return created;
+}
+
+/**
+ * Ask the model whether two lead records describe the same person.
+ * Returns null when the model is unavailable or its answer cannot be parsed,
+ * in which case the vector similarity is used on its own.
+ */
+async function judgePair(
+  supabase: ReturnType<typeof createServiceClient>,
+  lead: SourceLeadRow,
+  match: VectorMatch
+): Promise<Judgment | null> {
+  // Phone is not returned by the vector search
+  const { data: fubLead } = await supabase
+    .from("fub_leads")
+    .select("phone")
+    .eq("id", match.id)
+    .single();
+
+  try {
+    const response = await chatCompletion([
+      {
+        role: "system",
+        content: `You compare real estate lead records to decide whether they refer to the same person.
+Consider names, contact details and property addresses, allowing for typos, nicknames and formatting differences.
+Respond with JSON only: {"same_person": boolean, "confidence": number between 0 and 1, "reasoning": one short sentence}.`,
+      },
+      {
+        role: "user",
+        content: `Source lead:
+${describeSourceLead(lead).join("\n")}
+
+Follow Up Boss lead:
+${describeFubLead(match).join("\n")}${fubLead?.phone ? `\nPhone: ${fubLead.phone}` : ""}`,
+      },
+    ], {
+      temperature: 0,
+      max_tokens: 200,
+    });
+
+    const parsed = JSON.parse(response.message.content) as Partial<Judgment>;
+
+    if (typeof parsed.same_person !== "boolean" || typeof parsed.confidence !== "number") {
+      return null;
+    }
+
+    return {
+      same_person: parsed.same_person,
+      confidence: Math.min(1, Math.max(0, parsed.confidence)),
+      reasoning: parsed.reasoning || "",
+    };
+  } catch (err) {
+    console.error(`Failed to judge pair ${lead.id} / ${match.id}:`, err);
+    return null;
+  }
+}
+
+function describeSourceLead(lead: SourceLeadRow): string[] {
+  const name =
+    [lead.first_name, lead.last_name].filter(Boolean).join(" ") || lead.full_name;
+  const address = [lead.property_address, lead.property_city, lead.property_state]
+    .filter(Boolean)
+    .join(", ");
+
+  return [
+    name && `Name: ${name}`,
+    lead.email && `Email: ${lead.email}`,
+    lead.phone && `Phone: ${lead.phone}`,
+    address && `Address: ${address}`,
+  ].filter(Boolean) as string[];
+}
+
+function describeFubLead(match: VectorMatch): string[] {
+  const name = [match.first_name, match.last_name].filter(Boolean).join(" ");
+  const address = [match.address, match.city, match.state].filter(Boolean).join(", ");
+
+  return [
+    name && `Name: ${name}`,
+    match.email && `Email: ${match.email}`,
+    address && `Address: ${address}`,
+    match.fub_stage && `Stage: ${match.fub_stage}`,
+  ].filter(Boolean) as string[];
+}
+
+function round(value: number): number {
+  return Math.round(value * 10000) / 10000;
+}
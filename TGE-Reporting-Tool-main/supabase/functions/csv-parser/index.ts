@@ -1,32 +1,69 @@
 /**
  * CSV Parser Edge Function
  *
- * Parses CSV files based on lead source configuration and creates raw_lead_rows.
+ * Parses CSV, TSV and Excel files based on lead source configuration and
+ * creates raw_lead_rows. Rows are streamed and inserted in chunks, each
+ * checkpointed in processing_log; long files continue in a fresh invocation
+ * and an interrupted run resumes after its last checkpoint. Call with
+ * { resume_stalled: true } on a cron schedule to restart cut-off runs.
+ *
+ * An invocation claims the ingestion before touching its rows, and only the
+ * holder of the claim (passed on with each handoff) may continue a run that
+ * is in progress, so a second trigger for the same file stops immediately.
  */
 
 import { serve } from "https://deno.land/std@0.208.0/http/server.ts";
-import { parse } from "https://deno.land/std@0.208.0/csv/parse.ts";
 import { corsHeaders, handleCors, jsonResponse, errorResponse } from "../_shared/cors.ts";
 import { createServiceClient, LeadSource, RawIngestion } from "../_shared/supabase.ts";
+import { getDefaultFieldMapping } from "../_shared/field-mapping.ts";
+import { detectFileFormat, estimateRowCount, iterateRows } from "../_shared/file-formats.ts";
+import { isValidTimezone } from "../_shared/dates.ts";
+import { createValidator, ValidationIssue } from "../_shared/validation.ts";
 
 interface ParseRequest {
-  ingestion_id: string;
+  ingestion_id?: string;
+  // Handoffs pass on the claim of the invocation that started the run
+  claim_id?: string;
+  // Cron: re-trigger ingestions whose parsing was cut off
+  resume_stalled?: boolean;
+}
+
+/** processing_log entry written after each chunk of raw_lead_rows is inserted */
+interface ParseCheckpoint {
+  chunk: number;
+  last_row_number: number;
+  rows: number;
+  valid: number;
+  errors: number;
+  warnings: number;
 }
 
+const CHUNK_SIZE = 1000;
+// Hand off to a fresh invocation well before the wall-clock limit
+const TIME_BUDGET_MS = 100_000;
+// No log entry for this long means the invocation died
+const STALLED_AFTER_MS = 10 * 60 * 1000;
+
 serve(async (req: Request) => {
   // Handle CORS
   const corsResponse = handleCors(req);
   if (corsResponse) return corsResponse;
 
+  const startedAt = Date.now();
+
   try {
-    const { ingestion_id } = (await req.json()) as ParseRequest;
+    const { ingestion_id, claim_id, resume_stalled } = (await req.json()) as ParseRequest;
+    const supabase = createServiceClient();
+
+    if (resume_stalled) {
+      const resumed = await resumeStalledIngestions(supabase);
+      return jsonResponse({ success: true, resumed_ingestion_ids: resumed });
+    }
 
     if (!ingestion_id) {
       return errorResponse("Missing ingestion_id", 400);
     }
 
-    const supabase = createServiceClient();
-
     // Get ingestion record
     const { data: ingestion, error: ingestionError } = await supabase
       .from("raw_ingestions")
@@ -38,31 +75,85 @@ serve(async (req: Request) => {
       return errorResponse("Ingestion not found", 404);
     }
 
-    // Update status to processing
-    await supabase
+    if (!["pending", "processing", "failed"].includes(ingestion.status)) {
+      return jsonResponse({
+        success: true,
+        ingestion_id,
+        message: `Ingestion already ${ingestion.status}`,
+      });
+    }
+
+    // A run in progress is only continued by the invocation it handed off to
+    if (ingestion.status === "processing" && ingestion.claim_id && claim_id !== ingestion.claim_id) {
+      return alreadyClaimed(ingestion_id);
+    }
+
+    const log = [...((ingestion as RawIngestion).processing_log || [])];
+    const checkpoint = getLastCheckpoint(log);
+
+    log.push(
+      checkpoint
+        ? {
+            timestamp: new Date().toISOString(),
+            action: "parsing_resumed",
+            details: { after_row: checkpoint.last_row_number, chunk: checkpoint.chunk },
+          }
+        : { timestamp: new Date().toISOString(), action: "parsing_started" }
+    );
+
+    // Claim the ingestion. The update only matches while status and claim are
+    // still what was read above, so of two concurrent triggers only one wins.
+    const claimId = crypto.randomUUID();
+
+    let claimQuery = supabase
       .from("raw_ingestions")
       .update({
         status: "processing",
-        started_at: new Date().toISOString(),
-        processing_log: [
-          ...((ingestion as RawIngestion).processing_log || []),
-          { timestamp: new Date().toISOString(), action: "parsing_started" },
-        ],
+        claim_id: claimId,
+        started_at: ingestion.started_at || new Date().toISOString(),
+        processing_log: log,
       })
-      .eq("id", ingestion_id);
+      .eq("id", ingestion_id)
+      .eq("status", ingestion.status);
+
+    claimQuery = ingestion.claim_id
+      ? claimQuery.eq("claim_id", ingestion.claim_id)
+      : claimQuery.is("claim_id", null);
+
+    const { data: claimed, error: claimError } = await claimQuery.select("id");
 
-    // Download CSV from storage
+    if (claimError) {
+      throw new Error(`Failed to claim ingestion: ${claimError.message}`);
+    }
+
+    if (!claimed?.length) {
+      return alreadyClaimed(ingestion_id);
+    }
+
+    if (checkpoint) {
+      // Drop rows from a chunk that was cut off before its checkpoint
+      await supabase
+        .from("raw_lead_rows")
+        .delete()
+        .eq("ingestion_id", ingestion_id)
+        .gt("row_number", checkpoint.last_row_number);
+    } else {
+      await supabase.from("raw_lead_rows").delete().eq("ingestion_id", ingestion_id);
+    }
+
+    // Download file from storage
     const { data: fileData, error: downloadError } = await supabase.storage
       .from("lead-files")
       .download(ingestion.file_url);
 
     if (downloadError || !fileData) {
-      await updateIngestionError(supabase, ingestion_id, "Failed to download file", ingestion);
+      await updateIngestionError(supabase, ingestion_id, "Failed to download file", {
+        ...ingestion,
+        processing_log: log,
+      });
       return errorResponse("Failed to download file", 500);
     }
 
-    const csvContent = await fileData.text();
-
     // Get CSV config from lead source
     const leadSource = ingestion.lead_sources as LeadSource | null;
     const csvConfig = leadSource?.csv_config || {
@@ -71,97 +162,204 @@ serve(async (req: Request) => {
       skip_rows: 0,
     };
 
-    // Parse CSV
-    let rows: Record<string, string>[];
-    try {
-      const lines = csvContent.split("\n");
-
-      // Skip initial rows if configured
-      const dataLines = lines.slice(csvConfig.skip_rows || 0);
-      const cleanedCsv = dataLines.join("\n");
+    const format = detectFileFormat(ingestion.file_name || ingestion.file_url);
 
-      const parsed = parse(cleanedCsv, {
-        skipFirstRow: csvConfig.has_header,
-        separator: csvConfig.delimiter || ",",
+    if (!format) {
+      await updateIngestionError(supabase, ingestion_id, "Unsupported file type", {
+        ...ingestion,
+        processing_log: log,
       });
-
-      rows = parsed as Record<string, string>[];
-    } catch (parseError) {
-      await updateIngestionError(
-        supabase,
-        ingestion_id,
-        `CSV parse error: ${parseError}`,
-        ingestion
-      );
-      return errorResponse("Failed to parse CSV", 500);
+      return errorResponse("Unsupported file type", 422);
     }
 
-    // Update total rows
-    await supabase
-      .from("raw_ingestions")
-      .update({ total_rows: rows.length })
-      .eq("id", ingestion_id);
+    if (csvConfig.timezone && !isValidTimezone(csvConfig.timezone)) {
+      const message = `Invalid timezone in csv_config: ${csvConfig.timezone}`;
+      await updateIngestionError(supabase, ingestion_id, message, {
+        ...ingestion,
+        processing_log: log,
+      });
+      return errorResponse(message, 422);
+    }
 
-    // Get field mapping and validation rules
+    // Get field mapping and compile validation rules
     const fieldMapping = leadSource?.field_mapping || getDefaultFieldMapping();
-    const validationRules = leadSource?.validation_rules || { required_fields: ["email"] };
 
-    // Process each row
-    const rawRows = [];
-    let validCount = 0;
-    let errorCount = 0;
+    let validateRow: ReturnType<typeof createValidator>;
+    try {
+      validateRow = createValidator(leadSource?.validation_rules, fieldMapping, csvConfig);
+    } catch (ruleError) {
+      const message = `Invalid validation_rules: ${ruleError instanceof Error ? ruleError.message : ruleError}`;
+      await updateIngestionError(supabase, ingestion_id, message, {
+        ...ingestion,
+        processing_log: log,
+      });
+      return errorResponse(message, 422);
+    }
 
-    for (let i = 0; i < rows.length; i++) {
-      const row = rows[i];
-      const rowNumber = i + 1 + (csvConfig.skip_rows || 0);
+    // Rough total for the upload page until total_rows is known
+    if (!checkpoint) {
+      await supabase
+        .from("raw_ingestions")
+        .update({ estimated_rows: await estimateRowCount(fileData, format, csvConfig) })
+        .eq("id", ingestion_id)
+        .eq("claim_id", claimId);
+    }
 
-      // Validate row
-      const { isValid, errors } = validateRow(row, fieldMapping, validationRules);
+    // Counters carry over from the last checkpoint
+    const progress: ParseCheckpoint = checkpoint
+      ? { warnings: 0, ...checkpoint }
+      : { chunk: 0, last_row_number: 0, rows: 0, valid: 0, errors: 0, warnings: 0 };
+
+    let batch: {
+      ingestion_id: string;
+      row_number: number;
+      raw_data: Record<string, string>;
+      is_valid: boolean;
+      has_warnings: boolean;
+      validation_errors: ValidationIssue[];
+    }[] = [];
+
+    // Insert the pending rows, then checkpoint them. Returns false when another
+    // invocation has taken the claim over (e.g. after this one looked stalled).
+    const flush = async (): Promise<boolean> => {
+      // A superseded invocation may already have written some of these rows
+      // after the stale ones were deleted; keep whichever landed first
+      const { error: insertError } = await supabase
+        .from("raw_lead_rows")
+        .upsert(batch, { onConflict: "ingestion_id,row_number", ignoreDuplicates: true });
 
-      if (isValid) {
-        validCount++;
-      } else {
-        errorCount++;
+      if (insertError) {
+        throw new Error(`Failed to insert rows: ${insertError.message}`);
       }
 
-      rawRows.push({
-        ingestion_id,
-        row_number: rowNumber,
-        raw_data: row,
-        is_valid: isValid,
-        validation_errors: errors,
+      progress.chunk++;
+      progress.last_row_number = batch[batch.length - 1].row_number;
+      batch = [];
+
+      log.push({
+        timestamp: new Date().toISOString(),
+        action: "chunk_parsed",
+        details: { ...progress },
       });
-    }
 
-    // Insert raw rows in batches
-    const batchSize = 500;
-    for (let i = 0; i < rawRows.length; i += batchSize) {
-      const batch = rawRows.slice(i, i + batchSize);
-      const { error: insertError } = await supabase.from("raw_lead_rows").insert(batch);
+      const { data: checkpointed, error: checkpointError } = await supabase
+        .from("raw_ingestions")
+        .update({
+          parsed_rows: progress.rows,
+          valid_rows: progress.valid,
+          error_rows: progress.errors,
+          warning_rows: progress.warnings,
+          processing_log: log,
+        })
+        .eq("id", ingestion_id)
+        .eq("claim_id", claimId)
+        .select("id");
+
+      if (checkpointError) {
+        throw new Error(`Failed to checkpoint rows: ${checkpointError.message}`);
+      }
+
+      return (checkpointed?.length ?? 0) > 0;
+    };
 
-      if (insertError) {
-        console.error("Failed to insert rows:", insertError);
+    // Parse CSV, TSV or the configured workbook sheet, one chunk at a time
+    let dataIndex = 0;
+    try {
+      for await (const { row } of iterateRows(fileData, format, csvConfig)) {
+        const rowNumber = ++dataIndex + (csvConfig.skip_rows || 0);
+
+        // Already inserted by an earlier invocation
+        if (rowNumber <= progress.last_row_number) continue;
+
+        // Validate row; warnings keep the row but flag it
+        const { isValid, hasWarnings, issues } = validateRow(row);
+
+        progress.rows++;
+        if (isValid) {
+          progress.valid++;
+        } else {
+          progress.errors++;
+        }
+        if (hasWarnings) {
+          progress.warnings++;
+        }
+
+        batch.push({
+          ingestion_id,
+          row_number: rowNumber,
+          raw_data: row,
+          is_valid: isValid,
+          has_warnings: hasWarnings,
+          validation_errors: issues,
+        });
+
+        if (batch.length >= CHUNK_SIZE) {
+          if (!(await flush())) return alreadyClaimed(ingestion_id);
+
+          if (Date.now() - startedAt > TIME_BUDGET_MS) {
+            continueParsing(ingestion_id, claimId);
+
+            return jsonResponse({
+              success: true,
+              ingestion_id,
+              status: "processing",
+              parsed_rows: progress.rows,
+              continued: true,
+            });
+          }
+        }
+      }
+
+      if (batch.length > 0 && !(await flush())) {
+        return alreadyClaimed(ingestion_id);
       }
+    } catch (parseError) {
+      await updateIngestionError(
+        supabase,
+        ingestion_id,
+        `${format.toUpperCase()} parse error near row ${dataIndex}: ${parseError}`,
+        { ...ingestion, processing_log: log }
+      );
+      return errorResponse(`Failed to parse ${format.toUpperCase()}`, 500);
     }
 
-    // Update ingestion status
-    await supabase
+    // Update ingestion status and release the claim for lead-transformer
+    const { data: parsed, error: parsedError } = await supabase
       .from("raw_ingestions")
       .update({
         status: "parsed",
-        parsed_rows: rows.length,
-        valid_rows: validCount,
-        error_rows: errorCount,
+        claim_id: null,
+        total_rows: progress.rows,
+        parsed_rows: progress.rows,
+        valid_rows: progress.valid,
+        error_rows: progress.errors,
+        warning_rows: progress.warnings,
         processing_log: [
-          ...((ingestion as RawIngestion).processing_log || []),
+          ...log,
           {
             timestamp: new Date().toISOString(),
             action: "parsing_completed",
-            details: { total: rows.length, valid: validCount, errors: errorCount },
+            details: {
+              total: progress.rows,
+              valid: progress.valid,
+              errors: progress.errors,
+              warnings: progress.warnings,
+              chunks: progress.chunk,
+            },
           },
         ],
       })
-      .eq("id", ingestion_id);
+      .eq("id", ingestion_id)
+      .eq("claim_id", claimId)
+      .select("id");
+
+    if (parsedError) {
+      throw new Error(`Failed to complete parsing: ${parsedError.message}`);
+    }
+
+    if (!parsed?.length) {
+      return alreadyClaimed(ingestion_id);
+    }
 
     // Trigger transformation
     const transformUrl = `${Deno.env.get("SUPABASE_URL")}/functions/v1/lead-transformer`;
@@ -178,9 +376,10 @@ serve(async (req: Request) => {
     return jsonResponse({
       success: true,
       ingestion_id,
-      total_rows: rows.length,
-      valid_rows: validCount,
-      error_rows: errorCount,
+      total_rows: progress.rows,
+      valid_rows: progress.valid,
+      error_rows: progress.errors,
+      warning_rows: progress.warnings,
     });
   } catch (error) {
     console.error("CSV parser error:", error);
@@ -192,68 +391,77 @@ serve(async (req: Request) => {
 });
 
 /**
- * Validate a row against field mapping and validation rules
+ * Most recent chunk checkpoint in a processing log, if any
  */
-function validateRow(
-  row: Record<string, string>,
-  fieldMapping: Record<string, string[]>,
-  validationRules: { required_fields: string[]; email_regex?: string }
-): { isValid: boolean; errors: string[] } {
-  const errors: string[] = [];
-
-  // Check required fields
-  for (const requiredField of validationRules.required_fields) {
-    const possibleColumns = fieldMapping[requiredField] || [requiredField];
-    const hasValue = possibleColumns.some((col) => {
-      const value = row[col];
-      return value && value.trim() !== "";
-    });
+function getLastCheckpoint(log: unknown[]): ParseCheckpoint | null {
+  for (let i = log.length - 1; i >= 0; i--) {
+    const entry = log[i] as { action?: string; details?: ParseCheckpoint };
 
-    if (!hasValue) {
-      errors.push(`Missing required field: ${requiredField}`);
-    }
+    // A fresh start (or a requested re-parse) discards checkpoints from before it
+    if (entry.action === "parsing_started" || entry.action === "reparse_requested") return null;
+    if (entry.action === "chunk_parsed" && entry.details) return entry.details;
   }
 
-  // Validate email format if present
-  const emailColumns = fieldMapping["email"] || ["email"];
-  for (const col of emailColumns) {
-    const email = row[col];
-    if (email && email.trim() !== "") {
-      const emailRegex = validationRules.email_regex
-        ? new RegExp(validationRules.email_regex)
-        : /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
-
-      if (!emailRegex.test(email)) {
-        errors.push(`Invalid email format: ${email}`);
-      }
-      break; // Only validate first email found
-    }
-  }
+  return null;
+}
+
+/**
+ * Response for an ingestion that another invocation is parsing
+ */
+function alreadyClaimed(ingestionId: string): Response {
+  return jsonResponse({
+    success: true,
+    ingestion_id: ingestionId,
+    message: "Ingestion already being parsed",
+  });
+}
 
-  return {
-    isValid: errors.length === 0,
-    errors,
-  };
+/**
+ * Pick up parsing in a new invocation, passing on the claim
+ */
+function continueParsing(ingestionId: string, claimId: string | null) {
+  const parseUrl = `${Deno.env.get("SUPABASE_URL")}/functions/v1/csv-parser`;
+
+  fetch(parseUrl, {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/json",
+      Authorization: `Bearer ${Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")}`,
+    },
+    body: JSON.stringify({ ingestion_id: ingestionId, claim_id: claimId }),
+  }).catch((err) => console.error("Failed to continue csv-parser:", err));
 }
 
 /**
- * Get default field mapping
+ * Re-trigger ingestions stuck in processing whose last log entry is older
+ * than STALLED_AFTER_MS. Parsing resumes from their last checkpoint under a
+ * new claim, which stops the old invocation at its next checkpoint if it
+ * was only slow.
  */
-function getDefaultFieldMapping(): Record<string, string[]> {
-  return {
-    email: ["email", "Email", "EMAIL", "Consumer Email", "E-mail"],
-    phone: ["phone", "Phone", "PHONE", "Consumer Phone", "Phone Number"],
-    first_name: ["first_name", "First Name", "FirstName", "First"],
-    last_name: ["last_name", "Last Name", "LastName", "Last"],
-    full_name: ["name", "Name", "Full Name", "Consumer Name"],
-    address: ["property_address", "Address", "Property Address", "Street Address"],
-    city: ["city", "City", "Property City"],
-    state: ["state", "State", "Property State"],
-    zip: ["zip", "Zip", "ZIP", "Postal Code", "Zip Code"],
-    lead_type: ["lead_type", "Type", "Inquiry Type", "Lead Type"],
-    source_lead_id: ["id", "Lead ID", "lead_id", "ID"],
-    source_created_at: ["created", "Created Date", "Date", "Inquiry Date", "Created At"],
-  };
+async function resumeStalledIngestions(
+  supabase: ReturnType<typeof createServiceClient>
+): Promise<string[]> {
+  const { data: processing } = await supabase
+    .from("raw_ingestions")
+    .select("id, claim_id, processing_log, started_at")
+    .eq("status", "processing")
+    .limit(50);
+
+  const resumed: string[] = [];
+
+  for (const ingestion of processing || []) {
+    const log = (ingestion.processing_log || []) as { timestamp?: string }[];
+    const lastActivity = log[log.length - 1]?.timestamp || ingestion.started_at;
+
+    if (lastActivity && Date.now() - new Date(lastActivity).getTime() < STALLED_AFTER_MS) {
+      continue;
+    }
+
+    continueParsing(ingestion.id, ingestion.claim_id);
+    resumed.push(ingestion.id);
+  }
+
+  return resumed;
 }
 
 /**
@@ -1,13 +1,30 @@
 /**
  * Email Ingest Edge Function
  *
- * Receives emails with CSV attachments from SendGrid Inbound Parse or Postmark.
- * Extracts CSV files and queues them for processing.
+ * Receives emails with lead file attachments (CSV, TSV or Excel) from SendGrid
+ * Inbound Parse or Postmark. Extracts the files and queues them for processing.
+ * Emails without a file are read as a single-lead notification using the
+ * source's email_body_config.
+ *
+ * Requests must be signed with EMAIL_INGEST_SECRET (see verifyTimestampedSignature):
+ *   X-Ingest-Timestamp: <unix seconds>
+ *   X-Ingest-Signature: sha256=<hex HMAC of "<timestamp>.<raw body>">
+ *
+ * Mail is routed by recipient, <org-slug>+<source>@<ingest domain>, and only
+ * accepted from senders on the organization's allow-list. Anything else is
+ * quarantined and reported as a data_quality insight instead of ingested.
  */
 
 import { serve } from "https://deno.land/std@0.208.0/http/server.ts";
+import { decodeBase64, encodeBase64 } from "https://deno.land/std@0.208.0/encoding/base64.ts";
 import { corsHeaders, handleCors, jsonResponse, errorResponse } from "../_shared/cors.ts";
-import { createServiceClient } from "../_shared/supabase.ts";
+import { createServiceClient, LeadSource, SupabaseClient } from "../_shared/supabase.ts";
+import { CONTENT_TYPES, detectFileFormat, FileFormat } from "../_shared/file-formats.ts";
+import { verifyTimestampedSignature } from "../_shared/signatures.ts";
+import { EmailBodyLead, extractLeadFromEmail } from "../_shared/email-body.ts";
+import { getIngestionFieldMapping } from "../_shared/field-mapping.ts";
+import { createValidator } from "../_shared/validation.ts";
+import { isValidTimezone, parseDate } from "../_shared/dates.ts";
 
 interface SendGridInboundEmail {
   headers: string;
@@ -25,9 +42,17 @@ interface SendGridInboundEmail {
   charsets: string;
 }
 
+interface IngestRoute {
+  organizationId: string;
+  leadSource: LeadSource;
+}
+
+type QuarantineReason = "unroutable" | "sender_not_allowed" | "sender_not_verified";
+
 interface Attachment {
   filename: string;
   type: string;
+  format: FileFormat;
   content: string; // base64 encoded
 }
 
@@ -37,87 +62,96 @@ serve(async (req: Request) => {
   if (corsResponse) return corsResponse;
 
   try {
+    const secret = Deno.env.get("EMAIL_INGEST_SECRET");
+    if (!secret) {
+      console.error("EMAIL_INGEST_SECRET is not set; rejecting inbound email");
+      return errorResponse("Email ingest is not configured", 503);
+    }
+
+    // Verify against the raw body before trusting any of it
+    const rawBody = new Uint8Array(await req.arrayBuffer());
+    const isSigned = await verifyTimestampedSignature(
+      secret,
+      rawBody,
+      req.headers.get("x-ingest-timestamp"),
+      req.headers.get("x-ingest-signature")
+    );
+
+    if (!isSigned) {
+      console.warn("Rejected inbound email with a missing or invalid signature");
+      return errorResponse("Invalid signature", 401);
+    }
+
     const supabase = createServiceClient();
 
     // Parse form data from SendGrid
-    const formData = await req.formData();
+    const formData = await new Response(rawBody, {
+      headers: { "Content-Type": req.headers.get("Content-Type") || "" },
+    }).formData();
 
     // Extract email fields
-    const to = formData.get("to") as string;
-    const from = formData.get("from") as string;
-    const subject = formData.get("subject") as string;
-    const text = formData.get("text") as string;
+    const to = (formData.get("to") as string) || "";
+    const from = (formData.get("from") as string) || "";
+    const subject = (formData.get("subject") as string) || "";
+    const email = { from, to, subject };
 
     console.log(`Received email from: ${from}, to: ${to}, subject: ${subject}`);
 
-    // Determine lead source from recipient email
-    const { data: leadSource, error: sourceError } = await supabase
-      .from("lead_sources")
-      .select("*")
-      .or(`ingest_email.ilike.%${extractEmailAddress(to)}%`)
-      .single();
+    const attachments = await extractAttachments(formData);
+
+    // Route to an organization and lead source by recipient address
+    const route = await resolveRoute(supabase, getRecipients(formData));
 
-    if (sourceError || !leadSource) {
-      console.warn(`Unknown recipient email: ${to}`);
-      // Still process, but mark as generic
+    if (!route) {
+      console.warn(`Unroutable email to: ${to}`);
+      const quarantineId = await quarantineEmail(supabase, "unroutable", email, attachments);
+      return jsonResponse({ success: true, quarantined: true, quarantine_id: quarantineId });
     }
 
-    // Extract organization from sender domain or lookup
-    let organizationId: string | null = null;
+    const { organizationId, leadSource } = route;
 
-    // Try to find org by sender domain (simplified - in production would be more sophisticated)
-    const senderDomain = extractDomain(from);
-    const { data: org } = await supabase
-      .from("organizations")
-      .select("id")
-      .ilike("settings->email_domains", `%${senderDomain}%`)
-      .single();
+    // Only accept mail from the organization's allowed senders, and only when
+    // the provider didn't report the sender's domain as failing authentication
+    const sender = extractEmailAddress(from).toLowerCase();
+    const senderAllowed = await isSenderAllowed(supabase, organizationId, leadSource.id, sender);
+    const senderVerified = isSenderAuthenticated(formData, extractDomain(sender));
 
-    if (org) {
-      organizationId = org.id;
+    if (!senderAllowed || !senderVerified) {
+      const reason = senderAllowed ? "sender_not_verified" : "sender_not_allowed";
+      console.warn(`Quarantined email from ${sender} to ${to}: ${reason}`);
+      const quarantineId = await quarantineEmail(supabase, reason, email, attachments, route);
+      return jsonResponse({ success: true, quarantined: true, quarantine_id: quarantineId });
     }
 
-    // Process attachments
-    const attachmentInfo = formData.get("attachment-info");
-    const attachments: Attachment[] = [];
-
-    if (attachmentInfo) {
-      const info = JSON.parse(attachmentInfo as string);
-
-      for (const [key, meta] of Object.entries(info) as [string, { filename: string; type: string }][]) {
-        const file = formData.get(key) as File;
-        if (file && (meta.filename.endsWith(".csv") || meta.type === "text/csv")) {
-          const content = await file.text();
-          attachments.push({
-            filename: meta.filename,
-            type: meta.type,
-            content: btoa(content), // base64 encode
-          });
-        }
-      }
-    }
-
-    // Also check for direct file attachments
-    for (const [key, value] of formData.entries()) {
-      if (value instanceof File && (value.name.endsWith(".csv") || value.type === "text/csv")) {
-        const content = await value.text();
-        attachments.push({
-          filename: value.name,
-          type: value.type,
-          content: btoa(content),
+    if (attachments.length === 0) {
+      // Notification emails carry a single lead in the body instead
+      const lead = await extractLeadFromEmail(
+        {
+          subject,
+          text: formData.get("text") as string | null,
+          html: formData.get("html") as string | null,
+        },
+        leadSource.email_body_config
+      );
+
+      if (!lead) {
+        console.log("No lead file attachments or lead details found");
+        return jsonResponse({
+          success: true,
+          message: "Email received but no lead file or lead details found",
         });
       }
-    }
 
-    if (attachments.length === 0) {
-      console.log("No CSV attachments found");
+      const ingestionId = await ingestBodyLead(supabase, route, email, lead);
+
       return jsonResponse({
         success: true,
-        message: "Email received but no CSV attachments found",
+        message: ingestionId ? `Extracted lead from email body (${lead.method})` : "Duplicate email",
+        ingestion_ids: ingestionId ? [ingestionId] : [],
       });
     }
 
-    // Create ingestion records for each CSV
+    // Create ingestion records for each file
     const ingestions = [];
 
     for (const attachment of attachments) {
@@ -138,12 +172,12 @@ serve(async (req: Request) => {
 
       // Store file in Supabase Storage
       const storagePath = `ingestions/${Date.now()}_${attachment.filename}`;
-      const fileContent = Uint8Array.from(atob(attachment.content), (c) => c.charCodeAt(0));
+      const fileContent = decodeBase64(attachment.content);
 
       const { error: uploadError } = await supabase.storage
         .from("lead-files")
         .upload(storagePath, fileContent, {
-          contentType: "text/csv",
+          contentType: CONTENT_TYPES[attachment.format],
         });
 
       if (uploadError) {
@@ -154,7 +188,7 @@ serve(async (req: Request) => {
       const { data: ingestion, error: ingestionError } = await supabase
         .from("raw_ingestions")
         .insert({
-          lead_source_id: leadSource?.id || null,
+          lead_source_id: leadSource.id,
           organization_id: organizationId,
           ingest_type: "email",
           file_name: attachment.filename,
@@ -197,7 +231,7 @@ serve(async (req: Request) => {
 
     return jsonResponse({
       success: true,
-      message: `Processed ${ingestions.length} CSV attachment(s)`,
+      message: `Processed ${ingestions.length} attachment(s)`,
       ingestion_ids: ingestions.map((i) => i.id),
     });
   } catch (error) {
@@ -209,6 +243,365 @@ serve(async (req: Request) => {
   }
 });
 
+/**
+ * Lead file attachments, from SendGrid's attachment-info or plain file parts
+ */
+async function extractAttachments(formData: FormData): Promise<Attachment[]> {
+  const attachmentInfo = formData.get("attachment-info");
+  const attachments: Attachment[] = [];
+  const seen = new Set<string>();
+
+  if (attachmentInfo) {
+    const info = JSON.parse(attachmentInfo as string);
+
+    for (const [key, meta] of Object.entries(info) as [string, { filename: string; type: string }][]) {
+      const file = formData.get(key) as File;
+      const format = detectFileFormat(meta.filename, meta.type);
+      seen.add(key);
+      if (file && format) {
+        attachments.push({
+          filename: meta.filename,
+          type: meta.type,
+          format,
+          // Read bytes, not text, so workbooks survive the round trip
+          content: encodeBase64(new Uint8Array(await file.arrayBuffer())),
+        });
+      }
+    }
+  }
+
+  // Also check for direct file attachments
+  for (const [key, value] of formData.entries()) {
+    if (seen.has(key)) continue;
+
+    const format = value instanceof File ? detectFileFormat(value.name, value.type) : null;
+    if (value instanceof File && format) {
+      attachments.push({
+        filename: value.name,
+        type: value.type,
+        format,
+        content: encodeBase64(new Uint8Array(await value.arrayBuffer())),
+      });
+    }
+  }
+
+  return attachments;
+}
+
+/**
+ * Every recipient address: the SMTP envelope first, then To and Cc headers
+ */
+function getRecipients(formData: FormData): string[] {
+  const recipients: string[] = [];
+
+  try {
+    const envelope = JSON.parse((formData.get("envelope") as string) || "{}");
+    recipients.push(...((envelope.to as string[] | undefined) || []));
+  } catch {
+    // Malformed envelope; fall back to headers
+  }
+
+  for (const header of ["to", "cc"]) {
+    const value = (formData.get(header) as string) || "";
+    recipients.push(...(value.match(/[^\s<>,;"']+@[^\s<>,;"']+/g) || []));
+  }
+
+  return [...new Set(recipients.map((r) => r.toLowerCase()))];
+}
+
+/**
+ * Find the organization and lead source for <org-slug>+<source>@<domain>,
+ * where <source>@<domain> is the source's ingest_email
+ */
+async function resolveRoute(
+  supabase: SupabaseClient,
+  recipients: string[]
+): Promise<IngestRoute | null> {
+  for (const recipient of recipients) {
+    const match = recipient.match(/^([^+@]+)\+([^@]+)@(.+)$/);
+    if (!match) continue;
+
+    const [, orgSlug, sourceLocal, domain] = match;
+
+    const { data: org } = await supabase
+      .from("organizations")
+      .select("id")
+      .eq("slug", orgSlug)
+      .eq("status", "active")
+      .maybeSingle();
+
+    if (!org) continue;
+
+    const { data: leadSource } = await supabase
+      .from("lead_sources")
+      .select("*")
+      .eq("ingest_email", `${sourceLocal}@${domain}`)
+      .eq("is_active", true)
+      .maybeSingle();
+
+    if (leadSource) {
+      return { organizationId: org.id, leadSource: leadSource as LeadSource };
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Whether a sender is on the organization's allow-list for this source,
+ * by full address or by domain (@example.com)
+ */
+async function isSenderAllowed(
+  supabase: SupabaseClient,
+  organizationId: string,
+  leadSourceId: string,
+  sender: string
+): Promise<boolean> {
+  const { data: entries, error } = await supabase
+    .from("email_sender_allowlist")
+    .select("sender")
+    .eq("organization_id", organizationId)
+    .or(`lead_source_id.is.null,lead_source_id.eq.${leadSourceId}`);
+
+  if (error) {
+    console.error("Failed to load sender allow-list:", error);
+    return false;
+  }
+
+  const domain = extractDomain(sender);
+
+  return (entries || []).some(({ sender: allowed }) =>
+    allowed.startsWith("@") ? allowed.slice(1) === domain : allowed === sender
+  );
+}
+
+/**
+ * SendGrid reports DKIM and SPF results for the message. When it does, the
+ * From domain must pass one of them, so a spoofed allowed address is caught.
+ * Providers that don't report them rely on the allow-list and signature.
+ */
+function isSenderAuthenticated(formData: FormData, domain: string): boolean {
+  const dkim = formData.get("dkim") as string | null;
+  const spf = formData.get("SPF") as string | null;
+
+  if (!dkim && !spf) return true;
+
+  // e.g. "{@zillow.com : pass, @sendgrid.net : pass}"
+  const dkimPassed = (dkim || "")
+    .replace(/[{}]/g, "")
+    .split(",")
+    .some((result) => {
+      const [signer, status] = result.split(":").map((part) => part.trim().toLowerCase());
+      return signer === `@${domain}` && status === "pass";
+    });
+
+  return dkimPassed || spf?.trim().toLowerCase() === "pass";
+}
+
+/**
+ * Hold an email's attachments for review instead of ingesting them, and
+ * raise a data_quality insight so someone looks at it
+ */
+async function quarantineEmail(
+  supabase: SupabaseClient,
+  reason: QuarantineReason,
+  email: { from: string; to: string; subject: string },
+  attachments: Attachment[],
+  route?: IngestRoute
+): Promise<string | null> {
+  const stored = [];
+
+  for (const attachment of attachments) {
+    const fileUrl = `quarantine/${Date.now()}_${attachment.filename}`;
+    const { error: uploadError } = await supabase.storage
+      .from("lead-files")
+      .upload(fileUrl, decodeBase64(attachment.content), {
+        contentType: CONTENT_TYPES[attachment.format],
+      });
+
+    if (uploadError) {
+      console.error("Failed to store quarantined file:", uploadError);
+      continue;
+    }
+
+    stored.push({
+      filename: attachment.filename,
+      file_url: fileUrl,
+      file_hash: await computeHash(attachment.content),
+      size: decodeBase64(attachment.content).length,
+    });
+  }
+
+  const { data: quarantined, error } = await supabase
+    .from("email_quarantine")
+    .insert({
+      organization_id: route?.organizationId || null,
+      lead_source_id: route?.leadSource.id || null,
+      reason,
+      email_from: email.from,
+      email_to: email.to,
+      email_subject: email.subject,
+      attachments: stored,
+    })
+    .select("id")
+    .single();
+
+  if (error) {
+    console.error("Failed to quarantine email:", error);
+    return null;
+  }
+
+  const reasons: Record<QuarantineReason, string> = {
+    unroutable: "was not sent to a known ingest address",
+    sender_not_allowed: "came from a sender that is not on the allow-list",
+    sender_not_verified: "failed sender authentication (DKIM/SPF)",
+  };
+
+  const { error: insightError } = await supabase.from("ai_insights").insert({
+    organization_id: route?.organizationId || null,
+    insight_type: "data_quality",
+    scope_type: route ? "source" : null,
+    scope_id: route?.leadSource.id || null,
+    title: `Email from ${extractEmailAddress(email.from)} quarantined`,
+    summary:
+      `An email to ${email.to} ("${email.subject}") ${reasons[reason]}. ` +
+      `${stored.length} attachment(s) were held for review instead of being imported.`,
+    details: { quarantine_id: quarantined.id, reason, ...email, attachments: stored },
+    is_actionable: true,
+  });
+
+  if (insightError) {
+    console.error("Failed to record quarantine insight:", insightError);
+  }
+
+  return quarantined.id;
+}
+
+/**
+ * Turn a lead read from an email body into a one-row ingestion and hand it
+ * to lead-transformer, skipping csv-parser. Returns null for an email that
+ * was already ingested.
+ */
+async function ingestBodyLead(
+  supabase: SupabaseClient,
+  route: IngestRoute,
+  email: { from: string; to: string; subject: string },
+  lead: EmailBodyLead
+): Promise<string | null> {
+  const { organizationId, leadSource } = route;
+  const receivedAt = new Date().toISOString();
+  const sourceConfig: Partial<LeadSource["csv_config"]> = leadSource.csv_config || {};
+
+  // Date parsing throws on an invalid csv_config.timezone; drop it rather
+  // than fail the email (csv-parser rejects files for it instead)
+  const invalidTimezone = !!sourceConfig.timezone && !isValidTimezone(sourceConfig.timezone);
+  const csvConfig = invalidTimezone ? { ...sourceConfig, timezone: undefined } : sourceConfig;
+
+  // Notification dates are free-form; fall back to when the email arrived,
+  // including when the source's timezone can't be used
+  const rawData = { ...lead.fields };
+  if (
+    !rawData.source_created_at ||
+    invalidTimezone ||
+    !parseDate(rawData.source_created_at, { format: csvConfig.date_format, timezone: csvConfig.timezone })
+  ) {
+    rawData.source_created_at = receivedAt;
+  }
+
+  // The same notification delivered twice hashes the same
+  const bodyHash = await computeHash(
+    JSON.stringify({ from: extractEmailAddress(email.from), subject: email.subject, fields: lead.fields })
+  );
+
+  const { data: existing } = await supabase
+    .from("raw_ingestions")
+    .select("id")
+    .eq("file_hash", bodyHash)
+    .maybeSingle();
+
+  if (existing) {
+    console.log(`Duplicate lead email detected: ${email.subject}`);
+    return null;
+  }
+
+  const bodyExtraction = { method: lead.method, fields: Object.keys(lead.fields) };
+  const validateRow = createValidator(
+    leadSource.validation_rules,
+    getIngestionFieldMapping({ body_extraction: bodyExtraction }, leadSource),
+    csvConfig
+  );
+  const { isValid, hasWarnings, issues } = validateRow(rawData);
+
+  const { data: ingestion, error: ingestionError } = await supabase
+    .from("raw_ingestions")
+    .insert({
+      lead_source_id: leadSource.id,
+      organization_id: organizationId,
+      ingest_type: "email",
+      file_name: email.subject || "Lead notification",
+      file_hash: bodyHash,
+      email_from: email.from,
+      email_subject: email.subject,
+      email_received_at: receivedAt,
+      body_extraction: bodyExtraction,
+      // One row, validated here, so csv-parser is skipped
+      status: isValid ? "parsed" : "failed",
+      total_rows: 1,
+      parsed_rows: 1,
+      valid_rows: isValid ? 1 : 0,
+      error_rows: isValid ? 0 : 1,
+      warning_rows: hasWarnings ? 1 : 0,
+      errors: isValid ? [] : issues.map((issue) => issue.message),
+      processing_log: [
+        {
+          timestamp: receivedAt,
+          action: "email_received",
+          details: { from: email.from, to: email.to, subject: email.subject },
+        },
+        {
+          timestamp: new Date().toISOString(),
+          action: "body_parsed",
+          details: bodyExtraction,
+        },
+      ],
+    })
+    .select("id")
+    .single();
+
+  if (ingestionError || !ingestion) {
+    throw new Error(`Failed to create ingestion: ${ingestionError?.message}`);
+  }
+
+  const { error: rowError } = await supabase.from("raw_lead_rows").insert({
+    ingestion_id: ingestion.id,
+    row_number: 1,
+    raw_data: rawData,
+    is_valid: isValid,
+    has_warnings: hasWarnings,
+    validation_errors: issues,
+  });
+
+  if (rowError) {
+    throw new Error(`Failed to store lead row: ${rowError.message}`);
+  }
+
+  // Invalid rows wait for a fix in the ingestion detail view
+  if (isValid) {
+    const transformUrl = `${Deno.env.get("SUPABASE_URL")}/functions/v1/lead-transformer`;
+
+    fetch(transformUrl, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        Authorization: `Bearer ${Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")}`,
+      },
+      body: JSON.stringify({ ingestion_id: ingestion.id }),
+    }).catch((err) => console.error("Failed to trigger lead-transformer:", err));
+  }
+
+  return ingestion.id;
+}
+
 /**
  * Extract email address from a formatted email string
  * e.g., "John Doe <john@example.com>" -> "john@example.com"
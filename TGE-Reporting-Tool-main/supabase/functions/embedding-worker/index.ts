@@ -2,7 +2,8 @@
  * Embedding Worker Edge Function
  *
  * Processes the embedding queue, generating OpenAI embeddings for queued records.
- * Designed to be called on a cron schedule.
+ * Designed to be called on a cron schedule. Runs ai-matcher afterwards for
+ * unmatched leads that only now have an embedding.
  */
 
 import { serve } from "https://deno.land/std@0.208.0/http/server.ts";
@@ -30,6 +31,20 @@ serve(async (req: Request) => {
     // Process queue
     const result = await processEmbeddingQueue(supabase, batchSize, maxAttempts);
 
+    // Unmatched leads embedded after lead-matcher ran haven't been AI matched yet
+    if (result.processed > 0) {
+      const aiMatchUrl = `${Deno.env.get("SUPABASE_URL")}/functions/v1/ai-matcher`;
+
+      fetch(aiMatchUrl, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          Authorization: `Bearer ${Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")}`,
+        },
+        body: JSON.stringify({}),
+      }).catch((err) => console.error("Failed to trigger ai-matcher:", err));
+    }
+
     // Get queue stats
     const { count: pendingCount } = await supabase
       .from("embedding_queue")
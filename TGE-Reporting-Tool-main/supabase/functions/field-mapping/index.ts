@@ -0,0 +1,176 @@
+/**
+ * Field Mapping Edge Function
+ *
+ * Previews the first rows of an uploaded file with a suggested column for
+ * each target field, and saves confirmed choices to lead_sources.field_mapping.
+ */
+
+import { serve } from "https://deno.land/std@0.208.0/http/server.ts";
+import { corsHeaders, handleCors, jsonResponse, errorResponse } from "../_shared/cors.ts";
+import {
+  createServiceClient,
+  createUserClient,
+  getUserFromHeader,
+  LeadSource,
+} from "../_shared/supabase.ts";
+import {
+  applyFieldSelections,
+  getDefaultFieldMapping,
+  suggestFieldMapping,
+  TARGET_FIELDS,
+} from "../_shared/field-mapping.ts";
+import { detectFileFormat, estimateRowCount, iterateRows } from "../_shared/file-formats.ts";
+import { getRequiredFields } from "../_shared/validation.ts";
+
+interface FieldMappingRequest {
+  action: "preview" | "save";
+  lead_source_id: string;
+  // preview: a browser upload (uploads/...) or an existing ingestion's file
+  file_path?: string;
+  ingestion_id?: string;
+  preview_rows?: number;
+  // save
+  headers?: string[];
+  selections?: Record<string, string | null>;
+}
+
+serve(async (req: Request) => {
+  // Handle CORS
+  const corsResponse = handleCors(req);
+  if (corsResponse) return corsResponse;
+
+  try {
+    const authHeader = req.headers.get("Authorization");
+    const userClient = createUserClient(authHeader);
+
+    const user = await getUserFromHeader(userClient, authHeader);
+    if (!user) {
+      return errorResponse("Unauthorized", 401);
+    }
+
+    const body = (await req.json()) as FieldMappingRequest;
+
+    if (!body.lead_source_id) {
+      return errorResponse("Missing lead_source_id", 400);
+    }
+
+    const supabase = createServiceClient();
+
+    const { data: leadSource, error: sourceError } = await supabase
+      .from("lead_sources")
+      .select("*")
+      .eq("id", body.lead_source_id)
+      .single();
+
+    if (sourceError || !leadSource) {
+      return errorResponse("Lead source not found", 404);
+    }
+
+    const source = leadSource as LeadSource;
+
+    if (body.action === "preview") {
+      let filePath = body.file_path;
+      let fileName: string | null = null;
+
+      if (body.ingestion_id) {
+        const { data: ingestion } = await supabase
+          .from("raw_ingestions")
+          .select("file_name, file_url")
+          .eq("id", body.ingestion_id)
+          .single();
+
+        filePath = ingestion?.file_url || undefined;
+        fileName = ingestion?.file_name || null;
+      } else if (filePath && !filePath.startsWith("uploads/")) {
+        // Only browser uploads can be previewed by path
+        return errorResponse("Invalid file_path", 400);
+      }
+
+      if (!filePath) {
+        return errorResponse("Missing file_path or ingestion_id", 400);
+      }
+
+      const { data: fileData, error: downloadError } = await supabase.storage
+        .from("lead-files")
+        .download(filePath);
+
+      if (downloadError || !fileData) {
+        return errorResponse("Failed to download file", 500);
+      }
+
+      const csvConfig = source.csv_config || { delimiter: ",", has_header: true, skip_rows: 0 };
+      const format = detectFileFormat(fileName || filePath);
+
+      if (!format) {
+        return errorResponse("Unsupported file type", 422);
+      }
+
+      const limit = Math.min(body.preview_rows || 10, 50);
+      let headers: string[] = [];
+      const rows: Record<string, string>[] = [];
+
+      // Only the preview rows are parsed, so large backfills open quickly
+      try {
+        for await (const record of iterateRows(fileData, format, csvConfig)) {
+          headers = record.headers;
+          rows.push(record.row);
+          if (rows.length >= limit) break;
+        }
+      } catch (parseError) {
+        return errorResponse(`${format.toUpperCase()} parse error: ${parseError}`, 422);
+      }
+
+      return jsonResponse({
+        success: true,
+        headers,
+        rows,
+        estimated_rows: await estimateRowCount(fileData, format, csvConfig),
+        target_fields: TARGET_FIELDS,
+        required_fields: getRequiredFields(source.validation_rules),
+        suggestions: suggestFieldMapping(headers, source.field_mapping),
+      });
+    }
+
+    if (body.action === "save") {
+      if (!body.headers || !body.selections) {
+        return errorResponse("Missing headers or selections", 400);
+      }
+
+      const headers = new Set(body.headers);
+
+      for (const [field, column] of Object.entries(body.selections)) {
+        if (!TARGET_FIELDS.includes(field)) {
+          return errorResponse(`Unknown target field: ${field}`, 400);
+        }
+        if (column && !headers.has(column)) {
+          return errorResponse(`Column "${column}" is not in the file`, 400);
+        }
+      }
+
+      const fieldMapping = applyFieldSelections(
+        source.field_mapping || getDefaultFieldMapping(),
+        body.headers,
+        body.selections
+      );
+
+      const { error: updateError } = await supabase
+        .from("lead_sources")
+        .update({ field_mapping: fieldMapping, updated_at: new Date().toISOString() })
+        .eq("id", source.id);
+
+      if (updateError) {
+        return errorResponse(`Failed to save field mapping: ${updateError.message}`, 500);
+      }
+
+      return jsonResponse({ success: true, field_mapping: fieldMapping });
+    }
+
+    return errorResponse("Invalid action", 400);
+  } catch (error) {
+    console.error("Field mapping error:", error);
+    return errorResponse(
+      error instanceof Error ? error.message : "Unknown error",
+      500
+    );
+  }
+});
@@ -0,0 +1,200 @@
+/**
+ * FUB Mappings Edge Function
+ *
+ * Lets admins settle the FUB users and groups that fub-sync couldn't map
+ * to an agent or team on its own (fub_mapping_reviews): resolving links
+ * the user or group to one of the review's candidates, dismissing leaves
+ * it unmapped for good. Attribution is backfilled after each resolution.
+ */
+
+import { serve } from "https://deno.land/std@0.208.0/http/server.ts";
+import { corsHeaders, handleCors, jsonResponse, errorResponse } from "../_shared/cors.ts";
+import { createServiceClient, createUserClient, getUserFromHeader } from "../_shared/supabase.ts";
+import { backfillAttribution, FubMappingCandidate } from "../_shared/fub-agents.ts";
+
+interface MappingRequest {
+  action: "resolve" | "dismiss";
+  review_id: string;
+  // resolve: the chosen candidate's agent or team ID
+  target_id?: string;
+}
+
+interface ReviewRow {
+  id: string;
+  organization_id: string;
+  fub_connection_id: string;
+  kind: "user" | "group";
+  fub_id: number;
+  fub_email: string | null;
+  fub_first_name: string | null;
+  fub_last_name: string | null;
+  candidates: FubMappingCandidate[];
+  status: string;
+}
+
+serve(async (req: Request) => {
+  // Handle CORS
+  const corsResponse = handleCors(req);
+  if (corsResponse) return corsResponse;
+
+  try {
+    const authHeader = req.headers.get("Authorization");
+    const userClient = createUserClient(authHeader);
+
+    const user = await getUserFromHeader(userClient, authHeader);
+    if (!user) {
+      return errorResponse("Unauthorized", 401);
+    }
+
+    if (user.role !== "admin") {
+      return errorResponse("Only admins can resolve FUB mappings", 403);
+    }
+
+    const body = (await req.json()) as MappingRequest;
+    const supabase = createServiceClient();
+
+    if (!body.review_id) {
+      return errorResponse("Missing review_id", 400);
+    }
+
+    const { data: review } = await supabase
+      .from("fub_mapping_reviews")
+      .select("*")
+      .eq("id", body.review_id)
+      .single();
+
+    if (!review) {
+      return errorResponse("Review not found", 404);
+    }
+
+    if (review.status !== "pending") {
+      return errorResponse(`Review is already ${review.status}`, 409);
+    }
+
+    if (body.action === "dismiss") {
+      await closeReview(supabase, review.id, "dismissed", user.id, null);
+
+      return jsonResponse({
+        success: true,
+        review_id: review.id,
+        status: "dismissed",
+      });
+    }
+
+    if (body.action === "resolve") {
+      const candidate = ((review as ReviewRow).candidates || []).find((c) => c.id === body.target_id);
+
+      if (!candidate) {
+        return errorResponse("target_id must be one of the review's candidates", 400);
+      }
+
+      const applied = await applyMapping(supabase, review as ReviewRow, candidate);
+      if (applied) {
+        return errorResponse(applied, 409);
+      }
+
+      await closeReview(supabase, review.id, "resolved", user.id, candidate.id);
+
+      const matchesAttributed = await backfillAttribution(supabase, review.organization_id);
+
+      return jsonResponse({
+        success: true,
+        review_id: review.id,
+        status: "resolved",
+        target: candidate,
+        matches_attributed: matchesAttributed,
+      });
+    }
+
+    return errorResponse(`Unknown action: ${body.action}`, 400);
+  } catch (error) {
+    console.error("FUB mappings error:", error);
+    return errorResponse(
+      error instanceof Error ? error.message : "Unknown error",
+      500
+    );
+  }
+});
+
+/**
+ * Link the user or group to the chosen agent or team. Returns an error
+ * message if the mapping can't be made.
+ */
+async function applyMapping(
+  supabase: ReturnType<typeof createServiceClient>,
+  review: ReviewRow,
+  candidate: FubMappingCandidate
+): Promise<string | null> {
+  if (review.kind === "group") {
+    const { error } = await supabase.from("team_fub_mappings").insert({
+      team_id: candidate.id,
+      fub_connection_id: review.fub_connection_id,
+      fub_team_id: review.fub_id,
+    });
+
+    return error ? `Team can't be mapped: ${error.message}` : null;
+  }
+
+  if (candidate.type === "agent") {
+    // A FUB user maps to one agent: unlink whoever had it in this organization
+    const { data: holders } = await supabase
+      .from("agents")
+      .select("id, teams!inner(organization_id)")
+      .eq("fub_user_id", review.fub_id)
+      .eq("teams.organization_id", review.organization_id)
+      .neq("id", candidate.id);
+
+    for (const holder of holders || []) {
+      await supabase.from("agents").update({ fub_user_id: null }).eq("id", holder.id);
+    }
+
+    const { error } = await supabase
+      .from("agents")
+      .update({ fub_user_id: review.fub_id, updated_at: new Date().toISOString() })
+      .eq("id", candidate.id);
+
+    return error ? `Agent can't be linked: ${error.message}` : null;
+  }
+
+  // A new user in several groups: create their agent in the chosen team
+  if (!review.fub_email) {
+    return "FUB user has no email to create an agent with";
+  }
+
+  const { error } = await supabase.from("agents").insert({
+    team_id: candidate.id,
+    email: review.fub_email,
+    first_name: review.fub_first_name,
+    last_name: review.fub_last_name,
+    fub_user_id: review.fub_id,
+    status: "active",
+    metadata: { created_by: "fub_sync" },
+  });
+
+  return error ? `Agent can't be created: ${error.message}` : null;
+}
+
+async function closeReview(
+  supabase: ReturnType<typeof createServiceClient>,
+  reviewId: string,
+  status: "resolved" | "dismissed",
+  userId: string,
+  targetId: string | null
+) {
+  const now = new Date().toISOString();
+
+  const { error } = await supabase
+    .from("fub_mapping_reviews")
+    .update({
+      status,
+      resolved_target_id: targetId,
+      resolved_by: userId,
+      resolved_at: now,
+      updated_at: now,
+    })
+    .eq("id", reviewId);
+
+  if (error) {
+    throw new Error(`Failed to update review: ${error.message}`);
+  }
+}
@@ -2,30 +2,70 @@
  * FUB Sync Edge Function
  *
  * Syncs leads from Follow Up Boss API to fub_leads table.
- * Supports full and incremental syncs.
+ * Supports full and incremental syncs. The position in FUB's people list is
+ * saved to fub_connections.sync_cursor after every page: a sync that runs
+ * out of time continues in a fresh invocation, and one that fails resumes
+ * from its cursor on the next run. Each page is written in one batch, and
+ * only people whose data changed are upserted. With sync_config.sync_deals,
+ * deals and pipeline stages are synced after the people, handing off the
+ * same way when time runs out. FUB users and
+ * groups are reconciled into agents and teams at the start of each sync.
+ * Called with { webhook_event_id } by fub-webhook, it instead fetches the
+ * people named in that recorded webhook event.
  */
 
 import { serve } from "https://deno.land/std@0.208.0/http/server.ts";
 import { corsHeaders, handleCors, jsonResponse, errorResponse } from "../_shared/cors.ts";
 import { createServiceClient } from "../_shared/supabase.ts";
-import { FubClient, transformFubPerson } from "../_shared/fub-client.ts";
-import { queueForEmbedding } from "../_shared/embeddings.ts";
+import { FubClient, FubPeopleCursor } from "../_shared/fub-client.ts";
+import { upsertFubPeople } from "../_shared/fub-leads.ts";
+import { syncFubDeals } from "../_shared/fub-deals.ts";
+import { FubRosterResult, reconcileFubUsers } from "../_shared/fub-agents.ts";
+import { processFubWebhookEvent, registerFubWebhooks } from "../_shared/fub-webhooks.ts";
+import { queueRematchForFubLeads, triggerRematch } from "../_shared/matching.ts";
 
 interface SyncRequest {
   fub_connection_id?: string;
   organization_id?: string;
   sync_type?: "full" | "incremental";
+  // Continuation of a sync handed off by an earlier invocation
+  resume?: boolean;
+  // fub_webhook_events.id recorded by fub-webhook
+  webhook_event_id?: string;
 }
 
+/** An unfinished sync, saved to fub_connections.sync_cursor after each page */
+interface SyncCursor extends FubPeopleCursor {
+  sync_type: "full" | "incremental";
+  started_at: string;
+  updated_after: string | null;
+  updated_at: string;
+  // Set once the people are done and the deals are being read
+  deals?: FubPeopleCursor;
+}
+
+const PAGE_SIZE = 100;
+// Hand off to a fresh invocation well before the wall-clock limit
+const TIME_BUDGET_MS = 100_000;
+// A running sync whose cursor hasn't moved for this long has died
+const STALLED_AFTER_MS = 10 * 60 * 1000;
+
 serve(async (req: Request) => {
   // Handle CORS
   const corsResponse = handleCors(req);
   if (corsResponse) return corsResponse;
 
+  const invocationStartedAt = Date.now();
+
   try {
     const body = (await req.json()) as SyncRequest;
     const supabase = createServiceClient();
 
+    if (body.webhook_event_id) {
+      const result = await processFubWebhookEvent(supabase, body.webhook_event_id);
+      return jsonResponse({ success: true, webhook_event_id: body.webhook_event_id, ...result });
+    }
+
     // Get FUB connections to sync
     let connectionsQuery = supabase
       .from("fub_connections")
@@ -50,158 +90,286 @@ serve(async (req: Request) => {
     const syncResults = [];
 
     for (const connection of connections) {
+      // Out of time: remaining connections sync in their own invocations
+      if (Date.now() - invocationStartedAt > TIME_BUDGET_MS) {
+        continueSync(connection.id, { sync_type: body.sync_type });
+        syncResults.push({ connection_id: connection.id, success: true, continued: true });
+        continue;
+      }
+
+      let cursor = connection.sync_cursor as SyncCursor | null;
+
+      // Another invocation is still working through this connection
+      if (
+        cursor &&
+        !body.resume &&
+        ["running", "paused"].includes(connection.last_sync_status) &&
+        Date.now() - new Date(cursor.updated_at).getTime() < STALLED_AFTER_MS
+      ) {
+        syncResults.push({ connection_id: connection.id, success: true, in_progress: true });
+        continue;
+      }
+
+      // Asking for a different kind of sync starts over
+      if (cursor && body.sync_type && body.sync_type !== cursor.sync_type) {
+        cursor = null;
+      }
+
+      const resumed = !!cursor;
+
+      if (!cursor) {
+        const isIncremental = body.sync_type !== "full" && connection.last_sync_at;
+        const now = new Date().toISOString();
+
+        cursor = {
+          sync_type: isIncremental ? "incremental" : "full",
+          started_at: now,
+          updated_after: isIncremental ? connection.last_sync_at : null,
+          offset: 0,
+          next: null,
+          updated_at: now,
+        };
+      }
+
       const syncLogId = crypto.randomUUID();
+      const logStartedAt = new Date();
 
       // Create sync log entry
       await supabase.from("fub_sync_log").insert({
         id: syncLogId,
         fub_connection_id: connection.id,
-        sync_type: body.sync_type || "incremental",
+        sync_type: cursor.sync_type,
         status: "running",
-        started_at: new Date().toISOString(),
+        started_at: logStartedAt.toISOString(),
+        cursor,
       });
 
+      await supabase
+        .from("fub_connections")
+        .update({
+          sync_cursor: cursor,
+          last_sync_status: "running",
+        })
+        .eq("id", connection.id);
+
       try {
         // Decrypt API key (in production, use proper encryption)
         // For now, assuming it's stored as-is or using Supabase Vault
         const apiKey = connection.api_key_encrypted;
+        const syncConfig = connection.sync_config || {};
 
-        const fubClient = new FubClient({ apiKey });
-
-        // Verify connection
-        const { valid } = await fubClient.verifyConnection();
-        if (!valid) {
-          throw new Error("Invalid FUB API key");
-        }
+        // A request still failing at the time budget fails the sync, which
+        // the next run resumes from sync_cursor
+        const fubClient = new FubClient({
+          apiKey,
+          requestsPerMinute: syncConfig.requests_per_minute,
+          deadline: invocationStartedAt + TIME_BUDGET_MS,
+        });
 
-        // Get users for assignment mapping
+        // Get users for assignment mapping (fails on an invalid API key)
         const users = await fubClient.getUsers();
         const usersMap = new Map(users.map((u) => [u.id, u]));
 
-        // Determine sync parameters
-        const syncConfig = connection.sync_config || {};
-        const isIncremental = body.sync_type !== "full" && connection.last_sync_at;
-
-        const syncParams: { updatedAfter?: string; batchSize?: number } = {
-          batchSize: 100,
-        };
-
-        if (isIncremental && connection.last_sync_at) {
-          syncParams.updatedAfter = connection.last_sync_at;
+        // Subscribe new connections to webhooks so changes arrive between polls
+        if (!connection.webhooks_registered_at && Deno.env.get("FUB_SYSTEM_KEY")) {
+          try {
+            await registerFubWebhooks(supabase, connection);
+          } catch (err) {
+            console.error(`Failed to register FUB webhooks for ${connection.id}:`, err);
+          }
         }
 
         let leadsCreated = 0;
         let leadsUpdated = 0;
         let leadsFetched = 0;
+        let matchesReattributed = 0;
+        let handedOff = false;
+        let writeFailed = false;
         const errors: string[] = [];
+        const changedFubLeadIds: string[] = [];
+
+        // Keep agents and teams in line with FUB users and groups, once per
+        // sync rather than in every continuation
+        let roster: FubRosterResult | null = null;
+
+        if (!body.resume) {
+          try {
+            const groups = await fubClient.getGroups();
+            roster = await reconcileFubUsers(supabase, connection, users, groups);
+          } catch (err) {
+            errors.push(`Agent provisioning failed: ${err instanceof Error ? err.message : err}`);
+          }
+        }
 
-        // Iterate through FUB people
-        for await (const batch of fubClient.iteratePeople(syncParams)) {
+        // Iterate through FUB people, oldest first so new people land on later
+        // pages. A sync handed off while reading deals has no people left.
+        const pages = cursor.deals
+          ? []
+          : fubClient.iteratePeople({
+              batchSize: PAGE_SIZE,
+              updatedAfter: cursor.updated_after || undefined,
+              sort: cursor.sync_type === "full" ? "created" : "updated",
+              cursor: { offset: cursor.offset, next: cursor.next },
+            });
+
+        for await (const { people: batch, cursor: nextPage } of pages) {
           leadsFetched += batch.length;
 
-          for (const person of batch) {
-            try {
-              const leadData = transformFubPerson(
-                person,
-                connection.id,
-                connection.organization_id,
-                usersMap
-              );
-
-              // Check if lead exists
-              const { data: existing } = await supabase
-                .from("fub_leads")
-                .select("id, sync_hash")
-                .eq("fub_connection_id", connection.id)
-                .eq("fub_lead_id", person.id)
-                .single();
-
-              if (existing) {
-                // Update if changed
-                if (existing.sync_hash !== leadData.sync_hash) {
-                  const { error: updateError } = await supabase
-                    .from("fub_leads")
-                    .update({
-                      ...leadData,
-                      last_synced_at: new Date().toISOString(),
-                    })
-                    .eq("id", existing.id);
-
-                  if (updateError) {
-                    errors.push(`Update failed for FUB lead ${person.id}: ${updateError.message}`);
-                  } else {
-                    leadsUpdated++;
-
-                    // Queue for re-embedding if data changed
-                    const embeddingText = generateFubEmbeddingText(leadData);
-                    await queueForEmbedding(supabase, "fub_leads", existing.id, embeddingText);
-                  }
-                }
-              } else {
-                // Create new lead
-                const { data: newLead, error: insertError } = await supabase
-                  .from("fub_leads")
-                  .insert(leadData)
-                  .select("id")
-                  .single();
-
-                if (insertError) {
-                  errors.push(`Insert failed for FUB lead ${person.id}: ${insertError.message}`);
-                } else {
-                  leadsCreated++;
-
-                  // Queue for embedding
-                  const embeddingText = generateFubEmbeddingText(leadData);
-                  await queueForEmbedding(supabase, "fub_leads", newLead.id, embeddingText);
-                }
-              }
-            } catch (err) {
-              errors.push(`Error processing FUB lead ${person.id}: ${err}`);
+          try {
+            const written = await upsertFubPeople(supabase, connection, batch, usersMap);
+
+            leadsCreated += written.created;
+            leadsUpdated += written.updated;
+            matchesReattributed += written.reattributed;
+            changedFubLeadIds.push(...written.changedIds);
+            errors.push(...written.errors);
+          } catch (err) {
+            // Stop without moving the cursor, so the next run retries this page
+            errors.push(`Error writing FUB people at offset ${cursor.offset}: ${err instanceof Error ? err.message : err}`);
+            writeFailed = true;
+            break;
+          }
+
+          if (!nextPage) break;
+
+          // The page is done: a failure from here on resumes after it
+          cursor = { ...cursor, ...nextPage, updated_at: new Date().toISOString() };
+
+          await supabase
+            .from("fub_connections")
+            .update({ sync_cursor: cursor })
+            .eq("id", connection.id);
+
+          if (Date.now() - invocationStartedAt > TIME_BUDGET_MS) {
+            handedOff = true;
+            break;
+          }
+        }
+
+        // Deals are synced once the people are done, so they can be linked
+        let dealsFetched = 0;
+        let dealsUpdated = 0;
+
+        if (!handedOff && !writeFailed && syncConfig.sync_deals) {
+          try {
+            const deals = await syncFubDeals(supabase, fubClient, connection, {
+              cursor: cursor.deals,
+              deadline: invocationStartedAt + TIME_BUDGET_MS,
+            });
+            dealsFetched = deals.fetched;
+            dealsUpdated = deals.changed;
+            errors.push(...deals.errors);
+
+            // Out of time, or a page failed: the remaining deals are read in
+            // a fresh invocation or on the next run
+            if (deals.cursor) {
+              cursor = { ...cursor, deals: deals.cursor, updated_at: new Date().toISOString() };
+
+              await supabase
+                .from("fub_connections")
+                .update({ sync_cursor: cursor })
+                .eq("id", connection.id);
+            }
+
+            if (deals.writeFailed) {
+              writeFailed = true;
+            } else if (deals.cursor) {
+              handedOff = true;
             }
+          } catch (err) {
+            errors.push(`Deal sync failed: ${err instanceof Error ? err.message : err}`);
+          }
+        }
+
+        // Source leads waiting for a match may now have one
+        let leadsRequeued = 0;
+
+        if (changedFubLeadIds.length > 0) {
+          try {
+            const sourceLeadIds = await queueRematchForFubLeads(supabase, changedFubLeadIds);
+            leadsRequeued = sourceLeadIds.length;
+            triggerRematch(sourceLeadIds);
+          } catch (err) {
+            errors.push(`Re-match failed: ${err instanceof Error ? err.message : err}`);
           }
         }
 
+        const unfinished = handedOff || writeFailed;
+        const status = writeFailed
+          ? "failed"
+          : handedOff
+            ? "paused"
+            : errors.length > 0
+              ? "completed_with_errors"
+              : "completed";
+
         // Update sync log
         await supabase
           .from("fub_sync_log")
           .update({
-            status: errors.length > 0 ? "completed_with_errors" : "completed",
+            status,
             leads_fetched: leadsFetched,
             leads_created: leadsCreated,
             leads_updated: leadsUpdated,
+            deals_fetched: dealsFetched,
+            deals_updated: dealsUpdated,
             completed_at: new Date().toISOString(),
-            duration_ms: Date.now() - new Date(connection.last_sync_at || Date.now()).getTime(),
+            duration_ms: Date.now() - logStartedAt.getTime(),
             errors: errors.length > 0 ? errors.slice(0, 100) : [], // Limit errors stored
+            cursor: unfinished ? cursor : null,
           })
           .eq("id", syncLogId);
 
-        // Update connection
+        // Update connection. A finished sync covers changes up to when it
+        // started; anything updated while it ran is picked up next time. An
+        // unfinished one keeps sync_cursor for the next invocation or run.
         await supabase
           .from("fub_connections")
-          .update({
-            last_sync_at: new Date().toISOString(),
-            last_sync_status: errors.length > 0 ? "completed_with_errors" : "completed",
-          })
+          .update(
+            unfinished
+              ? { last_sync_status: status }
+              : {
+                  last_sync_at: cursor.started_at,
+                  last_sync_status: status,
+                  sync_cursor: null,
+                }
+          )
           .eq("id", connection.id);
 
+        if (handedOff) {
+          continueSync(connection.id, { resume: true });
+        }
+
         syncResults.push({
           connection_id: connection.id,
           organization: (connection.organizations as { name: string })?.name,
-          success: true,
+          success: !writeFailed,
+          sync_type: cursor.sync_type,
+          resumed,
+          continued: handedOff,
           leads_fetched: leadsFetched,
           leads_created: leadsCreated,
           leads_updated: leadsUpdated,
+          leads_requeued: leadsRequeued,
+          matches_reattributed: matchesReattributed,
+          deals_fetched: dealsFetched,
+          deals_updated: dealsUpdated,
+          roster,
+          fub_requests: fubClient.requestsMade,
           errors: errors.length,
         });
       } catch (err) {
         const errorMessage = err instanceof Error ? err.message : "Unknown error";
 
+        // sync_cursor keeps the last finished page for the next run
         await supabase
           .from("fub_sync_log")
           .update({
             status: "failed",
             completed_at: new Date().toISOString(),
+            duration_ms: Date.now() - logStartedAt.getTime(),
             errors: [errorMessage],
+            cursor,
           })
           .eq("id", syncLogId);
 
@@ -234,22 +402,20 @@ serve(async (req: Request) => {
 });
 
 /**
- * Generate embedding text for a FUB lead
+ * Pick up a connection's sync in a new invocation
  */
-function generateFubEmbeddingText(lead: ReturnType<typeof transformFubPerson>): string {
-  const parts = [
-    "FUB Lead",
-    lead.first_name && lead.last_name ? `${lead.first_name} ${lead.last_name}` : "",
-    lead.email ? `email: ${lead.email}` : "",
-    lead.phone ? `phone: ${lead.phone}` : "",
-    lead.address ? `address: ${lead.address}` : "",
-    lead.city || "",
-    lead.state || "",
-    lead.zip || "",
-    lead.assigned_user_name ? `assigned to: ${lead.assigned_user_name}` : "",
-    lead.fub_source ? `source: ${lead.fub_source}` : "",
-    lead.fub_stage ? `stage: ${lead.fub_stage}` : "",
-  ];
-
-  return parts.filter((p) => p).join(", ");
+function continueSync(
+  connectionId: string,
+  options: { resume?: boolean; sync_type?: SyncRequest["sync_type"] }
+) {
+  const syncUrl = `${Deno.env.get("SUPABASE_URL")}/functions/v1/fub-sync`;
+
+  fetch(syncUrl, {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/json",
+      Authorization: `Bearer ${Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")}`,
+    },
+    body: JSON.stringify({ fub_connection_id: connectionId, ...options }),
+  }).catch((err) => console.error("Failed to continue fub-sync:", err));
 }
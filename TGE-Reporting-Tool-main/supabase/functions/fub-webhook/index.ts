@@ -0,0 +1,173 @@
+/**
+ * FUB Webhook Edge Function
+ *
+ * Receives Follow Up Boss people webhooks (created, updated, stage changes
+ * and reassignments) so the changed people reach fub_leads right away and
+ * attribution doesn't wait for the next fub-sync poll. Each event is
+ * recorded once by its eventId and acknowledged immediately; fub-sync
+ * fetches the people in the background. Redelivered or replayed events
+ * are acknowledged without being processed again.
+ *
+ * Deliveries are addressed to ?connection_id=<fub_connections.id> and
+ * signed with the FUB system key the connection registered with
+ * (webhook_signing_key). Admins can also POST
+ * { action: "register", fub_connection_id } to subscribe a connection.
+ */
+
+import { serve } from "https://deno.land/std@0.208.0/http/server.ts";
+import { corsHeaders, handleCors, jsonResponse, errorResponse } from "../_shared/cors.ts";
+import {
+  createServiceClient,
+  createUserClient,
+  getUserFromHeader,
+  SupabaseClient,
+} from "../_shared/supabase.ts";
+import {
+  FUB_WEBHOOK_EVENTS,
+  FubWebhookEvent,
+  registerFubWebhooks,
+  verifyFubSignature,
+} from "../_shared/fub-webhooks.ts";
+
+interface RegisterRequest {
+  action: "register";
+  fub_connection_id: string;
+}
+
+serve(async (req: Request) => {
+  // Handle CORS
+  const corsResponse = handleCors(req);
+  if (corsResponse) return corsResponse;
+
+  try {
+    const supabase = createServiceClient();
+    const signature = req.headers.get("FUB-Signature");
+
+    if (!signature) {
+      return await handleRegister(req, supabase);
+    }
+
+    const connectionId = new URL(req.url).searchParams.get("connection_id");
+    if (!connectionId) {
+      return errorResponse("Missing connection_id", 400);
+    }
+
+    const { data: connection } = await supabase
+      .from("fub_connections")
+      .select("id, webhook_signing_key, is_active")
+      .eq("id", connectionId)
+      .single();
+
+    if (!connection?.webhook_signing_key) {
+      return errorResponse("Unknown connection", 404);
+    }
+
+    // Verify against the exact bytes FUB signed
+    const rawBody = new Uint8Array(await req.arrayBuffer());
+    if (!(await verifyFubSignature(connection.webhook_signing_key, rawBody, signature))) {
+      return errorResponse("Invalid signature", 401);
+    }
+
+    const event = JSON.parse(new TextDecoder().decode(rawBody)) as FubWebhookEvent;
+
+    if (!connection.is_active || !FUB_WEBHOOK_EVENTS.includes(event.event)) {
+      return jsonResponse({ success: true, ignored: true });
+    }
+
+    if (!event.eventId) {
+      return errorResponse("Missing eventId", 400);
+    }
+
+    // A redelivered or replayed event is already recorded and isn't processed again
+    const { data: recorded, error: recordError } = await supabase
+      .from("fub_webhook_events")
+      .upsert(
+        {
+          fub_connection_id: connection.id,
+          event_id: event.eventId,
+          event: event.event,
+          resource_ids: event.resourceIds || [],
+          event_created_at: event.eventCreated || null,
+        },
+        { onConflict: "fub_connection_id,event_id", ignoreDuplicates: true }
+      )
+      .select("id");
+
+    if (recordError) {
+      throw new Error(`Failed to record webhook event: ${recordError.message}`);
+    }
+
+    if (!recorded?.length) {
+      return jsonResponse({ success: true, duplicate: true });
+    }
+
+    // Fetching the people can outlast FUB's delivery timeout, so answer first
+    const syncUrl = `${Deno.env.get("SUPABASE_URL")}/functions/v1/fub-sync`;
+
+    fetch(syncUrl, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        Authorization: `Bearer ${Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")}`,
+      },
+      body: JSON.stringify({ webhook_event_id: recorded[0].id }),
+    }).catch((err) => console.error("Failed to trigger fub-sync:", err));
+
+    return jsonResponse({
+      success: true,
+      event: event.event,
+      queued: true,
+    });
+  } catch (error) {
+    console.error("FUB webhook error:", error);
+    return errorResponse(
+      error instanceof Error ? error.message : "Unknown error",
+      500
+    );
+  }
+});
+
+/**
+ * Subscribe a connection to FUB's people events (admins only)
+ */
+async function handleRegister(req: Request, supabase: SupabaseClient): Promise<Response> {
+  const authHeader = req.headers.get("Authorization");
+  const userClient = createUserClient(authHeader);
+
+  const user = await getUserFromHeader(userClient, authHeader);
+  if (!user) {
+    return errorResponse("Unauthorized", 401);
+  }
+
+  if (user.role !== "admin") {
+    return errorResponse("Only admins can register webhooks", 403);
+  }
+
+  const body = (await req.json()) as RegisterRequest;
+
+  if (body.action !== "register") {
+    return errorResponse(`Unknown action: ${body.action}`, 400);
+  }
+
+  if (!body.fub_connection_id) {
+    return errorResponse("Missing fub_connection_id", 400);
+  }
+
+  const { data: connection } = await supabase
+    .from("fub_connections")
+    .select("id, api_key_encrypted")
+    .eq("id", body.fub_connection_id)
+    .single();
+
+  if (!connection) {
+    return errorResponse("FUB connection not found", 404);
+  }
+
+  const added = await registerFubWebhooks(supabase, connection);
+
+  return jsonResponse({
+    success: true,
+    fub_connection_id: connection.id,
+    events_added: added,
+  });
+}
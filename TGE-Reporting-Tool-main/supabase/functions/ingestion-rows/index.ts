@@ -0,0 +1,454 @@
+/**
+ * Ingestion Rows Edge Function
+ *
+ * Fixes rows rejected by csv-parser: edits a row's raw_data and re-validates
+ * it, exports the rejected rows as a CSV to correct offline, and re-runs
+ * lead-transformer on fixed rows or csv-parser on the whole file.
+ */
+
+import { serve } from "https://deno.land/std@0.208.0/http/server.ts";
+import { stringify } from "https://deno.land/std@0.208.0/csv/stringify.ts";
+import { corsHeaders, handleCors, jsonResponse, errorResponse } from "../_shared/cors.ts";
+import {
+  createServiceClient,
+  createUserClient,
+  getUserFromHeader,
+  LeadSource,
+  RawIngestion,
+  SupabaseClient,
+} from "../_shared/supabase.ts";
+import { getIngestionFieldMapping } from "../_shared/field-mapping.ts";
+import { detectFileFormat, iterateRows } from "../_shared/file-formats.ts";
+import { createValidator, ValidationIssue } from "../_shared/validation.ts";
+
+interface IngestionRowsRequest {
+  action: "update_row" | "export_rejected" | "reprocess" | "reparse";
+  ingestion_id?: string;
+  // update_row
+  row_id?: string;
+  raw_data?: Record<string, string>;
+  // reprocess: only these rows (default: every row not yet turned into a lead)
+  row_ids?: string[];
+}
+
+interface RawRow {
+  id: string;
+  row_number: number;
+  raw_data: Record<string, string>;
+  is_valid: boolean | null;
+  has_warnings: boolean | null;
+  validation_errors: unknown[];
+  is_duplicate: boolean;
+  source_lead_id: string | null;
+}
+
+const PAGE_SIZE = 1000;
+
+serve(async (req: Request) => {
+  // Handle CORS
+  const corsResponse = handleCors(req);
+  if (corsResponse) return corsResponse;
+
+  try {
+    const authHeader = req.headers.get("Authorization");
+    const userClient = createUserClient(authHeader);
+
+    const user = await getUserFromHeader(userClient, authHeader);
+    if (!user) {
+      return errorResponse("Unauthorized", 401);
+    }
+
+    const body = (await req.json()) as IngestionRowsRequest;
+    const supabase = createServiceClient();
+
+    let ingestionId = body.ingestion_id;
+
+    if (body.action === "update_row") {
+      if (!body.row_id || !body.raw_data) {
+        return errorResponse("Missing row_id or raw_data", 400);
+      }
+
+      const { data: row } = await supabase
+        .from("raw_lead_rows")
+        .select("ingestion_id")
+        .eq("id", body.row_id)
+        .single();
+
+      if (!row) {
+        return errorResponse("Row not found", 404);
+      }
+
+      ingestionId = row.ingestion_id;
+    }
+
+    if (!ingestionId) {
+      return errorResponse("Missing ingestion_id", 400);
+    }
+
+    const { data: ingestion, error: ingestionError } = await supabase
+      .from("raw_ingestions")
+      .select("*, lead_sources(*)")
+      .eq("id", ingestionId)
+      .single();
+
+    if (ingestionError || !ingestion) {
+      return errorResponse("Ingestion not found", 404);
+    }
+
+    const leadSource = ingestion.lead_sources as LeadSource | null;
+
+    if (body.action === "update_row") {
+      const { data: row } = await supabase
+        .from("raw_lead_rows")
+        .select("*")
+        .eq("id", body.row_id!)
+        .single();
+
+      const rawRow = row as RawRow;
+
+      if (["processing", "transforming"].includes(ingestion.status)) {
+        return errorResponse(`Ingestion is ${ingestion.status}`, 409);
+      }
+
+      if (rawRow.source_lead_id) {
+        return errorResponse("Row has already been turned into a lead", 409);
+      }
+
+      // Only existing columns can be edited, so the row still lines up with the file
+      const unknownColumns = Object.keys(body.raw_data!).filter((col) => !(col in rawRow.raw_data));
+      if (unknownColumns.length > 0) {
+        return errorResponse(`Unknown columns: ${unknownColumns.join(", ")}`, 400);
+      }
+
+      const rawData = { ...rawRow.raw_data, ...body.raw_data };
+      const changes = Object.fromEntries(
+        Object.keys(body.raw_data!)
+          .filter((col) => rawRow.raw_data[col] !== rawData[col])
+          .map((col) => [col, { from: rawRow.raw_data[col], to: rawData[col] }])
+      );
+
+      const validateRow = createValidator(
+        leadSource?.validation_rules,
+        getIngestionFieldMapping(ingestion, leadSource),
+        leadSource?.csv_config
+      );
+      const { isValid, hasWarnings, issues } = validateRow(rawData);
+
+      const { error: updateError } = await supabase
+        .from("raw_lead_rows")
+        .update({
+          raw_data: rawData,
+          is_valid: isValid,
+          has_warnings: hasWarnings,
+          validation_errors: issues,
+          // Let lead-transformer check the edited row for duplicates again
+          is_duplicate: false,
+          duplicate_of: null,
+          duplicate_of_source_lead: null,
+          duplicate_key: null,
+        })
+        .eq("id", rawRow.id);
+
+      if (updateError) {
+        return errorResponse(`Failed to update row: ${updateError.message}`, 500);
+      }
+
+      if (Object.keys(changes).length > 0) {
+        await supabase.from("data_lineage").insert({
+          source_table: "raw_lead_rows",
+          source_id: rawRow.id,
+          target_table: "raw_lead_rows",
+          target_id: rawRow.id,
+          operation: "update",
+          transformation_type: "manual_edit",
+          transformation_details: { changes },
+          performed_by: `user:${user.id}`,
+        });
+      }
+
+      const counts = await updateRowCounts(supabase, ingestionId);
+
+      return jsonResponse({
+        success: true,
+        row_id: rawRow.id,
+        is_valid: isValid,
+        has_warnings: hasWarnings,
+        validation_errors: issues,
+        ...counts,
+      });
+    }
+
+    if (body.action === "export_rejected") {
+      const rows = await fetchRows(supabase, ingestionId, { invalidOnly: true });
+      const csvConfig = leadSource?.csv_config || { delimiter: ",", has_header: true, skip_rows: 0 };
+      const hasHeader = csvConfig.has_header ?? true;
+
+      // raw_data is jsonb and loses column order, so take it from the file
+      const headers =
+        (await readHeaders(supabase, ingestion as RawIngestion, csvConfig)) ||
+        Object.keys(rows[0]?.raw_data || {});
+
+      const csv = stringify(
+        rows.map((row) => ({
+          ...row.raw_data,
+          validation_errors: formatIssues(row.validation_errors),
+        })),
+        {
+          columns: hasHeader ? [...headers, "validation_errors"] : headers,
+          headers: hasHeader,
+        }
+      );
+
+      const baseName = (ingestion.file_name || "ingestion").replace(/\.[^.]+$/, "");
+
+      return jsonResponse({
+        success: true,
+        file_name: `${baseName}_rejected.csv`,
+        rows: rows.length,
+        csv,
+      });
+    }
+
+    if (body.action === "reprocess") {
+      if (["pending", "processing", "transforming"].includes(ingestion.status)) {
+        return errorResponse(`Ingestion is ${ingestion.status}`, 409);
+      }
+
+      const validateRow = createValidator(
+        leadSource?.validation_rules,
+        getIngestionFieldMapping(ingestion, leadSource),
+        leadSource?.csv_config
+      );
+
+      // Re-validate against the source's current mapping and rules
+      const rows = await fetchRows(supabase, ingestionId, { rowIds: body.row_ids });
+      let revalidated = 0;
+
+      for (const row of rows) {
+        const { isValid, hasWarnings, issues } = validateRow(row.raw_data);
+
+        if (
+          isValid === row.is_valid &&
+          hasWarnings === !!row.has_warnings &&
+          JSON.stringify(issues) === JSON.stringify(row.validation_errors)
+        ) {
+          continue;
+        }
+
+        await supabase
+          .from("raw_lead_rows")
+          .update({ is_valid: isValid, has_warnings: hasWarnings, validation_errors: issues })
+          .eq("id", row.id);
+
+        revalidated++;
+      }
+
+      const counts = await updateRowCounts(supabase, ingestionId, {
+        status: "parsed",
+        completed_at: null,
+        processing_log: [
+          ...((ingestion as RawIngestion).processing_log || []),
+          {
+            timestamp: new Date().toISOString(),
+            action: "reprocess_requested",
+            details: {
+              user_id: user.id,
+              rows: body.row_ids?.length ?? rows.length,
+              revalidated,
+            },
+          },
+        ],
+      });
+
+      // Trigger transformation of the rows that are now valid
+      const transformUrl = `${Deno.env.get("SUPABASE_URL")}/functions/v1/lead-transformer`;
+
+      fetch(transformUrl, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          Authorization: `Bearer ${Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")}`,
+        },
+        body: JSON.stringify({ ingestion_id: ingestionId, row_ids: body.row_ids }),
+      }).catch((err) => console.error("Failed to trigger lead-transformer:", err));
+
+      return jsonResponse({
+        success: true,
+        ingestion_id: ingestionId,
+        rows_checked: rows.length,
+        rows_revalidated: revalidated,
+        ...counts,
+      });
+    }
+
+    if (body.action === "reparse") {
+      if (["processing", "transforming"].includes(ingestion.status)) {
+        return errorResponse(`Ingestion is ${ingestion.status}`, 409);
+      }
+
+      if (!ingestion.file_url) {
+        return errorResponse("Ingestion has no file to parse", 409);
+      }
+
+      // Raw rows are replaced, so this is only possible before any lead exists
+      const { count: leadCount } = await supabase
+        .from("source_leads")
+        .select("id", { count: "exact", head: true })
+        .eq("ingestion_id", ingestionId);
+
+      if (leadCount) {
+        return errorResponse(
+          `Ingestion already created ${leadCount} leads; reprocess its rows instead`,
+          409
+        );
+      }
+
+      await supabase
+        .from("raw_ingestions")
+        .update({
+          status: "pending",
+          total_rows: null,
+          duplicate_rows: 0,
+          errors: [],
+          completed_at: null,
+          processing_log: [
+            ...((ingestion as RawIngestion).processing_log || []),
+            {
+              timestamp: new Date().toISOString(),
+              action: "reparse_requested",
+              details: { user_id: user.id },
+            },
+          ],
+        })
+        .eq("id", ingestionId);
+
+      const parserUrl = `${Deno.env.get("SUPABASE_URL")}/functions/v1/csv-parser`;
+
+      fetch(parserUrl, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          Authorization: `Bearer ${Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")}`,
+        },
+        body: JSON.stringify({ ingestion_id: ingestionId }),
+      }).catch((err) => console.error("Failed to trigger csv-parser:", err));
+
+      return jsonResponse({ success: true, ingestion_id: ingestionId, status: "pending" });
+    }
+
+    return errorResponse(`Unknown action: ${body.action}`, 400);
+  } catch (error) {
+    console.error("Ingestion rows error:", error);
+    return errorResponse(
+      error instanceof Error ? error.message : "Unknown error",
+      500
+    );
+  }
+});
+
+/**
+ * Fetch an ingestion's rows that haven't become leads yet, page by page
+ */
+async function fetchRows(
+  supabase: SupabaseClient,
+  ingestionId: string,
+  options: { invalidOnly?: boolean; rowIds?: string[] } = {}
+): Promise<RawRow[]> {
+  const rows: RawRow[] = [];
+
+  for (let from = 0; ; from += PAGE_SIZE) {
+    let query = supabase
+      .from("raw_lead_rows")
+      .select("*")
+      .eq("ingestion_id", ingestionId)
+      .is("source_lead_id", null)
+      .order("row_number")
+      .range(from, from + PAGE_SIZE - 1);
+
+    if (options.invalidOnly) {
+      query = query.eq("is_valid", false);
+    }
+    if (options.rowIds?.length) {
+      query = query.in("id", options.rowIds);
+    }
+
+    const { data, error } = await query;
+
+    if (error) {
+      throw new Error(`Failed to fetch rows: ${error.message}`);
+    }
+
+    rows.push(...((data || []) as RawRow[]));
+    if (!data || data.length < PAGE_SIZE) break;
+  }
+
+  return rows;
+}
+
+/**
+ * Recount valid, error and warning rows after rows changed
+ */
+async function updateRowCounts(
+  supabase: SupabaseClient,
+  ingestionId: string,
+  extra: Record<string, unknown> = {}
+): Promise<{ valid_rows: number; error_rows: number; warning_rows: number }> {
+  const countRows = async (column: string, value: boolean) => {
+    const { count } = await supabase
+      .from("raw_lead_rows")
+      .select("id", { count: "exact", head: true })
+      .eq("ingestion_id", ingestionId)
+      .eq(column, value);
+
+    return count || 0;
+  };
+
+  const counts = {
+    valid_rows: await countRows("is_valid", true),
+    error_rows: await countRows("is_valid", false),
+    warning_rows: await countRows("has_warnings", true),
+  };
+
+  await supabase
+    .from("raw_ingestions")
+    .update({ ...counts, ...extra })
+    .eq("id", ingestionId);
+
+  return counts;
+}
+
+/**
+ * Column headers of the ingestion's original file, in file order
+ */
+async function readHeaders(
+  supabase: SupabaseClient,
+  ingestion: RawIngestion,
+  csvConfig: Partial<LeadSource["csv_config"]>
+): Promise<string[] | null> {
+  const format = detectFileFormat(ingestion.file_name || ingestion.file_url || "");
+  if (!format || !ingestion.file_url) return null;
+
+  const { data: fileData } = await supabase.storage.from("lead-files").download(ingestion.file_url);
+  if (!fileData) return null;
+
+  try {
+    for await (const record of iterateRows(fileData, format, csvConfig)) {
+      return record.headers;
+    }
+  } catch (parseError) {
+    console.error("Failed to read headers:", parseError);
+  }
+
+  return null;
+}
+
+/**
+ * Validation errors as one cell; rows parsed before structured issues are strings
+ */
+function formatIssues(issues: unknown[]): string {
+  return (issues || [])
+    .map((issue) =>
+      typeof issue === "string" ? issue : (issue as ValidationIssue).message
+    )
+    .join("; ");
+}
@@ -3,12 +3,13 @@
  *
  * Matches source_leads against fub_leads using multiple signals.
  * Creates lead_matches for high-confidence matches or match_candidates for review.
+ * Leads left unmatched are passed on to ai-matcher.
  */
 
 import { serve } from "https://deno.land/std@0.208.0/http/server.ts";
 import { corsHeaders, handleCors, jsonResponse, errorResponse } from "../_shared/cors.ts";
 import { createServiceClient } from "../_shared/supabase.ts";
-import { findMatches, processMatches, MATCH_THRESHOLDS } from "../_shared/matching.ts";
+import { findMatches, processMatches } from "../_shared/matching.ts";
 
 interface MatchRequest {
   source_lead_ids?: string[];
@@ -75,13 +76,14 @@ serve(async (req: Request) => {
       review: 0,
       errors: 0,
     };
+    const unmatchedIds: string[] = [];
 
     for (const sourceLeadId of sourceLeadIds) {
       try {
         // Get source lead
         const { data: sourceLead, error: leadError } = await supabase
           .from("source_leads")
-          .select("id, organization_id")
+          .select("id, organization_id, lead_source_id")
           .eq("id", sourceLeadId)
           .single();
 
@@ -98,7 +100,8 @@ serve(async (req: Request) => {
           supabase,
           sourceLeadId,
           matches,
-          sourceLead.organization_id
+          sourceLead.organization_id,
+          sourceLead.lead_source_id
         );
 
         results.processed++;
@@ -109,6 +112,7 @@ serve(async (req: Request) => {
           results.review++;
         } else {
           results.unmatched++;
+          unmatchedIds.push(sourceLeadId);
         }
       } catch (err) {
         console.error(`Error matching lead ${sourceLeadId}:`, err);
@@ -116,6 +120,20 @@ serve(async (req: Request) => {
       }
     }
 
+    // Let the AI stage suggest matches for leads nothing matched
+    if (unmatchedIds.length > 0) {
+      const aiMatchUrl = `${Deno.env.get("SUPABASE_URL")}/functions/v1/ai-matcher`;
+
+      fetch(aiMatchUrl, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          Authorization: `Bearer ${Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")}`,
+        },
+        body: JSON.stringify({ source_lead_ids: unmatchedIds }),
+      }).catch((err) => console.error("Failed to trigger ai-matcher:", err));
+    }
+
     return jsonResponse({
       success: true,
       ...results,
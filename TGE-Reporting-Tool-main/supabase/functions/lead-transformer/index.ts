@@ -3,31 +3,105 @@
  *
  * Transforms raw_lead_rows into normalized source_leads.
  * Applies field mapping and queues for embedding.
+ *
+ * Rows are transformed in row_number order, one chunk at a time, each
+ * checkpointed in processing_log; large ingestions continue in a fresh
+ * invocation and an interrupted run resumes after its last checkpoint. Like
+ * csv-parser, an invocation claims the ingestion first and passes the claim
+ * on with each handoff. Call with { resume_stalled: true } on a cron
+ * schedule to restart cut-off runs.
  */
 
 import { serve } from "https://deno.land/std@0.208.0/http/server.ts";
 import { corsHeaders, handleCors, jsonResponse, errorResponse } from "../_shared/cors.ts";
 import { createServiceClient, LeadSource, RawIngestion } from "../_shared/supabase.ts";
+import { getIngestionFieldMapping, mapFields } from "../_shared/field-mapping.ts";
 import { queueForEmbedding } from "../_shared/embeddings.ts";
+import { parseDate } from "../_shared/dates.ts";
+import { triggerRematch } from "../_shared/matching.ts";
 
 interface TransformRequest {
-  ingestion_id: string;
+  ingestion_id?: string;
+  // Only transform these raw rows (e.g. rows fixed after a failed import)
+  row_ids?: string[];
+  // Handoffs pass on the claim of the invocation that started the run
+  claim_id?: string;
+  // Cron: re-trigger ingestions whose transformation was cut off
+  resume_stalled?: boolean;
+}
+
+/** processing_log entry written after each chunk of raw rows is transformed */
+interface TransformCheckpoint {
+  chunk: number;
+  last_row_number: number;
+  created: number;
+  duplicates: number;
+  updated: number;
+  failed: number;
+}
+
+interface DuplicateMatch {
+  source_lead_id: string;
+  raw_row_id: string | null;
+  ingestion_id: string | null;
+  duplicate_key: string;
+}
+
+/** What a run knows about the ingestion it transforms */
+interface TransformContext {
+  ingestionId: string;
+  organizationId: string | null;
+  leadSource: LeadSource | null;
+  leadSourceId: string | null;
+  fieldMapping: ReturnType<typeof getIngestionFieldMapping>;
+  dedupConfig: NonNullable<LeadSource["dedup_config"]>;
 }
 
+interface RowResult {
+  created: boolean;
+  duplicate: boolean;
+  updated: boolean;
+  // No source lead could be created; the row is marked invalid
+  failed: boolean;
+  // Source lead to run matching for, if any
+  matchLeadId: string | null;
+}
+
+const DEFAULT_DEDUP_CONFIG: NonNullable<LeadSource["dedup_config"]> = {
+  keys: ["source_lead_id", "email", "phone"],
+  on_resend: "skip",
+};
+
+// Changes to these fields can change which FUB lead a source lead matches
+const MATCH_FIELDS = ["email", "phone", "property_address"];
+
+// Each row costs a duplicate lookup and a few writes
+const CHUNK_SIZE = 200;
+// Hand off to a fresh invocation well before the wall-clock limit
+const TIME_BUDGET_MS = 100_000;
+// No log entry for this long means the invocation died
+const STALLED_AFTER_MS = 10 * 60 * 1000;
+
 serve(async (req: Request) => {
   // Handle CORS
   const corsResponse = handleCors(req);
   if (corsResponse) return corsResponse;
 
+  const startedAt = Date.now();
+
   try {
-    const { ingestion_id } = (await req.json()) as TransformRequest;
+    const { ingestion_id, row_ids, claim_id, resume_stalled } = (await req.json()) as TransformRequest;
+    const supabase = createServiceClient();
+
+    if (resume_stalled) {
+      const resumed = await resumeStalledTransformations(supabase);
+      return jsonResponse({ success: true, resumed_ingestion_ids: resumed });
+    }
 
     if (!ingestion_id) {
       return errorResponse("Missing ingestion_id", 400);
     }
 
-    const supabase = createServiceClient();
-
     // Get ingestion with lead source
     const { data: ingestion, error: ingestionError } = await supabase
       .from("raw_ingestions")
@@ -39,183 +113,203 @@ serve(async (req: Request) => {
       return errorResponse("Ingestion not found", 404);
     }
 
-    // Update status
-    await supabase
+    if (["pending", "processing"].includes(ingestion.status)) {
+      return jsonResponse({
+        success: true,
+        ingestion_id,
+        message: `Ingestion still ${ingestion.status}`,
+      });
+    }
+
+    // A run in progress is only continued by the invocation it handed off to
+    if (ingestion.status === "transforming" && ingestion.claim_id && claim_id !== ingestion.claim_id) {
+      return alreadyClaimed(ingestion_id);
+    }
+
+    const log = [...((ingestion as RawIngestion).processing_log || [])];
+    const checkpoint = ingestion.status === "transforming" ? getLastCheckpoint(log) : null;
+
+    log.push(
+      checkpoint
+        ? {
+            timestamp: new Date().toISOString(),
+            action: "transformation_resumed",
+            details: { after_row: checkpoint.last_row_number, chunk: checkpoint.chunk },
+          }
+        : { timestamp: new Date().toISOString(), action: "transformation_started" }
+    );
+
+    // Claim the ingestion. The update only matches while status and claim are
+    // still what was read above, so of two concurrent triggers only one wins.
+    const claimId = crypto.randomUUID();
+
+    let claimQuery = supabase
       .from("raw_ingestions")
-      .update({
-        status: "transforming",
-        processing_log: [
-          ...((ingestion as RawIngestion).processing_log || []),
-          { timestamp: new Date().toISOString(), action: "transformation_started" },
-        ],
-      })
-      .eq("id", ingestion_id);
+      .update({ status: "transforming", claim_id: claimId, processing_log: log })
+      .eq("id", ingestion_id)
+      .eq("status", ingestion.status);
 
-    // Get valid raw rows
-    const { data: rawRows, error: rowsError } = await supabase
-      .from("raw_lead_rows")
-      .select("*")
-      .eq("ingestion_id", ingestion_id)
-      .eq("is_valid", true)
-      .is("source_lead_id", null);
+    claimQuery = ingestion.claim_id
+      ? claimQuery.eq("claim_id", ingestion.claim_id)
+      : claimQuery.is("claim_id", null);
 
-    if (rowsError) {
-      return errorResponse("Failed to fetch raw rows", 500);
-    }
+    const { data: claimed, error: claimError } = await claimQuery.select("id");
 
-    if (!rawRows || rawRows.length === 0) {
-      await supabase
-        .from("raw_ingestions")
-        .update({
-          status: "completed",
-          completed_at: new Date().toISOString(),
-        })
-        .eq("id", ingestion_id);
+    if (claimError) {
+      throw new Error(`Failed to claim ingestion: ${claimError.message}`);
+    }
 
-      return jsonResponse({ success: true, message: "No rows to transform", leads_created: 0 });
+    if (!claimed?.length) {
+      return alreadyClaimed(ingestion_id);
     }
 
     const leadSource = ingestion.lead_sources as LeadSource | null;
-    const fieldMapping = leadSource?.field_mapping || getDefaultFieldMapping();
-
-    let createdCount = 0;
-    let duplicateCount = 0;
-    const sourceLeadIds: string[] = [];
-
-    // Process each row
-    for (const rawRow of rawRows) {
-      const rawData = rawRow.raw_data as Record<string, string>;
-
-      // Map fields
-      const normalized = mapFields(rawData, fieldMapping);
-
-      // Check for duplicates by email within same org/source
-      if (normalized.email) {
-        const { data: existing } = await supabase
-          .from("source_leads")
-          .select("id")
-          .eq("organization_id", ingestion.organization_id)
-          .eq("email_normalized", normalized.email.toLowerCase().trim())
-          .eq("lead_source_id", leadSource?.id || ingestion.lead_source_id)
-          .single();
-
-        if (existing) {
-          // Mark as duplicate
-          await supabase
-            .from("raw_lead_rows")
-            .update({ is_duplicate: true, duplicate_of: existing.id })
-            .eq("id", rawRow.id);
-
-          duplicateCount++;
-          continue;
-        }
+    const context: TransformContext = {
+      ingestionId: ingestion_id,
+      organizationId: ingestion.organization_id,
+      leadSource,
+      leadSourceId: leadSource?.id || ingestion.lead_source_id,
+      fieldMapping: getIngestionFieldMapping(ingestion, leadSource),
+      dedupConfig: { ...DEFAULT_DEDUP_CONFIG, ...(leadSource?.dedup_config || {}) },
+    };
+
+    // Counters carry over from the last checkpoint
+    const progress: TransformCheckpoint = checkpoint
+      ? { failed: 0, ...checkpoint }
+      : { chunk: 0, last_row_number: 0, created: 0, duplicates: 0, updated: 0, failed: 0 };
+    let duplicateRows = (ingestion as RawIngestion).duplicate_rows;
+    let validRows = (ingestion as RawIngestion).valid_rows;
+    let errorRows = (ingestion as RawIngestion).error_rows;
+
+    while (true) {
+      // Valid rows still waiting for a source lead. Rows at or before the
+      // checkpoint are skipped so one that fails to insert isn't retried forever.
+      let rowsQuery = supabase
+        .from("raw_lead_rows")
+        .select("*")
+        .eq("ingestion_id", ingestion_id)
+        .eq("is_valid", true)
+        .eq("is_duplicate", false)
+        .is("source_lead_id", null)
+        .gt("row_number", progress.last_row_number)
+        .order("row_number")
+        .limit(CHUNK_SIZE);
+
+      if (row_ids?.length) {
+        rowsQuery = rowsQuery.in("id", row_ids);
+      }
+
+      const { data: rawRows, error: rowsError } = await rowsQuery;
+
+      if (rowsError) {
+        return errorResponse("Failed to fetch raw rows", 500);
       }
 
-      // Parse source_created_at if present
-      let sourceCreatedAt: string | null = null;
-      if (normalized.source_created_at) {
-        try {
-          const parsed = parseDate(normalized.source_created_at, leadSource?.csv_config?.date_format);
-          sourceCreatedAt = parsed?.toISOString() || null;
-        } catch {
-          // Invalid date, leave as null
+      if (!rawRows || rawRows.length === 0) break;
+
+      const sourceLeadIds: string[] = [];
+
+      for (const rawRow of rawRows) {
+        const result = await transformRow(supabase, rawRow, context);
+
+        if (result.created) progress.created++;
+        if (result.updated) progress.updated++;
+        if (result.duplicate) {
+          progress.duplicates++;
+          duplicateRows++;
+        }
+        if (result.failed) {
+          progress.failed++;
+          validRows--;
+          errorRows++;
         }
+        if (result.matchLeadId) sourceLeadIds.push(result.matchLeadId);
       }
 
-      // Create source lead
-      const { data: sourceLead, error: insertError } = await supabase
-        .from("source_leads")
-        .insert({
-          raw_row_id: rawRow.id,
-          ingestion_id,
-          lead_source_id: leadSource?.id || ingestion.lead_source_id,
-          organization_id: ingestion.organization_id,
-          email: normalized.email,
-          phone: normalized.phone,
-          first_name: normalized.first_name,
-          last_name: normalized.last_name,
-          full_name: normalized.full_name,
-          property_address: normalized.address,
-          property_city: normalized.city,
-          property_state: normalized.state,
-          property_zip: normalized.zip,
-          lead_type: normalized.lead_type,
-          source_lead_id: normalized.source_lead_id,
-          source_created_at: sourceCreatedAt,
-          raw_data: rawData,
-          match_status: "pending",
+      progress.chunk++;
+      progress.last_row_number = rawRows[rawRows.length - 1].row_number;
+
+      log.push({
+        timestamp: new Date().toISOString(),
+        action: "chunk_transformed",
+        details: { ...progress },
+      });
+
+      const { data: checkpointed, error: checkpointError } = await supabase
+        .from("raw_ingestions")
+        .update({
+          duplicate_rows: duplicateRows,
+          valid_rows: validRows,
+          error_rows: errorRows,
+          processing_log: log,
         })
-        .select("id")
-        .single();
+        .eq("id", ingestion_id)
+        .eq("claim_id", claimId)
+        .select("id");
 
-      if (insertError) {
-        console.error("Failed to create source lead:", insertError);
-        continue;
+      if (checkpointError) {
+        throw new Error(`Failed to checkpoint rows: ${checkpointError.message}`);
       }
 
-      // Update raw row with source_lead_id
-      await supabase
-        .from("raw_lead_rows")
-        .update({ source_lead_id: sourceLead.id })
-        .eq("id", rawRow.id);
-
-      // Record lineage
-      await supabase.from("data_lineage").insert({
-        source_table: "raw_lead_rows",
-        source_id: rawRow.id,
-        target_table: "source_leads",
-        target_id: sourceLead.id,
-        operation: "create",
-        transformation_type: "normalize",
-        transformation_details: { field_mapping: Object.keys(normalized).filter((k) => normalized[k]) },
-        performed_by: "function:lead-transformer",
-      });
+      // Trigger matching for the chunk's created and re-queued leads
+      triggerRematch(sourceLeadIds);
 
-      // Queue for embedding
-      const embeddingText = generateEmbeddingText(normalized, leadSource?.display_name || "Unknown");
-      await queueForEmbedding(supabase, "source_leads", sourceLead.id, embeddingText);
+      // Another invocation has taken over (e.g. after this one looked stalled)
+      if (!checkpointed?.length) {
+        return alreadyClaimed(ingestion_id);
+      }
+
+      if (rawRows.length < CHUNK_SIZE) break;
+
+      if (Date.now() - startedAt > TIME_BUDGET_MS) {
+        continueTransforming(ingestion_id, claimId, row_ids);
 
-      sourceLeadIds.push(sourceLead.id);
-      createdCount++;
+        return jsonResponse({
+          success: true,
+          ingestion_id,
+          status: "transforming",
+          leads_created: progress.created,
+          continued: true,
+        });
+      }
     }
 
-    // Update ingestion stats
+    // Update ingestion stats and release the claim. Rows that couldn't be
+    // turned into leads leave the ingestion partial, for review in its detail view.
     await supabase
       .from("raw_ingestions")
       .update({
-        status: "completed",
+        status: progress.failed > 0 ? "partial" : "completed",
+        claim_id: null,
         completed_at: new Date().toISOString(),
-        duplicate_rows: (ingestion as RawIngestion).duplicate_rows + duplicateCount,
+        duplicate_rows: duplicateRows,
+        valid_rows: validRows,
+        error_rows: errorRows,
         processing_log: [
-          ...((ingestion as RawIngestion).processing_log || []),
+          ...log,
           {
             timestamp: new Date().toISOString(),
             action: "transformation_completed",
-            details: { created: createdCount, duplicates: duplicateCount },
+            details: {
+              created: progress.created,
+              duplicates: progress.duplicates,
+              updated: progress.updated,
+              failed: progress.failed,
+              chunks: progress.chunk,
+            },
           },
         ],
       })
-      .eq("id", ingestion_id);
-
-    // Trigger matching for created leads
-    if (sourceLeadIds.length > 0) {
-      const matchUrl = `${Deno.env.get("SUPABASE_URL")}/functions/v1/lead-matcher`;
-
-      fetch(matchUrl, {
-        method: "POST",
-        headers: {
-          "Content-Type": "application/json",
-          Authorization: `Bearer ${Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")}`,
-        },
-        body: JSON.stringify({ source_lead_ids: sourceLeadIds }),
-      }).catch((err) => console.error("Failed to trigger lead-matcher:", err));
-    }
+      .eq("id", ingestion_id)
+      .eq("claim_id", claimId);
 
     return jsonResponse({
       success: true,
       ingestion_id,
-      leads_created: createdCount,
-      duplicates_found: duplicateCount,
+      leads_created: progress.created,
+      duplicates_found: progress.duplicates,
+      leads_updated: progress.updated,
+      rows_failed: progress.failed,
     });
   } catch (error) {
     console.error("Lead transformer error:", error);
@@ -227,83 +321,298 @@ serve(async (req: Request) => {
 });
 
 /**
- * Map raw data fields to normalized fields using field mapping
+ * Turn one raw row into a source lead, or record it as a duplicate of an
+ * earlier one (applying the resend when the source is configured to)
  */
-function mapFields(
-  rawData: Record<string, string>,
-  fieldMapping: Record<string, string[]>
-): Record<string, string | null> {
-  const result: Record<string, string | null> = {};
-
-  for (const [targetField, sourceColumns] of Object.entries(fieldMapping)) {
-    for (const col of sourceColumns) {
-      if (rawData[col] && rawData[col].trim() !== "") {
-        result[targetField] = rawData[col].trim();
-        break;
-      }
+async function transformRow(
+  supabase: ReturnType<typeof createServiceClient>,
+  rawRow: { id: string; raw_data: unknown; validation_errors: unknown[] | null },
+  context: TransformContext
+): Promise<RowResult> {
+  const { ingestionId, leadSource, leadSourceId, dedupConfig } = context;
+  const rawData = rawRow.raw_data as Record<string, string>;
+
+  // Map fields
+  const normalized = mapFields(rawData, context.fieldMapping);
+
+  // Parse source_created_at in the source's format and timezone
+  // (csv-parser has already rejected rows where this fails)
+  const sourceCreatedAt = normalized.source_created_at
+    ? parseDate(normalized.source_created_at, {
+        format: leadSource?.csv_config?.date_format,
+        timezone: leadSource?.csv_config?.timezone,
+      })?.toISOString() || null
+    : null;
+
+  const leadFields = {
+    email: normalized.email,
+    phone: normalized.phone,
+    first_name: normalized.first_name,
+    last_name: normalized.last_name,
+    full_name: normalized.full_name,
+    property_address: normalized.address,
+    property_city: normalized.city,
+    property_state: normalized.state,
+    property_zip: normalized.zip,
+    lead_type: normalized.lead_type,
+    source_lead_id: normalized.source_lead_id,
+    source_created_at: sourceCreatedAt,
+  };
+
+  // Check for an earlier lead (from this file or a previous one) with the same
+  // source lead id, email or phone within the same org/source
+  const { data: duplicates, error: duplicateError } = await supabase.rpc(
+    "find_duplicate_source_lead",
+    {
+      p_organization_id: context.organizationId,
+      p_lead_source_id: leadSourceId,
+      p_source_lead_id: normalized.source_lead_id,
+      p_email: normalized.email,
+      p_phone: normalized.phone,
+      p_keys: dedupConfig.keys,
     }
-    if (!result[targetField]) {
-      result[targetField] = null;
+  );
+
+  // Inserting without knowing would create the duplicate this check prevents.
+  // The run stops before its checkpoint, so the row is retried when it resumes.
+  if (duplicateError) {
+    throw new Error(`Duplicate lookup failed: ${duplicateError.message}`);
+  }
+
+  const duplicate = (duplicates as DuplicateMatch[] | null)?.[0];
+
+  if (duplicate) {
+    await supabase
+      .from("raw_lead_rows")
+      .update({
+        is_duplicate: true,
+        // duplicate_of references raw_lead_rows, so it is only set within a file
+        duplicate_of: duplicate.ingestion_id === ingestionId ? duplicate.raw_row_id : null,
+        duplicate_of_source_lead: duplicate.source_lead_id,
+        duplicate_key: duplicate.duplicate_key,
+      })
+      .eq("id", rawRow.id);
+
+    if (dedupConfig.on_resend !== "update") {
+      return { created: false, duplicate: true, updated: false, failed: false, matchLeadId: null };
+    }
+
+    const result = await applyResend(
+      supabase,
+      duplicate.source_lead_id,
+      rawRow.id,
+      leadFields,
+      rawData,
+      duplicate.duplicate_key
+    );
+
+    if (result === "requeued") {
+      const embeddingText = generateEmbeddingText(normalized, leadSource?.display_name || "Unknown");
+      await queueForEmbedding(supabase, "source_leads", duplicate.source_lead_id, embeddingText);
     }
+
+    return {
+      created: false,
+      duplicate: true,
+      updated: result !== "unchanged",
+      failed: false,
+      matchLeadId: result === "requeued" ? duplicate.source_lead_id : null,
+    };
   }
 
-  return result;
+  // Create source lead
+  const { data: sourceLead, error: insertError } = await supabase
+    .from("source_leads")
+    .insert({
+      raw_row_id: rawRow.id,
+      ingestion_id: ingestionId,
+      lead_source_id: leadSourceId,
+      organization_id: context.organizationId,
+      ...leadFields,
+      raw_data: rawData,
+      match_status: "pending",
+    })
+    .select("id")
+    .single();
+
+  if (insertError) {
+    console.error("Failed to create source lead:", insertError);
+
+    // Reject the row so it is counted and can be fixed and reprocessed
+    await supabase
+      .from("raw_lead_rows")
+      .update({
+        is_valid: false,
+        validation_errors: [
+          ...(rawRow.validation_errors || []),
+          `Failed to create lead: ${insertError.message}`,
+        ],
+      })
+      .eq("id", rawRow.id);
+
+    return { created: false, duplicate: false, updated: false, failed: true, matchLeadId: null };
+  }
+
+  // Update raw row with source_lead_id
+  await supabase
+    .from("raw_lead_rows")
+    .update({ source_lead_id: sourceLead.id })
+    .eq("id", rawRow.id);
+
+  // Record lineage
+  await supabase.from("data_lineage").insert({
+    source_table: "raw_lead_rows",
+    source_id: rawRow.id,
+    target_table: "source_leads",
+    target_id: sourceLead.id,
+    operation: "create",
+    transformation_type: "normalize",
+    transformation_details: { field_mapping: Object.keys(normalized).filter((k) => normalized[k]) },
+    performed_by: "function:lead-transformer",
+  });
+
+  // Queue for embedding
+  const embeddingText = generateEmbeddingText(normalized, leadSource?.display_name || "Unknown");
+  await queueForEmbedding(supabase, "source_leads", sourceLead.id, embeddingText);
+
+  return { created: true, duplicate: false, updated: false, failed: false, matchLeadId: sourceLead.id };
 }
 
 /**
- * Get default field mapping
+ * Most recent chunk checkpoint of the current transformation, if any
  */
-function getDefaultFieldMapping(): Record<string, string[]> {
-  return {
-    email: ["email", "Email", "EMAIL", "Consumer Email", "E-mail"],
-    phone: ["phone", "Phone", "PHONE", "Consumer Phone", "Phone Number"],
-    first_name: ["first_name", "First Name", "FirstName", "First"],
-    last_name: ["last_name", "Last Name", "LastName", "Last"],
-    full_name: ["name", "Name", "Full Name", "Consumer Name"],
-    address: ["property_address", "Address", "Property Address", "Street Address"],
-    city: ["city", "City", "Property City"],
-    state: ["state", "State", "Property State"],
-    zip: ["zip", "Zip", "ZIP", "Postal Code", "Zip Code"],
-    lead_type: ["lead_type", "Type", "Inquiry Type", "Lead Type"],
-    source_lead_id: ["id", "Lead ID", "lead_id", "ID"],
-    source_created_at: ["created", "Created Date", "Date", "Inquiry Date", "Created At"],
-  };
+function getLastCheckpoint(log: unknown[]): TransformCheckpoint | null {
+  for (let i = log.length - 1; i >= 0; i--) {
+    const entry = log[i] as { action?: string; details?: TransformCheckpoint };
+
+    if (entry.action === "transformation_started") return null;
+    if (entry.action === "chunk_transformed" && entry.details) return entry.details;
+  }
+
+  return null;
+}
+
+/**
+ * Response for an ingestion that another invocation is transforming
+ */
+function alreadyClaimed(ingestionId: string): Response {
+  return jsonResponse({
+    success: true,
+    ingestion_id: ingestionId,
+    message: "Ingestion already being transformed",
+  });
 }
 
 /**
- * Parse date string with optional format
+ * Pick up the transformation in a new invocation, passing on the claim
  */
-function parseDate(dateStr: string, format?: string): Date | null {
-  if (!dateStr) return null;
+function continueTransforming(ingestionId: string, claimId: string | null, rowIds?: string[]) {
+  const transformUrl = `${Deno.env.get("SUPABASE_URL")}/functions/v1/lead-transformer`;
+
+  fetch(transformUrl, {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/json",
+      Authorization: `Bearer ${Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")}`,
+    },
+    body: JSON.stringify({ ingestion_id: ingestionId, claim_id: claimId, row_ids: rowIds }),
+  }).catch((err) => console.error("Failed to continue lead-transformer:", err));
+}
 
-  // Try ISO format first
-  const isoDate = new Date(dateStr);
-  if (!isNaN(isoDate.getTime())) {
-    return isoDate;
+/**
+ * Re-trigger ingestions stuck in transforming whose last log entry is older
+ * than STALLED_AFTER_MS. The transformation resumes from its last checkpoint.
+ */
+async function resumeStalledTransformations(
+  supabase: ReturnType<typeof createServiceClient>
+): Promise<string[]> {
+  const { data: transforming } = await supabase
+    .from("raw_ingestions")
+    .select("id, claim_id, processing_log, started_at")
+    .eq("status", "transforming")
+    .limit(50);
+
+  const resumed: string[] = [];
+
+  for (const ingestion of transforming || []) {
+    const log = (ingestion.processing_log || []) as { timestamp?: string }[];
+    const lastActivity = log[log.length - 1]?.timestamp || ingestion.started_at;
+
+    if (lastActivity && Date.now() - new Date(lastActivity).getTime() < STALLED_AFTER_MS) {
+      continue;
+    }
+
+    continueTransforming(ingestion.id, ingestion.claim_id);
+    resumed.push(ingestion.id);
   }
 
-  // Try common formats
-  const formats = [
-    /^(\d{1,2})\/(\d{1,2})\/(\d{4})$/, // MM/DD/YYYY
-    /^(\d{1,2})-(\d{1,2})-(\d{4})$/, // MM-DD-YYYY
-    /^(\d{4})-(\d{1,2})-(\d{1,2})$/, // YYYY-MM-DD
-  ];
+  return resumed;
+}
 
-  for (const regex of formats) {
-    const match = dateStr.match(regex);
-    if (match) {
-      // Determine order based on format
-      if (regex.source.startsWith("^(\\d{4})")) {
-        // YYYY-MM-DD
-        return new Date(parseInt(match[1]), parseInt(match[2]) - 1, parseInt(match[3]));
-      } else {
-        // MM/DD/YYYY or MM-DD-YYYY
-        return new Date(parseInt(match[3]), parseInt(match[1]) - 1, parseInt(match[2]));
-      }
-    }
+/**
+ * Apply a resent lead to the existing source lead. Only values present in the
+ * resend are written, so a partial resend never blanks out a field. When
+ * contact details change on a lead that isn't matched yet, it is re-queued
+ * for matching.
+ */
+async function applyResend(
+  supabase: ReturnType<typeof createServiceClient>,
+  sourceLeadId: string,
+  rawRowId: string,
+  fields: Record<string, string | null>,
+  rawData: Record<string, string>,
+  duplicateKey: string
+): Promise<"unchanged" | "updated" | "requeued"> {
+  const { data: existing } = await supabase
+    .from("source_leads")
+    .select("*")
+    .eq("id", sourceLeadId)
+    .single();
+
+  if (!existing) return "unchanged";
+
+  const changes: Record<string, unknown> = {};
+  for (const [field, value] of Object.entries(fields)) {
+    if (value === null) continue;
+
+    const unchanged =
+      field === "source_created_at"
+        ? existing[field] && new Date(existing[field]).getTime() === new Date(value).getTime()
+        : value === existing[field];
+
+    if (!unchanged) changes[field] = value;
   }
 
-  return null;
+  if (Object.keys(changes).length === 0) return "unchanged";
+
+  const requeue =
+    existing.match_status !== "matched" && MATCH_FIELDS.some((field) => field in changes);
+
+  await supabase
+    .from("source_leads")
+    .update({
+      ...changes,
+      raw_data: { ...(existing.raw_data || {}), ...rawData },
+      ...(requeue ? { match_status: "pending", ai_matched_at: null } : {}),
+    })
+    .eq("id", sourceLeadId);
+
+  await supabase.from("data_lineage").insert({
+    source_table: "raw_lead_rows",
+    source_id: rawRowId,
+    target_table: "source_leads",
+    target_id: sourceLeadId,
+    operation: "update",
+    transformation_type: "dedupe",
+    transformation_details: {
+      duplicate_key: duplicateKey,
+      changed_fields: Object.keys(changes),
+      previous: Object.fromEntries(Object.keys(changes).map((field) => [field, existing[field]])),
+    },
+    performed_by: "function:lead-transformer",
+  });
+
+  return requeue ? "requeued" : "updated";
 }
 
 /**
@@ -0,0 +1,156 @@
+/**
+ * Match Dispute Edge Function
+ *
+ * Lets users dispute a lead match and admins resolve the dispute by
+ * dismissing it, invalidating the match, re-attributing it to another
+ * FUB lead or reopening the source lead for matching.
+ */
+
+import { serve } from "https://deno.land/std@0.208.0/http/server.ts";
+import { corsHeaders, handleCors, jsonResponse, errorResponse } from "../_shared/cors.ts";
+import { createServiceClient, createUserClient, getUserFromHeader } from "../_shared/supabase.ts";
+import { DisputeResolution, disputeMatch, resolveDispute } from "../_shared/matching.ts";
+
+interface DisputeRequest {
+  action: "dispute" | "resolve";
+  // dispute
+  match_id?: string;
+  source_lead_id?: string;
+  reason?: string;
+  // resolve
+  dispute_id?: string;
+  resolution?: DisputeResolution;
+  fub_lead_id?: string; // fub_leads.id
+  fub_person_id?: number; // FUB's own person ID, as shown in the FUB UI
+  notes?: string;
+}
+
+const RESOLUTIONS: DisputeResolution[] = ["dismiss", "invalidate", "reattribute", "reopen"];
+
+serve(async (req: Request) => {
+  // Handle CORS
+  const corsResponse = handleCors(req);
+  if (corsResponse) return corsResponse;
+
+  try {
+    const authHeader = req.headers.get("Authorization");
+    const userClient = createUserClient(authHeader);
+
+    const user = await getUserFromHeader(userClient, authHeader);
+    if (!user) {
+      return errorResponse("Unauthorized", 401);
+    }
+
+    const body = (await req.json()) as DisputeRequest;
+    const supabase = createServiceClient();
+
+    if (body.action === "dispute") {
+      if (!body.reason?.trim()) {
+        return errorResponse("Missing reason", 400);
+      }
+
+      let matchId = body.match_id;
+
+      if (!matchId && body.source_lead_id) {
+        // Dispute whatever the source lead is currently attributed to
+        const { data: match } = await supabase
+          .from("lead_matches")
+          .select("id")
+          .eq("source_lead_id", body.source_lead_id)
+          .eq("status", "active")
+          .maybeSingle();
+
+        matchId = match?.id;
+      }
+
+      if (!matchId) {
+        return errorResponse("Active match not found", 404);
+      }
+
+      const disputeId = await disputeMatch(supabase, matchId, user.id, body.reason);
+
+      return jsonResponse({
+        success: true,
+        dispute_id: disputeId,
+        match_id: matchId,
+        status: "open",
+      });
+    }
+
+    if (body.action === "resolve") {
+      if (user.role !== "admin") {
+        return errorResponse("Only admins can resolve disputes", 403);
+      }
+
+      if (!body.dispute_id) {
+        return errorResponse("Missing dispute_id", 400);
+      }
+
+      if (!body.resolution || !RESOLUTIONS.includes(body.resolution)) {
+        return errorResponse(`Unknown resolution: ${body.resolution}`, 400);
+      }
+
+      let fubLeadId = body.fub_lead_id;
+
+      if (body.resolution === "reattribute" && !fubLeadId && body.fub_person_id) {
+        fubLeadId = await findFubLeadByPersonId(supabase, body.dispute_id, body.fub_person_id);
+
+        if (!fubLeadId) {
+          return errorResponse(`FUB person ${body.fub_person_id} not found`, 404);
+        }
+      }
+
+      await resolveDispute(supabase, body.dispute_id, user.id, body.resolution, {
+        fubLeadId,
+        notes: body.notes?.trim() || undefined,
+      });
+
+      return jsonResponse({
+        success: true,
+        dispute_id: body.dispute_id,
+        status: "resolved",
+        resolution: body.resolution,
+      });
+    }
+
+    return errorResponse(`Unknown action: ${body.action}`, 400);
+  } catch (error) {
+    console.error("Match dispute error:", error);
+    return errorResponse(
+      error instanceof Error ? error.message : "Unknown error",
+      500
+    );
+  }
+});
+
+/**
+ * Look up a synced FUB lead by its FUB person ID in the dispute's organization
+ */
+async function findFubLeadByPersonId(
+  supabase: ReturnType<typeof createServiceClient>,
+  disputeId: string,
+  fubPersonId: number
+): Promise<string | undefined> {
+  const { data: dispute } = await supabase
+    .from("match_disputes")
+    .select("source_leads(organization_id)")
+    .eq("id", disputeId)
+    .single();
+
+  const organizationId = (dispute?.source_leads as { organization_id: string } | null)
+    ?.organization_id;
+
+  if (!organizationId) {
+    return undefined;
+  }
+
+  const { data: fubLead } = await supabase
+    .from("fub_leads")
+    .select("id")
+    .eq("organization_id", organizationId)
+    .eq("fub_lead_id", fubPersonId)
+    .limit(1)
+    .maybeSingle();
+
+  return fubLead?.id;
+}
@@ -0,0 +1,181 @@
+/**
+ * Match Expiry Edge Function
+ *
+ * Expires pending match_candidates past their expires_at, releases the
+ * affected source_leads and optionally re-runs matching against the current
+ * FUB data. Counts are reported per organization as a match_review insight.
+ * Designed to be called on a cron schedule (daily).
+ */
+
+import { serve } from "https://deno.land/std@0.208.0/http/server.ts";
+import { corsHeaders, handleCors, jsonResponse, errorResponse } from "../_shared/cors.ts";
+import { createServiceClient } from "../_shared/supabase.ts";
+import { findMatches, processMatches } from "../_shared/matching.ts";
+
+interface ExpiryRequest {
+  organization_id?: string;
+  rematch?: boolean;
+}
+
+interface ExpiredLead {
+  source_lead_id: string;
+  organization_id: string;
+  expired_count: number;
+  lead_released: boolean;
+}
+
+interface OrganizationReport {
+  expired_candidates: number;
+  leads_affected: number;
+  leads_released: number;
+  rematched: {
+    matched: number;
+    review: number;
+    unmatched: number;
+    errors: number;
+  };
+}
+
+serve(async (req: Request) => {
+  // Handle CORS
+  const corsResponse = handleCors(req);
+  if (corsResponse) return corsResponse;
+
+  try {
+    const body = (await req.json().catch(() => ({}))) as ExpiryRequest;
+    const supabase = createServiceClient();
+    const rematch = body.rematch ?? true;
+    const runAt = new Date().toISOString();
+
+    const { data, error } = await supabase.rpc("expire_match_candidates", {
+      p_organization_id: body.organization_id || null,
+      p_requeue: rematch,
+    });
+
+    if (error) {
+      return errorResponse(`Failed to expire candidates: ${error.message}`, 500);
+    }
+
+    const expiredLeads = (data || []) as ExpiredLead[];
+
+    if (expiredLeads.length === 0) {
+      return jsonResponse({
+        success: true,
+        message: "No stale candidates to expire",
+        expired_candidates: 0,
+      });
+    }
+
+    const reports = new Map<string, OrganizationReport>();
+
+    for (const lead of expiredLeads) {
+      let report = reports.get(lead.organization_id);
+
+      if (!report) {
+        report = {
+          expired_candidates: 0,
+          leads_affected: 0,
+          leads_released: 0,
+          rematched: { matched: 0, review: 0, unmatched: 0, errors: 0 },
+        };
+        reports.set(lead.organization_id, report);
+      }
+
+      report.expired_candidates += lead.expired_count;
+      report.leads_affected++;
+
+      if (!lead.lead_released) continue;
+      report.leads_released++;
+
+      if (!rematch) continue;
+
+      // Released leads are back in 'pending'; match them now rather than
+      // waiting for the next lead-matcher run
+      try {
+        const { data: sourceLead } = await supabase
+          .from("source_leads")
+          .select("lead_source_id")
+          .eq("id", lead.source_lead_id)
+          .single();
+
+        const matches = await findMatches(supabase, lead.source_lead_id);
+        const result = await processMatches(
+          supabase,
+          lead.source_lead_id,
+          matches,
+          lead.organization_id,
+          sourceLead?.lead_source_id
+        );
+
+        if (result.matched) {
+          report.rematched.matched++;
+        } else if (result.candidatesCreated > 0) {
+          report.rematched.review++;
+        } else {
+          report.rematched.unmatched++;
+        }
+      } catch (err) {
+        console.error(`Error re-matching lead ${lead.source_lead_id}:`, err);
+        report.rematched.errors++;
+      }
+    }
+
+    for (const [organizationId, report] of reports) {
+      await saveReport(supabase, organizationId, report, rematch, runAt);
+    }
+
+    return jsonResponse({
+      success: true,
+      rematch,
+      organizations: Object.fromEntries(reports),
+    });
+  } catch (error) {
+    console.error("Match expiry error:", error);
+    return errorResponse(
+      error instanceof Error ? error.message : "Unknown error",
+      500
+    );
+  }
+});
+
+/**
+ * Record the expiry run as a match_review insight
+ */
+async function saveReport(
+  supabase: ReturnType<typeof createServiceClient>,
+  organizationId: string,
+  report: OrganizationReport,
+  rematch: boolean,
+  runAt: string
+): Promise<void> {
+  const plural = (n: number, word: string) => `${n} ${word}${n === 1 ? "" : "s"}`;
+
+  let summary =
+    `${plural(report.expired_candidates, "match candidate")} for ` +
+    `${plural(report.leads_affected, "lead")} expired without a review decision.`;
+
+  if (rematch) {
+    const { matched, review, unmatched } = report.rematched;
+    summary +=
+      ` ${report.leads_released} were re-matched against current Follow Up Boss data: ` +
+      `${matched} matched automatically, ${review} queued for review and ${unmatched} left unmatched.`;
+  } else {
+    summary += ` ${plural(report.leads_released, "lead")} moved back to unmatched.`;
+  }
+
+  const { error } = await supabase.from("ai_insights").insert({
+    organization_id: organizationId,
+    insight_type: "match_review",
+    scope_type: "organization",
+    scope_id: organizationId,
+    title: `${plural(report.expired_candidates, "stale match candidate")} expired`,
+    summary,
+    details: { ...report, rematch },
+    period_end: runAt,
+    is_actionable: rematch && report.rematched.review > 0,
+  });
+
+  if (error) {
+    console.error("Failed to save expiry report:", error);
+  }
+}
@@ -0,0 +1,127 @@
+/**
+ * Match Review Edge Function
+ *
+ * Persists reviewer decisions on match_candidates from the Matches page.
+ * Approvals create lead_matches; rejections close out the candidate.
+ * Accepts a single candidate_id or a candidate_ids array for bulk review.
+ */
+
+import { serve } from "https://deno.land/std@0.208.0/http/server.ts";
+import { corsHeaders, handleCors, jsonResponse, errorResponse } from "../_shared/cors.ts";
+import { createServiceClient, createUserClient, getUserFromHeader } from "../_shared/supabase.ts";
+import { approveCandidate, rejectCandidate } from "../_shared/matching.ts";
+
+interface ReviewRequest {
+  action: "approve" | "reject";
+  candidate_id?: string;
+  candidate_ids?: string[];
+  notes?: string;
+}
+
+interface ReviewResult {
+  candidate_id: string;
+  success: boolean;
+  status?: "approved" | "rejected";
+  match_id?: string;
+  error?: string;
+}
+
+// Upper bound for one bulk request; the UI sends larger selections in chunks
+const MAX_BULK_CANDIDATES = 200;
+
+serve(async (req: Request) => {
+  // Handle CORS
+  const corsResponse = handleCors(req);
+  if (corsResponse) return corsResponse;
+
+  try {
+    const authHeader = req.headers.get("Authorization");
+    const userClient = createUserClient(authHeader);
+
+    // Decisions are attributed to the signed-in reviewer
+    const user = await getUserFromHeader(userClient, authHeader);
+    if (!user) {
+      return errorResponse("Unauthorized", 401);
+    }
+
+    const body = (await req.json()) as ReviewRequest;
+
+    if (body.action !== "approve" && body.action !== "reject") {
+      return errorResponse(`Unknown action: ${body.action}`, 400);
+    }
+
+    const notes = body.notes?.trim() || undefined;
+    const supabase = createServiceClient();
+
+    if (body.candidate_ids) {
+      if (body.candidate_ids.length === 0) {
+        return errorResponse("Missing candidate_ids", 400);
+      }
+
+      if (body.candidate_ids.length > MAX_BULK_CANDIDATES) {
+        return errorResponse(`At most ${MAX_BULK_CANDIDATES} candidates per request`, 400);
+      }
+
+      // Each candidate is its own transaction; one failure does not stop the rest
+      const results: ReviewResult[] = [];
+
+      for (const candidateId of body.candidate_ids) {
+        results.push(await review(supabase, body.action, candidateId, user.id, notes));
+      }
+
+      const succeeded = results.filter((r) => r.success).length;
+
+      return jsonResponse({
+        success: succeeded === results.length,
+        succeeded,
+        failed: results.length - succeeded,
+        results,
+      });
+    }
+
+    if (!body.candidate_id) {
+      return errorResponse("Missing candidate_id", 400);
+    }
+
+    const result = await review(supabase, body.action, body.candidate_id, user.id, notes);
+
+    if (!result.success) {
+      return errorResponse(result.error || `Failed to ${body.action} candidate`, 500);
+    }
+
+    return jsonResponse(result);
+  } catch (error) {
+    console.error("Match review error:", error);
+    return errorResponse(
+      error instanceof Error ? error.message : "Unknown error",
+      500
+    );
+  }
+});
+
+/**
+ * Apply one review decision
+ */
+async function review(
+  supabase: ReturnType<typeof createServiceClient>,
+  action: "approve" | "reject",
+  candidateId: string,
+  reviewerId: string,
+  notes?: string
+): Promise<ReviewResult> {
+  try {
+    if (action === "approve") {
+      const matchId = await approveCandidate(supabase, candidateId, reviewerId, notes);
+      return { candidate_id: candidateId, success: true, status: "approved", match_id: matchId };
+    }
+
+    await rejectCandidate(supabase, candidateId, reviewerId, notes);
+    return { candidate_id: candidateId, success: true, status: "rejected" };
+  } catch (err) {
+    return {
+      candidate_id: candidateId,
+      success: false,
+      error: err instanceof Error ? err.message : "Unknown error",
+    };
+  }
+}
@@ -0,0 +1,165 @@
+-- Migration: Transactional match creation
+-- Description: RPC functions that create lead_matches and update related rows atomically
+
+-- ============================================
+-- CREATE LEAD MATCH
+-- ============================================
+
+-- Shared by auto-matching and candidate approval. Resolves attribution from the
+-- FUB assignee, inserts the match, marks the source lead matched, closes out
+-- competing candidates and records lineage in one transaction.
+create or replace function create_lead_match(
+  p_source_lead_id uuid,
+  p_fub_lead_id uuid,
+  p_match_type text,
+  p_confidence numeric,
+  p_match_details jsonb default '{}',
+  p_matched_by text default 'system',
+  p_matched_by_user_id uuid default null
+)
+returns uuid language plpgsql as $$
+declare
+  v_fub fub_leads%rowtype;
+  v_agent_id uuid;
+  v_team_id uuid;
+  v_match_id uuid;
+begin
+  select * into v_fub from fub_leads where id = p_fub_lead_id;
+
+  if v_fub.id is null then
+    raise exception 'FUB lead % not found', p_fub_lead_id;
+  end if;
+
+  -- Find agent by FUB user ID within the same organization
+  if v_fub.assigned_user_id is not null then
+    select a.id, a.team_id into v_agent_id, v_team_id
+    from agents a
+    join teams t on t.id = a.team_id
+    where a.fub_user_id = v_fub.assigned_user_id
+      and t.organization_id = v_fub.organization_id
+    order by (a.status = 'active') desc, a.created_at
+    limit 1;
+  end if;
+
+  insert into lead_matches (
+    source_lead_id,
+    fub_lead_id,
+    match_type,
+    match_confidence,
+    match_details,
+    matched_by,
+    matched_by_user_id,
+    attributed_agent_id,
+    attributed_team_id
+  ) values (
+    p_source_lead_id,
+    p_fub_lead_id,
+    p_match_type,
+    p_confidence,
+    coalesce(p_match_details, '{}'),
+    p_matched_by,
+    p_matched_by_user_id,
+    v_agent_id,
+    v_team_id
+  )
+  returning id into v_match_id;
+
+  update source_leads
+  set match_status = 'matched',
+      match_confidence = p_confidence,
+      matched_at = now()
+  where id = p_source_lead_id;
+
+  -- Other pending candidates for this lead are no longer relevant
+  update match_candidates
+  set status = 'rejected',
+      reviewed_by = p_matched_by_user_id,
+      reviewed_at = now()
+  where source_lead_id = p_source_lead_id
+    and fub_lead_id != p_fub_lead_id
+    and status = 'pending';
+
+  insert into data_lineage (
+    source_table,
+    source_id,
+    target_table,
+    target_id,
+    operation,
+    transformation_type,
+    transformation_details,
+    performed_by
+  ) values (
+    'source_leads',
+    p_source_lead_id,
+    'lead_matches',
+    v_match_id,
+    'create',
+    'match',
+    jsonb_build_object(
+      'match_type', p_match_type,
+      'confidence', p_confidence,
+      'auto_matched', p_matched_by = 'system'
+    ),
+    case
+      when p_matched_by_user_id is not null then 'user:' || p_matched_by_user_id
+      else p_matched_by
+    end
+  );
+
+  return v_match_id;
+end;
+$$;
+
+-- ============================================
+-- APPROVE MATCH CANDIDATE
+-- ============================================
+
+create or replace function approve_match_candidate(
+  p_candidate_id uuid,
+  p_reviewer uuid,
+  p_notes text default null
+)
+returns uuid language plpgsql as $$
+declare
+  v_candidate match_candidates%rowtype;
+  v_match_id uuid;
+begin
+  -- Lock the candidate so concurrent reviewers cannot both approve it
+  select * into v_candidate
+  from match_candidates
+  where id = p_candidate_id
+  for update;
+
+  if v_candidate.id is null then
+    raise exception 'Candidate % not found', p_candidate_id;
+  end if;
+
+  if v_candidate.status != 'pending' then
+    raise exception 'Candidate % already %', p_candidate_id, v_candidate.status;
+  end if;
+
+  v_match_id := create_lead_match(
+    v_candidate.source_lead_id,
+    v_candidate.fub_lead_id,
+    'manual',
+    v_candidate.confidence_score,
+    jsonb_build_object(
+      'reasons', v_candidate.match_reasons,
+      'approved_from_candidate', true,
+      'candidate_id', v_candidate.id
+    ),
+    'manual',
+    p_reviewer
+  );
+
+  update match_candidates
+  set status = 'approved',
+      reviewed_by = p_reviewer,
+      reviewed_at = now(),
+      review_notes = p_notes,
+      lead_match_id = v_match_id
+  where id = p_candidate_id;
+
+  return v_match_id;
+end;
+$$;
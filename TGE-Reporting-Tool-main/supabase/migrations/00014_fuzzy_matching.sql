@@ -0,0 +1,281 @@
+-- Migration: Fuzzy matching tiers
+-- Description: Name + address, fuzzy email and fuzzy phone signals for find_fub_matches
+
+-- ============================================
+-- UTILITY FUNCTIONS
+-- ============================================
+
+-- Canonical email: lowercased with any plus-alias removed from the local part
+create or replace function canonical_email(email text)
+returns text language plpgsql immutable as $$
+begin
+  if email is null or position('@' in email) = 0 then
+    return null;
+  end if;
+
+  return regexp_replace(split_part(lower(trim(email)), '@', 1), '\+.*$', '')
+    || '@' || split_part(lower(trim(email)), '@', 2);
+end;
+$$;
+
+-- Full name used for name comparison
+create or replace function normalize_person_name(first_name text, last_name text, full_name text default null)
+returns text language plpgsql immutable as $$
+declare
+  result text;
+begin
+  result := nullif(trim(coalesce(first_name, '') || ' ' || coalesce(last_name, '')), '');
+  result := lower(coalesce(result, trim(full_name)));
+  result := regexp_replace(result, '[^a-z ]', '', 'g');
+  result := regexp_replace(result, '\s+', ' ', 'g');
+  return nullif(trim(result), '');
+end;
+$$;
+
+-- Every number that is the given one with two adjacent digits swapped, so
+-- transposed phones can be found by equality on an indexed expression
+create or replace function phone_transpositions(phone text)
+returns text[] language plpgsql immutable as $$
+declare
+  i int;
+  result text[] := '{}';
+begin
+  if phone is null then
+    return result;
+  end if;
+
+  for i in 1..length(phone) - 1 loop
+    if substr(phone, i, 1) != substr(phone, i + 1, 1) then
+      result := result || (
+        substr(phone, 1, i - 1) || substr(phone, i + 1, 1) || substr(phone, i, 1) || substr(phone, i + 2)
+      );
+    end if;
+  end loop;
+
+  return result;
+end;
+$$;
+
+-- Indexes for the fuzzy tiers. Each tier filters with = or % on one of
+-- these expressions so it never scans every FUB lead in the organization.
+create index if not exists idx_fub_leads_email_canonical on fub_leads(canonical_email(email))
+  where email is not null;
+create index if not exists idx_fub_leads_email_trgm on fub_leads
+  using gin (canonical_email(email) gin_trgm_ops)
+  where email is not null;
+create index if not exists idx_fub_leads_phone_last10 on fub_leads(right(phone_normalized, 10))
+  where phone_normalized is not null;
+create index if not exists idx_fub_leads_phone_last7 on fub_leads(right(phone_normalized, 7))
+  where phone_normalized is not null;
+create index if not exists idx_fub_leads_name on fub_leads
+  using gin (normalize_person_name(first_name, last_name) gin_trgm_ops);
+
+-- ============================================
+-- MATCHING FUNCTION
+-- ============================================
+
+create or replace function find_fub_matches(
+  p_source_lead_id uuid,
+  p_max_results int default 5
+)
+returns table (
+  fub_lead_id uuid,
+  match_type text,
+  confidence numeric,
+  match_details jsonb
+) language plpgsql as $$
+declare
+  v_source source_leads%rowtype;
+  v_email_canonical text;
+  v_email_local text;
+  v_email_domain text;
+  v_phone text;
+  v_name text;
+begin
+  select * into v_source from source_leads where id = p_source_lead_id;
+
+  if v_source.id is null then
+    return;
+  end if;
+
+  -- Trigram tiers filter with % (index-backed) at this similarity, then
+  -- apply their own cutoffs
+  perform set_config('pg_trgm.similarity_threshold', '0.5', true);
+
+  v_email_canonical := canonical_email(v_source.email_normalized);
+  v_email_local := split_part(v_email_canonical, '@', 1);
+  v_email_domain := split_part(v_email_canonical, '@', 2);
+  v_phone := right(v_source.phone_normalized, 10);
+  v_name := normalize_person_name(v_source.first_name, v_source.last_name, v_source.full_name);
+
+  return query
+  with matches as (
+    -- Exact email match (highest confidence)
+    select
+      f.id as fub_lead_id,
+      'email_exact'::text as match_type,
+      1.0::numeric as confidence,
+      jsonb_build_object('matched_email', v_source.email_normalized) as match_details
+    from fub_leads f
+    where f.organization_id = v_source.organization_id
+      and f.email_normalized = v_source.email_normalized
+      and v_source.email_normalized is not null
+      and v_source.email_normalized != ''
+
+    union all
+
+    -- Exact phone match
+    select
+      f.id,
+      'phone_exact',
+      0.95,
+      jsonb_build_object('matched_phone', v_source.phone_normalized)
+    from fub_leads f
+    where f.organization_id = v_source.organization_id
+      and f.phone_normalized = v_source.phone_normalized
+      and v_source.phone_normalized is not null
+      and length(v_source.phone_normalized) >= 10
+
+    union all
+
+    -- Address fuzzy match
+    select
+      f.id,
+      'address_fuzzy',
+      similarity(f.address_normalized, v_source.property_address_normalized)::numeric,
+      jsonb_build_object(
+        'source_address', v_source.property_address_normalized,
+        'fub_address', f.address_normalized,
+        'similarity', similarity(f.address_normalized, v_source.property_address_normalized)
+      )
+    from fub_leads f
+    where f.organization_id = v_source.organization_id
+      and v_source.property_address_normalized is not null
+      and v_source.property_address_normalized != ''
+      and f.address_normalized % v_source.property_address_normalized
+      and similarity(f.address_normalized, v_source.property_address_normalized) > 0.6
+
+    union all
+
+    -- Fuzzy email: plus-aliases or a small typo in the local part or domain
+    select
+      e.id,
+      'email_fuzzy',
+      case
+        when e.fub_canonical = v_email_canonical then 0.9
+        when e.distance = 1 then 0.8
+        else 0.7
+      end::numeric,
+      jsonb_build_object(
+        'source_email', v_source.email_normalized,
+        'fub_email', e.email_normalized,
+        'reason', case when e.fub_canonical = v_email_canonical then 'plus_alias' else 'typo' end,
+        'levenshtein', e.distance,
+        'similarity', similarity(e.email_normalized, v_source.email_normalized)
+      )
+    from (
+      select
+        f.id,
+        f.email_normalized,
+        canonical_email(f.email) as fub_canonical,
+        levenshtein(canonical_email(f.email), v_email_canonical) as distance
+      from fub_leads f
+      where f.organization_id = v_source.organization_id
+        and f.email is not null
+        and f.email_normalized != v_source.email_normalized
+        and (
+          canonical_email(f.email) = v_email_canonical
+          or canonical_email(f.email) % v_email_canonical
+        )
+    ) e
+    where v_email_canonical is not null
+      and e.distance <= 2
+      and (
+        split_part(e.fub_canonical, '@', 2) = v_email_domain
+        or split_part(e.fub_canonical, '@', 1) = v_email_local
+      )
+
+    union all
+
+    -- Fuzzy phone: country code difference, transposed digits or same last 7 digits
+    select
+      p.id,
+      'phone_fuzzy',
+      case p.reason
+        when 'country_code' then 0.9
+        when 'transposed' then 0.75
+        else 0.65
+      end::numeric,
+      jsonb_build_object(
+        'source_phone', v_source.phone_normalized,
+        'fub_phone', p.phone_normalized,
+        'reason', p.reason,
+        'levenshtein', levenshtein(right(p.phone_normalized, 10), v_phone)
+      )
+    from (
+      select
+        f.id,
+        f.phone_normalized,
+        case
+          when right(f.phone_normalized, 10) = v_phone then 'country_code'
+          when right(f.phone_normalized, 10) = any(phone_transpositions(v_phone)) then 'transposed'
+          else 'last_7'
+        end as reason
+      from fub_leads f
+      where f.organization_id = v_source.organization_id
+        and f.phone_normalized is not null
+        and length(f.phone_normalized) >= 10
+        and f.phone_normalized != v_source.phone_normalized
+        and (
+          right(f.phone_normalized, 10) = v_phone
+          or right(f.phone_normalized, 10) = any(phone_transpositions(v_phone))
+          or right(f.phone_normalized, 7) = right(v_phone, 7)
+        )
+    ) p
+    where v_phone is not null
+      and length(v_phone) = 10
+
+    union all
+
+    -- Name + address composite
+    select
+      n.id,
+      'name_address',
+      least(0.92, round((n.name_similarity + n.address_similarity) / 2, 4))::numeric,
+      jsonb_build_object(
+        'source_name', v_name,
+        'fub_name', n.fub_name,
+        'name_similarity', n.name_similarity,
+        'name_levenshtein', levenshtein(left(n.fub_name, 255), left(v_name, 255)),
+        'source_address', v_source.property_address_normalized,
+        'fub_address', n.address_normalized,
+        'address_similarity', n.address_similarity
+      )
+    from (
+      select
+        f.id,
+        f.address_normalized,
+        normalize_person_name(f.first_name, f.last_name) as fub_name,
+        similarity(normalize_person_name(f.first_name, f.last_name), v_name)::numeric as name_similarity,
+        similarity(f.address_normalized, v_source.property_address_normalized)::numeric as address_similarity
+      from fub_leads f
+      where f.organization_id = v_source.organization_id
+        and f.address_normalized % v_source.property_address_normalized
+        and normalize_person_name(f.first_name, f.last_name) % v_name
+    ) n
+    where v_name is not null
+      and v_source.property_address_normalized is not null
+      and v_source.property_address_normalized != ''
+      and n.name_similarity >= 0.5
+      and n.address_similarity >= 0.5
+  )
+  select distinct on (m.fub_lead_id)
+    m.fub_lead_id,
+    m.match_type,
+    m.confidence,
+    m.match_details
+  from matches m
+  order by m.fub_lead_id, m.confidence desc
+  limit p_max_results;
+end;
+$$;
@@ -0,0 +1,276 @@
+-- Migration: Configurable match scoring
+-- Description: Per-organization thresholds and weights with per-source overrides
+
+-- ============================================
+-- MATCH CONFIGURATION
+-- ============================================
+
+-- Per-source overrides; merged over organizations.settings->'matching'
+alter table lead_sources add column if not exists matching_config jsonb default '{}';
+
+-- Effective matching config for an organization and (optionally) a lead source.
+-- Shape:
+--   {
+--     "auto_match_enabled": true,
+--     "thresholds": { "auto_match": 0.9, "review": 0.6, "reject": 0.4 },
+--     "weights": { "<match_type>": <multiplier> }
+--   }
+create or replace function get_match_config(
+  p_organization_id uuid,
+  p_lead_source_id uuid default null
+)
+returns jsonb language plpgsql stable as $$
+declare
+  v_defaults jsonb := '{
+    "auto_match_enabled": true,
+    "thresholds": { "auto_match": 0.9, "review": 0.6, "reject": 0.4 },
+    "weights": {}
+  }';
+  v_org jsonb;
+  v_source jsonb;
+begin
+  select settings->'matching' into v_org from organizations where id = p_organization_id;
+  select matching_config into v_source from lead_sources where id = p_lead_source_id;
+
+  v_org := coalesce(v_org, '{}');
+  v_source := coalesce(v_source, '{}');
+
+  return v_defaults || v_org || v_source || jsonb_build_object(
+    'thresholds',
+    (v_defaults->'thresholds')
+      || coalesce(v_org->'thresholds', '{}')
+      || coalesce(v_source->'thresholds', '{}'),
+    'weights',
+    coalesce(v_org->'weights', '{}') || coalesce(v_source->'weights', '{}')
+  );
+end;
+$$;
+
+-- ============================================
+-- MATCHING FUNCTION
+-- ============================================
+
+-- Each signal's confidence is scaled by the configured weight for its match type
+create or replace function find_fub_matches(
+  p_source_lead_id uuid,
+  p_max_results int default 5
+)
+returns table (
+  fub_lead_id uuid,
+  match_type text,
+  confidence numeric,
+  match_details jsonb
+) language plpgsql as $$
+declare
+  v_source source_leads%rowtype;
+  v_email_canonical text;
+  v_email_local text;
+  v_email_domain text;
+  v_phone text;
+  v_name text;
+  v_weights jsonb;
+begin
+  select * into v_source from source_leads where id = p_source_lead_id;
+
+  if v_source.id is null then
+    return;
+  end if;
+
+  -- Trigram signals filter with % (index-backed) at this similarity, then
+  -- apply their own cutoffs
+  perform set_config('pg_trgm.similarity_threshold', '0.5', true);
+
+  v_email_canonical := canonical_email(v_source.email_normalized);
+  v_email_local := split_part(v_email_canonical, '@', 1);
+  v_email_domain := split_part(v_email_canonical, '@', 2);
+  v_phone := right(v_source.phone_normalized, 10);
+  v_name := normalize_person_name(v_source.first_name, v_source.last_name, v_source.full_name);
+  v_weights := get_match_config(v_source.organization_id, v_source.lead_source_id)->'weights';
+
+  return query
+  with matches as (
+    -- Exact email match (highest confidence)
+    select
+      f.id as fub_lead_id,
+      'email_exact'::text as match_type,
+      1.0::numeric as confidence,
+      jsonb_build_object('matched_email', v_source.email_normalized) as match_details
+    from fub_leads f
+    where f.organization_id = v_source.organization_id
+      and f.email_normalized = v_source.email_normalized
+      and v_source.email_normalized is not null
+      and v_source.email_normalized != ''
+
+    union all
+
+    -- Exact phone match
+    select
+      f.id,
+      'phone_exact',
+      0.95,
+      jsonb_build_object('matched_phone', v_source.phone_normalized)
+    from fub_leads f
+    where f.organization_id = v_source.organization_id
+      and f.phone_normalized = v_source.phone_normalized
+      and v_source.phone_normalized is not null
+      and length(v_source.phone_normalized) >= 10
+
+    union all
+
+    -- Address fuzzy match
+    select
+      f.id,
+      'address_fuzzy',
+      similarity(f.address_normalized, v_source.property_address_normalized)::numeric,
+      jsonb_build_object(
+        'source_address', v_source.property_address_normalized,
+        'fub_address', f.address_normalized,
+        'similarity', similarity(f.address_normalized, v_source.property_address_normalized)
+      )
+    from fub_leads f
+    where f.organization_id = v_source.organization_id
+      and v_source.property_address_normalized is not null
+      and v_source.property_address_normalized != ''
+      and f.address_normalized % v_source.property_address_normalized
+      and similarity(f.address_normalized, v_source.property_address_normalized) > 0.6
+
+    union all
+
+    -- Fuzzy email: plus-aliases or a small typo in the local part or domain
+    select
+      e.id,
+      'email_fuzzy',
+      case
+        when e.fub_canonical = v_email_canonical then 0.9
+        when e.distance = 1 then 0.8
+        else 0.7
+      end::numeric,
+      jsonb_build_object(
+        'source_email', v_source.email_normalized,
+        'fub_email', e.email_normalized,
+        'reason', case when e.fub_canonical = v_email_canonical then 'plus_alias' else 'typo' end,
+        'levenshtein', e.distance,
+        'similarity', similarity(e.email_normalized, v_source.email_normalized)
+      )
+    from (
+      select
+        f.id,
+        f.email_normalized,
+        canonical_email(f.email) as fub_canonical,
+        levenshtein(canonical_email(f.email), v_email_canonical) as distance
+      from fub_leads f
+      where f.organization_id = v_source.organization_id
+        and f.email is not null
+        and f.email_normalized != v_source.email_normalized
+        and (
+          canonical_email(f.email) = v_email_canonical
+          or canonical_email(f.email) % v_email_canonical
+        )
+    ) e
+    where v_email_canonical is not null
+      and e.distance <= 2
+      and (
+        split_part(e.fub_canonical, '@', 2) = v_email_domain
+        or split_part(e.fub_canonical, '@', 1) = v_email_local
+      )
+
+    union all
+
+    -- Fuzzy phone: country code difference, transposed digits or same last 7 digits
+    select
+      p.id,
+      'phone_fuzzy',
+      case p.reason
+        when 'country_code' then 0.9
+        when 'transposed' then 0.75
+        else 0.65
+      end::numeric,
+      jsonb_build_object(
+        'source_phone', v_source.phone_normalized,
+        'fub_phone', p.phone_normalized,
+        'reason', p.reason,
+        'levenshtein', levenshtein(right(p.phone_normalized, 10), v_phone)
+      )
+    from (
+      select
+        f.id,
+        f.phone_normalized,
+        case
+          when right(f.phone_normalized, 10) = v_phone then 'country_code'
+          when right(f.phone_normalized, 10) = any(phone_transpositions(v_phone)) then 'transposed'
+          else 'last_7'
+        end as reason
+      from fub_leads f
+      where f.organization_id = v_source.organization_id
+        and f.phone_normalized is not null
+        and length(f.phone_normalized) >= 10
+        and f.phone_normalized != v_source.phone_normalized
+        and (
+          right(f.phone_normalized, 10) = v_phone
+          or right(f.phone_normalized, 10) = any(phone_transpositions(v_phone))
+          or right(f.phone_normalized, 7) = right(v_phone, 7)
+        )
+    ) p
+    where v_phone is not null
+      and length(v_phone) = 10
+
+    union all
+
+    -- Name + address composite
+    select
+      n.id,
+      'name_address',
+      least(0.92, round((n.name_similarity + n.address_similarity) / 2, 4))::numeric,
+      jsonb_build_object(
+        'source_name', v_name,
+        'fub_name', n.fub_name,
+        'name_similarity', n.name_similarity,
+        'name_levenshtein', levenshtein(left(n.fub_name, 255), left(v_name, 255)),
+        'source_address', v_source.property_address_normalized,
+        'fub_address', n.address_normalized,
+        'address_similarity', n.address_similarity
+      )
+    from (
+      select
+        f.id,
+        f.address_normalized,
+        normalize_person_name(f.first_name, f.last_name) as fub_name,
+        similarity(normalize_person_name(f.first_name, f.last_name), v_name)::numeric as name_similarity,
+        similarity(f.address_normalized, v_source.property_address_normalized)::numeric as address_similarity
+      from fub_leads f
+      where f.organization_id = v_source.organization_id
+        and f.address_normalized % v_source.property_address_normalized
+        and normalize_person_name(f.first_name, f.last_name) % v_name
+    ) n
+    where v_name is not null
+      and v_source.property_address_normalized is not null
+      and v_source.property_address_normalized != ''
+      and n.name_similarity >= 0.5
+      and n.address_similarity >= 0.5
+  ),
+  weighted as (
+    select
+      m.fub_lead_id,
+      m.match_type,
+      least(1, round(m.confidence * coalesce((v_weights->>m.match_type)::numeric, 1), 4)) as confidence,
+      m.match_details || jsonb_build_object(
+        'base_confidence', m.confidence,
+        'weight', coalesce((v_weights->>m.match_type)::numeric, 1)
+      ) as match_details
+    from matches m
+  ),
+  best as (
+    select distinct on (w.fub_lead_id)
+      w.fub_lead_id,
+      w.match_type,
+      w.confidence,
+      w.match_details
+    from weighted w
+    order by w.fub_lead_id, w.confidence desc
+  )
+  select b.fub_lead_id, b.match_type, b.confidence, b.match_details
+  from best b
+  order by b.confidence desc
+  limit p_max_results;
+end;
+$$;
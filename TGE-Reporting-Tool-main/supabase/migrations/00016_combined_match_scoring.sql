@@ -0,0 +1,309 @@
+-- Migration: Combined match scoring
+-- Description: find_fub_matches combines every signal into one explained confidence
+
+-- ============================================
+-- MATCHING FUNCTION
+-- ============================================
+
+-- Each signal (email, phone, address, name, embedding) becomes a MatchReason in
+-- match_details.reasons. The strongest signal per field is weighted and the
+-- fields are combined as independent evidence.
+create or replace function find_fub_matches(
+  p_source_lead_id uuid,
+  p_max_results int default 5
+)
+returns table (
+  fub_lead_id uuid,
+  match_type text,
+  confidence numeric,
+  match_details jsonb
+) language plpgsql as $$
+declare
+  v_source source_leads%rowtype;
+  v_email_canonical text;
+  v_email_local text;
+  v_email_domain text;
+  v_phone text;
+  v_name text;
+  v_weights jsonb;
+  v_address text;
+begin
+  select * into v_source from source_leads where id = p_source_lead_id;
+
+  if v_source.id is null then
+    return;
+  end if;
+
+  -- Trigram signals filter with % (index-backed) at this similarity, then
+  -- apply their own cutoffs
+  perform set_config('pg_trgm.similarity_threshold', '0.5', true);
+
+  v_email_canonical := canonical_email(v_source.email_normalized);
+  v_email_local := split_part(v_email_canonical, '@', 1);
+  v_email_domain := split_part(v_email_canonical, '@', 2);
+  v_phone := right(v_source.phone_normalized, 10);
+  v_name := normalize_person_name(v_source.first_name, v_source.last_name, v_source.full_name);
+  v_address := nullif(v_source.property_address_normalized, '');
+  v_weights := get_match_config(v_source.organization_id, v_source.lead_source_id)->'weights';
+
+  return query
+  with signals as (
+    -- Exact email match
+    select
+      f.id as fub_lead_id,
+      'email'::text as family,
+      'email_exact'::text as signal_type,
+      1.0::numeric as score,
+      v_source.email_normalized as source_value,
+      f.email_normalized as fub_value,
+      'Email addresses are identical'::text as details
+    from fub_leads f
+    where f.organization_id = v_source.organization_id
+      and f.email_normalized = v_source.email_normalized
+      and v_source.email_normalized is not null
+      and v_source.email_normalized != ''
+
+    union all
+
+    -- Fuzzy email: plus-aliases or a small typo in the local part or domain
+    select
+      e.id,
+      'email',
+      'email_fuzzy',
+      case
+        when e.fub_canonical = v_email_canonical then 0.9
+        when e.distance = 1 then 0.8
+        else 0.7
+      end::numeric,
+      v_source.email_normalized,
+      e.email_normalized,
+      case
+        when e.fub_canonical = v_email_canonical then 'Same address apart from a plus-alias'
+        else format('Emails differ by %s character(s)', e.distance)
+      end
+    from (
+      select
+        f.id,
+        f.email_normalized,
+        canonical_email(f.email) as fub_canonical,
+        levenshtein(canonical_email(f.email), v_email_canonical) as distance
+      from fub_leads f
+      where f.organization_id = v_source.organization_id
+        and f.email is not null
+        and f.email_normalized != v_source.email_normalized
+        and (
+          canonical_email(f.email) = v_email_canonical
+          or canonical_email(f.email) % v_email_canonical
+        )
+    ) e
+    where v_email_canonical is not null
+      and e.distance <= 2
+      and (
+        split_part(e.fub_canonical, '@', 2) = v_email_domain
+        or split_part(e.fub_canonical, '@', 1) = v_email_local
+      )
+
+    union all
+
+    -- Exact phone match
+    select
+      f.id,
+      'phone',
+      'phone_exact',
+      0.95,
+      v_source.phone_normalized,
+      f.phone_normalized,
+      'Phone numbers are identical'
+    from fub_leads f
+    where f.organization_id = v_source.organization_id
+      and f.phone_normalized = v_source.phone_normalized
+      and v_source.phone_normalized is not null
+      and length(v_source.phone_normalized) >= 10
+
+    union all
+
+    -- Fuzzy phone: country code difference, transposed digits or same last 7 digits
+    select
+      p.id,
+      'phone',
+      'phone_fuzzy',
+      case p.reason
+        when 'country_code' then 0.9
+        when 'transposed' then 0.75
+        else 0.65
+      end::numeric,
+      v_source.phone_normalized,
+      p.phone_normalized,
+      case p.reason
+        when 'country_code' then 'Same number with a different country code'
+        when 'transposed' then 'Two adjacent digits are swapped'
+        else 'Same last 7 digits, different area code'
+      end
+    from (
+      select
+        f.id,
+        f.phone_normalized,
+        case
+          when right(f.phone_normalized, 10) = v_phone then 'country_code'
+          when right(f.phone_normalized, 10) = any(phone_transpositions(v_phone)) then 'transposed'
+          else 'last_7'
+        end as reason
+      from fub_leads f
+      where f.organization_id = v_source.organization_id
+        and f.phone_normalized is not null
+        and length(f.phone_normalized) >= 10
+        and f.phone_normalized != v_source.phone_normalized
+        and (
+          right(f.phone_normalized, 10) = v_phone
+          or right(f.phone_normalized, 10) = any(phone_transpositions(v_phone))
+          or right(f.phone_normalized, 7) = right(v_phone, 7)
+        )
+    ) p
+    where v_phone is not null
+      and length(v_phone) = 10
+
+    union all
+
+    -- Address similarity (an address alone should not auto-match)
+    select
+      a.id,
+      'address',
+      'address_fuzzy',
+      round(a.similarity * 0.85, 4),
+      v_address,
+      a.address_normalized,
+      format('Address trigram similarity %s', round(a.similarity, 2))
+    from (
+      select
+        f.id,
+        f.address_normalized,
+        similarity(f.address_normalized, v_address)::numeric as similarity
+      from fub_leads f
+      where f.organization_id = v_source.organization_id
+        and f.address_normalized % v_address
+    ) a
+    where a.similarity > 0.5
+  ),
+  candidates as (
+    select distinct s.fub_lead_id from signals s
+  ),
+  -- Name and vector similarity only strengthen leads found by a contact or address signal
+  enrichment as (
+    select
+      n.id as fub_lead_id,
+      'name'::text as family,
+      'name_fuzzy'::text as signal_type,
+      round(n.similarity * 0.5, 4) as score,
+      v_name as source_value,
+      n.fub_name as fub_value,
+      format(
+        'Name trigram similarity %s, levenshtein %s',
+        round(n.similarity, 2),
+        levenshtein(left(n.fub_name, 255), left(v_name, 255))
+      ) as details
+    from (
+      select
+        f.id,
+        normalize_person_name(f.first_name, f.last_name) as fub_name,
+        similarity(normalize_person_name(f.first_name, f.last_name), v_name)::numeric as similarity
+      from fub_leads f
+      join candidates c on c.fub_lead_id = f.id
+      where v_name is not null
+    ) n
+    where n.similarity >= 0.5
+
+    union all
+
+    select
+      v.id,
+      'embedding',
+      'vector_similarity',
+      round(greatest(0, (v.similarity - 0.75) * 2), 4),
+      null,
+      null,
+      format('Embedding cosine similarity %s', round(v.similarity, 3))
+    from (
+      select
+        f.id,
+        (1 - (f.embedding <=> v_source.embedding))::numeric as similarity
+      from fub_leads f
+      join candidates c on c.fub_lead_id = f.id
+      where v_source.embedding is not null
+        and f.embedding is not null
+    ) v
+    where v.similarity > 0.75
+  ),
+  weighted as (
+    select
+      s.fub_lead_id,
+      s.family,
+      s.signal_type,
+      least(1, round(s.score * coalesce((v_weights->>s.signal_type)::numeric, 1), 4)) as score,
+      s.source_value,
+      s.fub_value,
+      s.details
+    from (
+      select * from signals
+      union all
+      select * from enrichment
+    ) s
+  ),
+  -- Only the strongest signal per field counts, so related signals don't double up
+  best_per_family as (
+    select distinct on (w.fub_lead_id, w.family) w.*
+    from weighted w
+    order by w.fub_lead_id, w.family, w.score desc
+  ),
+  -- Independent evidence is combined as a noisy-OR: 1 - product(1 - score)
+  scored as (
+    select
+      b.fub_lead_id,
+      case
+        when max(b.score) >= 1 then 1::numeric
+        else round((1 - exp(sum(ln(greatest(1 - b.score, 0.0001)))))::numeric, 4)
+      end as confidence,
+      bool_or(b.family = 'name') as has_name,
+      jsonb_agg(
+        jsonb_build_object(
+          'type', b.signal_type,
+          'field', b.family,
+          'source_value', b.source_value,
+          'fub_value', b.fub_value,
+          'score', b.score,
+          'details', b.details
+        )
+        order by b.score desc
+      ) as reasons
+    from best_per_family b
+    group by b.fub_lead_id
+  ),
+  primary_signal as (
+    select distinct on (b.fub_lead_id) b.fub_lead_id, b.family, b.signal_type
+    from best_per_family b
+    where b.family in ('email', 'phone', 'address')
+    order by b.fub_lead_id, b.score desc
+  )
+  select
+    s.fub_lead_id,
+    case
+      when p.family = 'address' and s.has_name then 'name_address'
+      else p.signal_type
+    end,
+    s.confidence,
+    jsonb_build_object(
+      'scoring', 'noisy_or',
+      'reasons', s.reasons
+    )
+  from scored s
+  join primary_signal p on p.fub_lead_id = s.fub_lead_id
+  -- A pair whose match was invalidated (by a dispute) is never suggested again
+  where not exists (
+    select 1 from lead_matches lm
+    where lm.source_lead_id = p_source_lead_id
+      and lm.fub_lead_id = s.fub_lead_id
+      and lm.status = 'invalidated'
+  )
+  order by s.confidence desc
+  limit p_max_results;
+end;
+$$;
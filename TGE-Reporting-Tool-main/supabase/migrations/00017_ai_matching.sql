@@ -0,0 +1,74 @@
+-- Migration: AI-suggested matching
+-- Description: Tracks the vector matching stage and keeps AI provenance on approved candidates
+
+-- ============================================
+-- SOURCE LEADS
+-- ============================================
+
+-- Set once the AI matcher has looked at a lead so it is not re-suggested every run
+alter table source_leads add column if not exists ai_matched_at timestamptz;
+
+create index if not exists idx_source_leads_ai_pending on source_leads(organization_id)
+  where match_status = 'unmatched' and ai_matched_at is null and embedding is not null;
+
+-- ============================================
+-- APPROVE MATCH CANDIDATE
+-- ============================================
+
+-- Candidates suggested by the AI matcher become 'ai_suggested' matches made by
+-- 'ai'; the approving reviewer is still recorded as matched_by_user_id.
+create or replace function approve_match_candidate(
+  p_candidate_id uuid,
+  p_reviewer uuid,
+  p_notes text default null
+)
+returns uuid language plpgsql as $$
+declare
+  v_candidate match_candidates%rowtype;
+  v_ai_suggested boolean;
+  v_match_id uuid;
+begin
+  -- Lock the candidate so concurrent reviewers cannot both approve it
+  select * into v_candidate
+  from match_candidates
+  where id = p_candidate_id
+  for update;
+
+  if v_candidate.id is null then
+    raise exception 'Candidate % not found', p_candidate_id;
+  end if;
+
+  if v_candidate.status != 'pending' then
+    raise exception 'Candidate % already %', p_candidate_id, v_candidate.status;
+  end if;
+
+  v_ai_suggested := coalesce(
+    v_candidate.match_reasons @> '[{"type": "ai_suggested"}]'::jsonb,
+    false
+  );
+
+  v_match_id := create_lead_match(
+    v_candidate.source_lead_id,
+    v_candidate.fub_lead_id,
+    case when v_ai_suggested then 'ai_suggested' else 'manual' end,
+    v_candidate.confidence_score,
+    jsonb_build_object(
+      'reasons', v_candidate.match_reasons,
+      'approved_from_candidate', true,
+      'candidate_id', v_candidate.id
+    ),
+    case when v_ai_suggested then 'ai' else 'manual' end,
+    p_reviewer
+  );
+
+  update match_candidates
+  set status = 'approved',
+      reviewed_by = p_reviewer,
+      reviewed_at = now(),
+      review_notes = p_notes,
+      lead_match_id = v_match_id
+  where id = p_candidate_id;
+
+  return v_match_id;
+end;
+$$;
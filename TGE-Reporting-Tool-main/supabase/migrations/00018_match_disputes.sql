@@ -0,0 +1,435 @@
+-- Migration: Match disputes
+-- Description: Dispute, invalidation and re-attribution workflow for lead_matches
+
+-- ============================================
+-- MATCH DISPUTES
+-- ============================================
+
+create table match_disputes (
+  id uuid primary key default gen_random_uuid(),
+  lead_match_id uuid references lead_matches(id) on delete cascade not null,
+  source_lead_id uuid references source_leads(id) on delete cascade not null,
+
+  -- Raised by
+  reason text not null,
+  raised_by uuid not null,
+  raised_at timestamptz default now(),
+
+  -- Resolution
+  status text default 'open' check (status in ('open', 'resolved')),
+  resolution text check (resolution in ('dismiss', 'invalidate', 'reattribute', 'reopen')),
+  resolved_by uuid,
+  resolved_at timestamptz,
+  resolution_notes text,
+
+  -- If re-attributed, the match that replaced the disputed one
+  new_lead_match_id uuid references lead_matches(id),
+
+  created_at timestamptz default now()
+);
+
+create index idx_match_disputes_match on match_disputes(lead_match_id);
+create index idx_match_disputes_source on match_disputes(source_lead_id);
+create index idx_match_disputes_open on match_disputes(raised_at) where status = 'open';
+
+-- One open dispute per match
+create unique index idx_match_disputes_one_open on match_disputes(lead_match_id)
+  where status = 'open';
+
+-- ============================================
+-- CREATE LEAD MATCH
+-- ============================================
+
+-- Same as before, except that with p_reactivate a previously invalidated match
+-- for the same pair is re-activated instead of violating
+-- unique(source_lead_id, fub_lead_id). Only an admin re-attributing a dispute
+-- does that; a pair invalidated by a dispute is never matched again otherwise.
+drop function if exists create_lead_match(uuid, uuid, text, numeric, jsonb, text, uuid);
+
+create or replace function create_lead_match(
+  p_source_lead_id uuid,
+  p_fub_lead_id uuid,
+  p_match_type text,
+  p_confidence numeric,
+  p_match_details jsonb default '{}',
+  p_matched_by text default 'system',
+  p_matched_by_user_id uuid default null,
+  p_reactivate boolean default false
+)
+returns uuid language plpgsql as $$
+declare
+  v_fub fub_leads%rowtype;
+  v_agent_id uuid;
+  v_team_id uuid;
+  v_match_id uuid;
+  v_existing_status text;
+begin
+  select * into v_fub from fub_leads where id = p_fub_lead_id;
+
+  if v_fub.id is null then
+    raise exception 'FUB lead % not found', p_fub_lead_id;
+  end if;
+
+  -- Find agent by FUB user ID within the same organization
+  if v_fub.assigned_user_id is not null then
+    select a.id, a.team_id into v_agent_id, v_team_id
+    from agents a
+    join teams t on t.id = a.team_id
+    where a.fub_user_id = v_fub.assigned_user_id
+      and t.organization_id = v_fub.organization_id
+    order by (a.status = 'active') desc, a.created_at
+    limit 1;
+  end if;
+
+  insert into lead_matches (
+    source_lead_id,
+    fub_lead_id,
+    match_type,
+    match_confidence,
+    match_details,
+    matched_by,
+    matched_by_user_id,
+    attributed_agent_id,
+    attributed_team_id
+  ) values (
+    p_source_lead_id,
+    p_fub_lead_id,
+    p_match_type,
+    p_confidence,
+    coalesce(p_match_details, '{}'),
+    p_matched_by,
+    p_matched_by_user_id,
+    v_agent_id,
+    v_team_id
+  )
+  on conflict (source_lead_id, fub_lead_id) do update
+  set match_type = excluded.match_type,
+      match_confidence = excluded.match_confidence,
+      match_details = excluded.match_details,
+      matched_by = excluded.matched_by,
+      matched_by_user_id = excluded.matched_by_user_id,
+      attributed_agent_id = excluded.attributed_agent_id,
+      attributed_team_id = excluded.attributed_team_id,
+      status = 'active',
+      updated_at = now()
+  where lead_matches.status = 'invalidated'
+    and p_reactivate
+  returning id into v_match_id;
+
+  if v_match_id is null then
+    select status into v_existing_status
+    from lead_matches
+    where source_lead_id = p_source_lead_id
+      and fub_lead_id = p_fub_lead_id;
+
+    if v_existing_status = 'invalidated' then
+      raise exception 'Match of source lead % to FUB lead % was invalidated', p_source_lead_id, p_fub_lead_id;
+    end if;
+
+    raise exception 'Source lead % is already matched to FUB lead %', p_source_lead_id, p_fub_lead_id;
+  end if;
+
+  update source_leads
+  set match_status = 'matched',
+      match_confidence = p_confidence,
+      matched_at = now()
+  where id = p_source_lead_id;
+
+  -- Other pending candidates for this lead are no longer relevant
+  update match_candidates
+  set status = 'rejected',
+      reviewed_by = p_matched_by_user_id,
+      reviewed_at = now()
+  where source_lead_id = p_source_lead_id
+    and fub_lead_id != p_fub_lead_id
+    and status = 'pending';
+
+  insert into data_lineage (
+    source_table,
+    source_id,
+    target_table,
+    target_id,
+    operation,
+    transformation_type,
+    transformation_details,
+    performed_by
+  ) values (
+    'source_leads',
+    p_source_lead_id,
+    'lead_matches',
+    v_match_id,
+    'create',
+    'match',
+    jsonb_build_object(
+      'match_type', p_match_type,
+      'confidence', p_confidence,
+      'auto_matched', p_matched_by = 'system'
+    ),
+    case
+      when p_matched_by_user_id is not null then 'user:' || p_matched_by_user_id
+      else p_matched_by
+    end
+  );
+
+  return v_match_id;
+end;
+$$;
+
+-- ============================================
+-- DISPUTE LEAD MATCH
+-- ============================================
+
+-- Flags an active match as disputed. Disputed matches drop out of
+-- v_lead_attribution until the dispute is resolved.
+create or replace function dispute_lead_match(
+  p_match_id uuid,
+  p_user uuid,
+  p_reason text
+)
+returns uuid language plpgsql as $$
+declare
+  v_match lead_matches%rowtype;
+  v_dispute_id uuid;
+begin
+  if nullif(trim(p_reason), '') is null then
+    raise exception 'A reason is required to dispute a match';
+  end if;
+
+  select * into v_match
+  from lead_matches
+  where id = p_match_id
+  for update;
+
+  if v_match.id is null then
+    raise exception 'Match % not found', p_match_id;
+  end if;
+
+  if v_match.status != 'active' then
+    raise exception 'Match % is %', p_match_id, v_match.status;
+  end if;
+
+  update lead_matches
+  set status = 'disputed',
+      updated_at = now()
+  where id = p_match_id;
+
+  insert into match_disputes (lead_match_id, source_lead_id, reason, raised_by)
+  values (p_match_id, v_match.source_lead_id, trim(p_reason), p_user)
+  returning id into v_dispute_id;
+
+  insert into data_lineage (
+    source_table,
+    source_id,
+    target_table,
+    target_id,
+    operation,
+    transformation_type,
+    transformation_details,
+    performed_by
+  ) values (
+    'lead_matches',
+    p_match_id,
+    'match_disputes',
+    v_dispute_id,
+    'create',
+    'dispute',
+    jsonb_build_object(
+      'reason', trim(p_reason),
+      'fub_lead_id', v_match.fub_lead_id,
+      'attributed_agent_id', v_match.attributed_agent_id,
+      'attributed_team_id', v_match.attributed_team_id
+    ),
+    'user:' || p_user
+  );
+
+  return v_dispute_id;
+end;
+$$;
+
+-- ============================================
+-- RESOLVE MATCH DISPUTE
+-- ============================================
+
+-- Resolutions:
+--   dismiss     - the match stands and becomes active again
+--   invalidate  - the match is invalidated and the source lead left unmatched
+--   reattribute - the match is invalidated and replaced by a match to p_fub_lead_id
+--   reopen      - the match is invalidated and the source lead goes back to pending
+--                 so the matchers pick it up again
+create or replace function resolve_match_dispute(
+  p_dispute_id uuid,
+  p_resolver uuid,
+  p_resolution text,
+  p_fub_lead_id uuid default null,
+  p_notes text default null
+)
+returns uuid language plpgsql as $$
+declare
+  v_dispute match_disputes%rowtype;
+  v_match lead_matches%rowtype;
+  v_new_match_id uuid;
+begin
+  select * into v_dispute
+  from match_disputes
+  where id = p_dispute_id
+  for update;
+
+  if v_dispute.id is null then
+    raise exception 'Dispute % not found', p_dispute_id;
+  end if;
+
+  if v_dispute.status != 'open' then
+    raise exception 'Dispute % already resolved', p_dispute_id;
+  end if;
+
+  if p_resolution not in ('dismiss', 'invalidate', 'reattribute', 'reopen') then
+    raise exception 'Unknown resolution: %', p_resolution;
+  end if;
+
+  select * into v_match from lead_matches where id = v_dispute.lead_match_id for update;
+
+  if p_resolution = 'reattribute' then
+    if p_fub_lead_id is null then
+      raise exception 'A FUB lead is required to re-attribute a match';
+    end if;
+
+    if p_fub_lead_id = v_match.fub_lead_id then
+      raise exception 'Match is already attributed to FUB lead %', p_fub_lead_id;
+    end if;
+
+    if not exists (
+      select 1 from fub_leads f
+      join source_leads s on s.organization_id = f.organization_id
+      where f.id = p_fub_lead_id
+        and s.id = v_dispute.source_lead_id
+    ) then
+      raise exception 'FUB lead % not found in this organization', p_fub_lead_id;
+    end if;
+  end if;
+
+  if p_resolution = 'dismiss' then
+    update lead_matches
+    set status = 'active',
+        updated_at = now()
+    where id = v_match.id;
+  else
+    update lead_matches
+    set status = 'invalidated',
+        updated_at = now()
+    where id = v_match.id;
+  end if;
+
+  if p_resolution = 'invalidate' then
+    update source_leads
+    set match_status = 'unmatched',
+        match_confidence = null
+    where id = v_dispute.source_lead_id;
+  elsif p_resolution = 'reopen' then
+    update source_leads
+    set match_status = 'pending',
+        match_confidence = null,
+        matched_at = null,
+        ai_matched_at = null
+    where id = v_dispute.source_lead_id;
+  elsif p_resolution = 'reattribute' then
+    v_new_match_id := create_lead_match(
+      v_dispute.source_lead_id,
+      p_fub_lead_id,
+      'manual',
+      1.0,
+      jsonb_build_object(
+        'reattributed_from_match', v_match.id,
+        'dispute_id', v_dispute.id
+      ),
+      'manual',
+      p_resolver,
+      true
+    );
+  end if;
+
+  update match_disputes
+  set status = 'resolved',
+      resolution = p_resolution,
+      resolved_by = p_resolver,
+      resolved_at = now(),
+      resolution_notes = p_notes,
+      new_lead_match_id = v_new_match_id
+  where id = p_dispute_id;
+
+  insert into data_lineage (
+    source_table,
+    source_id,
+    target_table,
+    target_id,
+    operation,
+    transformation_type,
+    transformation_details,
+    performed_by
+  ) values (
+    'match_disputes',
+    v_dispute.id,
+    'lead_matches',
+    v_match.id,
+    'update',
+    'dispute_resolution',
+    jsonb_build_object(
+      'resolution', p_resolution,
+      'notes', p_notes,
+      'previous_fub_lead_id', v_match.fub_lead_id,
+      'new_fub_lead_id', p_fub_lead_id,
+      'new_match_id', v_new_match_id
+    ),
+    'user:' || p_resolver
+  );
+
+  return v_dispute.id;
+end;
+$$;
+
+-- ============================================
+-- DISPUTE QUEUE VIEW
+-- ============================================
+
+create or replace view v_match_disputes as
+select
+  md.id as dispute_id,
+  md.status,
+  md.reason,
+  md.raised_by,
+  md.raised_at,
+  md.resolution,
+  md.resolved_at,
+  md.resolution_notes,
+
+  lm.id as match_id,
+  lm.match_type,
+  lm.match_confidence,
+  lm.status as match_status,
+
+  sl.id as source_lead_id,
+  sl.email as source_email,
+  sl.phone as source_phone,
+  coalesce(nullif(trim(coalesce(sl.first_name, '') || ' ' || coalesce(sl.last_name, '')), ''), sl.full_name) as source_name,
+  sl.property_address as source_address,
+  ls.display_name as lead_source,
+
+  fl.id as fub_lead_uuid,
+  fl.fub_lead_id,
+  fl.email as fub_email,
+  fl.first_name as fub_first_name,
+  fl.last_name as fub_last_name,
+  fl.assigned_user_name as fub_assigned_to,
+
+  t.name as attributed_team,
+  a.first_name || ' ' || a.last_name as attributed_agent,
+
+  o.id as organization_id
+from match_disputes md
+join lead_matches lm on lm.id = md.lead_match_id
+join source_leads sl on sl.id = md.source_lead_id
+join fub_leads fl on fl.id = lm.fub_lead_id
+join lead_sources ls on ls.id = sl.lead_source_id
+join organizations o on o.id = sl.organization_id
+left join teams t on t.id = lm.attributed_team_id
+left join agents a on a.id = lm.attributed_agent_id
+order by md.raised_at desc;
@@ -0,0 +1,73 @@
+-- Migration: Match candidate expiry
+-- Description: Expire pending match_candidates past expires_at and release their source leads
+
+-- ============================================
+-- EXPIRE MATCH CANDIDATES
+-- ============================================
+
+-- Marks overdue pending candidates as expired. Source leads left in review
+-- with nothing pending go back to 'unmatched', or to 'pending' when
+-- p_requeue is set so the matcher runs again against fresh FUB data.
+-- Returns one row per affected source lead.
+create or replace function expire_match_candidates(
+  p_organization_id uuid default null,
+  p_requeue boolean default false
+)
+returns table (
+  source_lead_id uuid,
+  organization_id uuid,
+  expired_count int,
+  lead_released boolean
+) language plpgsql as $$
+declare
+  v_expired jsonb;
+  v_released uuid[];
+begin
+  with expired as (
+    update match_candidates mc
+    set status = 'expired'
+    from source_leads sl
+    where sl.id = mc.source_lead_id
+      and mc.status = 'pending'
+      and mc.expires_at < now()
+      and (p_organization_id is null or sl.organization_id = p_organization_id)
+    returning mc.source_lead_id, sl.organization_id
+  )
+  select coalesce(jsonb_agg(jsonb_build_object(
+    'source_lead_id', c.source_lead_id,
+    'organization_id', c.organization_id,
+    'expired_count', c.expired_count
+  )), '[]')
+  into v_expired
+  from (
+    select e.source_lead_id, e.organization_id, count(*)::int as expired_count
+    from expired e
+    group by e.source_lead_id, e.organization_id
+  ) c;
+
+  with released as (
+    update source_leads sl
+    set match_status = case when p_requeue then 'pending' else 'unmatched' end,
+        match_confidence = null
+    where sl.id in (
+        select (x->>'source_lead_id')::uuid from jsonb_array_elements(v_expired) x
+      )
+      and sl.match_status in ('review', 'multiple')
+      and not exists (
+        select 1 from match_candidates mc
+        where mc.source_lead_id = sl.id
+          and mc.status = 'pending'
+      )
+    returning sl.id
+  )
+  select coalesce(array_agg(r.id), '{}') into v_released from released r;
+
+  return query
+  select
+    (x->>'source_lead_id')::uuid,
+    (x->>'organization_id')::uuid,
+    (x->>'expired_count')::int,
+    (x->>'source_lead_id')::uuid = any(v_released)
+  from jsonb_array_elements(v_expired) x;
+end;
+$$;
@@ -0,0 +1,57 @@
+-- Migration: Re-match on FUB changes
+-- Description: Find source leads affected by created or updated fub_leads and queue them for matching
+
+create index if not exists idx_source_leads_phone_last10 on source_leads(right(phone_normalized, 10))
+  where phone_normalized is not null;
+create index if not exists idx_source_leads_address_normalized on source_leads(property_address_normalized)
+  where property_address_normalized is not null;
+
+-- ============================================
+-- QUEUE REMATCH
+-- ============================================
+
+-- Source leads still waiting for a match (unmatched, review or multiple) that
+-- share a normalized email, phone or address with any of the given FUB leads.
+-- Unmatched leads are moved back to 'pending' so the next lead-matcher run
+-- picks them up even if the caller's direct trigger fails; leads in review
+-- keep their status and pending candidates.
+create or replace function queue_rematch_for_fub_leads(p_fub_lead_ids uuid[])
+returns table (source_lead_id uuid) language plpgsql as $$
+begin
+  return query
+  with affected as (
+    select distinct sl.id
+    from fub_leads f
+    join source_leads sl on sl.organization_id = f.organization_id
+    where f.id = any(p_fub_lead_ids)
+      and sl.match_status in ('unmatched', 'review', 'multiple')
+      and (
+        (
+          f.email_normalized is not null
+          and f.email_normalized != ''
+          and sl.email_normalized = f.email_normalized
+        )
+        or (
+          length(f.phone_normalized) >= 10
+          and sl.phone_normalized is not null
+          and right(sl.phone_normalized, 10) = right(f.phone_normalized, 10)
+        )
+        or (
+          f.address_normalized is not null
+          and f.address_normalized != ''
+          and sl.property_address_normalized = f.address_normalized
+        )
+      )
+  ),
+  requeued as (
+    update source_leads sl
+    set match_status = 'pending',
+        ai_matched_at = null
+    from affected a
+    where sl.id = a.id
+      and sl.match_status = 'unmatched'
+    returning sl.id
+  )
+  select a.id from affected a;
+end;
+$$;
@@ -0,0 +1,54 @@
+-- Migration: Review queue filters
+-- Description: Expose ingestion and strongest match signal on the review queue for filtering
+
+-- match_type is the type of the highest-scoring reason, since candidates can
+-- combine several signals. New columns are appended so existing consumers keep working
+create or replace view v_match_review_queue as
+select
+  mc.id as candidate_id,
+  mc.confidence_score,
+  mc.match_reasons,
+  mc.status,
+  mc.created_at,
+  mc.expires_at,
+
+  sl.email as source_email,
+  sl.phone as source_phone,
+  sl.first_name as source_first_name,
+  sl.last_name as source_last_name,
+  sl.property_address as source_address,
+  ls.display_name as lead_source,
+
+  fl.email as fub_email,
+  fl.phone as fub_phone,
+  fl.first_name as fub_first_name,
+  fl.last_name as fub_last_name,
+  fl.address as fub_address,
+  fl.assigned_user_name as fub_assigned_to,
+
+  o.name as organization,
+
+  mc.source_lead_id,
+  mc.fub_lead_id,
+  sl.full_name as source_full_name,
+  sl.lead_source_id,
+  fl.fub_stage,
+  o.id as organization_id,
+  sl.ingestion_id,
+  ri.file_name as ingestion_file,
+  (
+    select r->>'type'
+    from jsonb_array_elements(
+      case when jsonb_typeof(mc.match_reasons) = 'array' then mc.match_reasons else '[]' end
+    ) r
+    order by (r->>'score')::numeric desc nulls last
+    limit 1
+  ) as match_type
+from match_candidates mc
+join source_leads sl on sl.id = mc.source_lead_id
+join fub_leads fl on fl.id = mc.fub_lead_id
+join lead_sources ls on ls.id = sl.lead_source_id
+join organizations o on o.id = sl.organization_id
+left join raw_ingestions ri on ri.id = sl.ingestion_id
+where mc.status = 'pending'
+order by mc.confidence_score desc, mc.created_at;
@@ -0,0 +1,32 @@
+-- Migration: Manual CSV uploads
+-- Description: Storage bucket access for browser uploads and realtime ingestion progress
+
+-- ============================================
+-- STORAGE
+-- ============================================
+
+insert into storage.buckets (id, name, public)
+values ('lead-files', 'lead-files', false)
+on conflict (id) do nothing;
+
+-- Signed-in users upload under uploads/; email-ingest writes ingestions/ with the service role
+create policy "Authenticated users can upload lead files"
+  on storage.objects for insert to authenticated
+  with check (bucket_id = 'lead-files' and (storage.foldername(name))[1] = 'uploads');
+
+-- ============================================
+-- REALTIME
+-- ============================================
+
+-- The upload page subscribes to status and counter changes on its ingestion
+do $$
+begin
+  alter publication supabase_realtime add table raw_ingestions;
+exception
+  when duplicate_object then null;
+  when undefined_object then null;
+end;
+$$;
+
+create index if not exists idx_raw_ingestions_file_hash on raw_ingestions(file_hash)
+  where file_hash is not null;
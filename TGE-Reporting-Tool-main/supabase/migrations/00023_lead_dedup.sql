@@ -0,0 +1,99 @@
+-- Migration: Multi-key lead deduplication
+-- Description: Dedup on source lead id, email and phone with a per-source resend policy
+
+-- ============================================
+-- CONFIGURATION
+-- ============================================
+
+-- keys: which identifiers mark a lead as already received
+-- on_resend: 'skip' keeps the existing source_lead, 'update' applies the resent values
+alter table lead_sources add column if not exists dedup_config jsonb default '{
+  "keys": ["source_lead_id", "email", "phone"],
+  "on_resend": "skip"
+}';
+
+update lead_sources
+set dedup_config = '{"keys": ["source_lead_id", "email", "phone"], "on_resend": "skip"}'
+where dedup_config is null;
+
+-- ============================================
+-- DUPLICATE LINKS
+-- ============================================
+
+-- duplicate_of links to the earlier raw row when both rows are in the same file;
+-- duplicate_of_source_lead always points at the source lead the row duplicates
+alter table raw_lead_rows
+  add column if not exists duplicate_of_source_lead uuid references source_leads(id),
+  add column if not exists duplicate_key text;
+
+create index if not exists idx_source_leads_source_lead_id
+  on source_leads(organization_id, lead_source_id, source_lead_id)
+  where source_lead_id is not null;
+
+-- ============================================
+-- DUPLICATE LOOKUP
+-- ============================================
+
+-- Earliest source lead from the same organization and source sharing any of
+-- the enabled keys. Keys are tried in order: the source's own lead id, then
+-- normalized email, then the last 10 digits of the phone number.
+create or replace function find_duplicate_source_lead(
+  p_organization_id uuid,
+  p_lead_source_id uuid,
+  p_source_lead_id text,
+  p_email text,
+  p_phone text,
+  p_keys text[] default array['source_lead_id', 'email', 'phone']
+)
+returns table (
+  source_lead_id uuid,
+  raw_row_id uuid,
+  ingestion_id uuid,
+  duplicate_key text
+) language plpgsql stable as $$
+declare
+  v_email text := nullif(lower(trim(p_email)), '');
+  v_phone text := right(normalize_phone(p_phone), 10);
+begin
+  if 'source_lead_id' = any(p_keys) and nullif(trim(p_source_lead_id), '') is not null then
+    return query
+    select sl.id, sl.raw_row_id, sl.ingestion_id, 'source_lead_id'::text
+    from source_leads sl
+    where sl.organization_id = p_organization_id
+      and sl.lead_source_id = p_lead_source_id
+      and sl.source_lead_id = trim(p_source_lead_id)
+    order by sl.created_at
+    limit 1;
+
+    if found then
+      return;
+    end if;
+  end if;
+
+  if 'email' = any(p_keys) and v_email is not null then
+    return query
+    select sl.id, sl.raw_row_id, sl.ingestion_id, 'email'::text
+    from source_leads sl
+    where sl.organization_id = p_organization_id
+      and sl.lead_source_id = p_lead_source_id
+      and sl.email_normalized = v_email
+    order by sl.created_at
+    limit 1;
+
+    if found then
+      return;
+    end if;
+  end if;
+
+  if 'phone' = any(p_keys) and length(v_phone) = 10 then
+    return query
+    select sl.id, sl.raw_row_id, sl.ingestion_id, 'phone'::text
+    from source_leads sl
+    where sl.organization_id = p_organization_id
+      and sl.lead_source_id = p_lead_source_id
+      and right(sl.phone_normalized, 10) = v_phone
+    order by sl.created_at
+    limit 1;
+  end if;
+end;
+$$;
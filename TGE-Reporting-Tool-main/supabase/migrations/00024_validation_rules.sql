@@ -0,0 +1,17 @@
+-- Migration: Validation rule engine
+-- Description: Track rows that pass validation with warnings
+
+-- ============================================
+-- WARNINGS
+-- ============================================
+
+-- validation_errors now holds structured issues:
+--   [{"rule": "regex", "field": "zip", "severity": "error", "message": "...", "value": "..."}]
+-- Rows with only warning-severity issues stay valid but are flagged here
+alter table raw_lead_rows add column if not exists has_warnings boolean default false;
+
+alter table raw_ingestions add column if not exists warning_rows int default 0;
+
+create index if not exists idx_raw_lead_rows_warnings
+  on raw_lead_rows(ingestion_id)
+  where has_warnings;
@@ -0,0 +1,86 @@
+-- Migration: Email ingest security
+-- Description: Per-organization ingest addresses, sender allow-lists and a quarantine for unroutable mail
+
+-- ============================================
+-- INGEST ADDRESSES
+-- ============================================
+
+-- Mail is addressed to <org-slug>+<source>@<ingest domain>, where
+-- <source>@<ingest domain> is the lead source's ingest_email, e.g.
+-- acme+zillow@ingest.tge-app.com. Organizations need a slug to receive mail.
+update lead_sources set ingest_email = lower(ingest_email) where ingest_email <> lower(ingest_email);
+
+alter table lead_sources drop constraint if exists lead_sources_ingest_email_lowercase;
+alter table lead_sources add constraint lead_sources_ingest_email_lowercase
+  check (ingest_email = lower(ingest_email));
+
+-- Slugs can't contain '+' or uppercase; existing slugs are left for review
+alter table organizations drop constraint if exists organizations_slug_format;
+alter table organizations add constraint organizations_slug_format
+  check (slug ~ '^[a-z0-9][a-z0-9_-]*$') not valid;
+
+-- Ingest address of every organization and active source
+create or replace view v_ingest_addresses as
+select
+  o.id as organization_id,
+  o.slug as organization_slug,
+  ls.id as lead_source_id,
+  ls.display_name as lead_source,
+  o.slug || '+' || ls.ingest_email as ingest_address
+from organizations o
+cross join lead_sources ls
+where o.slug is not null
+  and ls.ingest_email is not null
+  and ls.is_active;
+
+-- ============================================
+-- SENDER ALLOW-LIST
+-- ============================================
+
+-- sender is a full address (leads@zillow.com) or a domain (@zillow.com).
+-- A null lead_source_id allows the sender for every source.
+create table email_sender_allowlist (
+  id uuid primary key default gen_random_uuid(),
+  organization_id uuid references organizations(id) on delete cascade not null,
+  lead_source_id uuid references lead_sources(id) on delete cascade,
+  sender text not null check (sender = lower(sender) and sender like '%@%'),
+  notes text,
+  created_by uuid,
+  created_at timestamptz default now()
+);
+
+create unique index idx_email_sender_allowlist_unique on email_sender_allowlist(
+  organization_id,
+  coalesce(lead_source_id, '00000000-0000-0000-0000-000000000000'::uuid),
+  sender
+);
+
+-- ============================================
+-- QUARANTINE
+-- ============================================
+
+-- Mail that couldn't be routed to an organization and source, or came from
+-- a sender that isn't allowed. Attachments are kept under quarantine/ in
+-- the lead-files bucket so they can be released after review.
+create table email_quarantine (
+  id uuid primary key default gen_random_uuid(),
+  organization_id uuid references organizations(id) on delete cascade,
+  lead_source_id uuid references lead_sources(id),
+
+  reason text not null check (reason in ('unroutable', 'sender_not_allowed', 'sender_not_verified')),
+
+  email_from text,
+  email_to text,
+  email_subject text,
+  attachments jsonb default '[]', -- [{filename, file_url, file_hash, size}]
+
+  status text default 'quarantined' check (status in ('quarantined', 'released', 'discarded')),
+  reviewed_by uuid,
+  reviewed_at timestamptz,
+
+  created_at timestamptz default now()
+);
+
+create index idx_email_quarantine_org on email_quarantine(organization_id, created_at desc);
+create index idx_email_quarantine_pending on email_quarantine(created_at desc)
+  where status = 'quarantined';
@@ -0,0 +1,30 @@
+-- Migration: Leads from email bodies
+-- Description: Per-source templates for notification emails that carry one lead in the body
+
+-- ============================================
+-- EXTRACTION TEMPLATES
+-- ============================================
+
+-- Template for reading a lead out of a notification email, e.g.
+--   {
+--     "enabled": true,
+--     "subject_pattern": "New (Premier Agent )?lead",
+--     "fields": {
+--       "full_name": {"labels": ["Name", "Buyer"]},
+--       "email": {"labels": ["Email"]},
+--       "phone": {"regex": "Phone:\\s*([\\d()\\-. +]+)"},
+--       "address": {"labels": ["Property", "Address"]}
+--     },
+--     "llm_fallback": true
+--   }
+-- Null uses the default labels with the LLM fallback.
+alter table lead_sources add column if not exists email_body_config jsonb;
+
+-- ============================================
+-- BODY INGESTIONS
+-- ============================================
+
+-- Set when the ingestion's single row was read from an email body rather
+-- than a file: {"method": "template" | "llm" | "template+llm", "fields": [...]}.
+-- Its raw row is keyed by target field instead of file column.
+alter table raw_ingestions add column if not exists body_extraction jsonb;
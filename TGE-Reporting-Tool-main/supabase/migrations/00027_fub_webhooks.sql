@@ -0,0 +1,87 @@
+-- Migration: FUB webhooks
+-- Description: Track webhook registration and delivery for Follow Up Boss connections
+
+-- ============================================
+-- WEBHOOK REGISTRATION
+-- ============================================
+
+-- Webhooks are registered with the FUB system key (FUB_SYSTEM_KEY), and FUB
+-- signs every delivery with it. webhook_signing_key keeps the key a
+-- connection registered with, apart from its own webhook_secret.
+alter table fub_connections add column if not exists webhook_signing_key text;
+alter table fub_connections add column if not exists webhooks_registered_at timestamptz;
+alter table fub_connections add column if not exists webhook_last_event_at timestamptz;
+
+-- Webhook deliveries are logged to fub_sync_log with sync_type 'webhook'
+create index if not exists idx_fub_sync_log_webhook on fub_sync_log(fub_connection_id, started_at desc)
+  where sync_type = 'webhook';
+
+-- ============================================
+-- WEBHOOK EVENTS
+-- ============================================
+
+-- Every accepted delivery, keyed by FUB's eventId. fub-webhook records the
+-- event and answers FUB straight away; a redelivered or replayed event is
+-- already recorded, so it is acknowledged without being processed again.
+-- fub-sync then fetches the people the event names.
+-- status: received -> processing -> processed | failed. An event left in
+-- 'received' (its hand-off to fub-sync failed) is covered by the next poll.
+create table fub_webhook_events (
+  id uuid primary key default gen_random_uuid(),
+  fub_connection_id uuid references fub_connections(id) on delete cascade not null,
+
+  event_id text not null, -- FUB eventId
+  event text not null,
+  resource_ids bigint[] default '{}', -- FUB person IDs
+  event_created_at timestamptz,
+
+  status text default 'received' check (status in ('received', 'processing', 'processed', 'failed')),
+  error text,
+
+  received_at timestamptz default now(),
+  processed_at timestamptz,
+
+  unique(fub_connection_id, event_id)
+);
+
+-- ============================================
+-- REASSIGNMENT
+-- ============================================
+
+-- Re-derive attribution for the active matches of FUB leads whose assignee
+-- changed, using the same agent lookup as create_lead_match. Unlike
+-- backfill_match_attribution this replaces an agent already attributed, and
+-- clears it when the new assignee maps to no agent.
+create or replace function reattribute_fub_lead_matches(p_fub_lead_ids uuid[])
+returns int language plpgsql as $$
+declare
+  v_reattributed int;
+begin
+  update lead_matches lm
+  set attributed_agent_id = pick.agent_id,
+      attributed_team_id = pick.team_id,
+      updated_at = now()
+  from (
+    select lm2.id as match_id, a.id as agent_id, a.team_id
+    from lead_matches lm2
+    join fub_leads fl on fl.id = lm2.fub_lead_id
+    left join lateral (
+      select a2.id, a2.team_id
+      from agents a2
+      join teams t on t.id = a2.team_id
+      where a2.fub_user_id = fl.assigned_user_id
+        and t.organization_id = fl.organization_id
+      order by (a2.status = 'active') desc, a2.created_at
+      limit 1
+    ) a on true
+    where lm2.status = 'active'
+      and lm2.fub_lead_id = any(p_fub_lead_ids)
+  ) pick
+  where lm.id = pick.match_id
+    and (lm.attributed_agent_id is distinct from pick.agent_id
+      or lm.attributed_team_id is distinct from pick.team_id);
+
+  get diagnostics v_reattributed = row_count;
+  return v_reattributed;
+end;
+$$;
@@ -0,0 +1,21 @@
+-- Migration: Resumable FUB syncs
+-- Description: Persist the position of unfinished Follow Up Boss syncs so they resume where they stopped
+
+-- ============================================
+-- SYNC CURSORS
+-- ============================================
+
+-- Unfinished sync, updated after every page of people:
+--   {"sync_type": "full", "started_at": "...", "updated_after": null,
+--    "offset": 4200, "next": "<FUB pagination token>", "updated_at": "..."}
+-- Once the people are done, a sync that also reads deals keeps their
+-- position in "deals": {"offset": 300, "next": null}.
+-- Cleared when the sync completes; last_sync_at is then set to started_at.
+alter table fub_connections add column if not exists sync_cursor jsonb;
+
+-- Where the logged invocation stopped, for syncs that were paused or failed
+alter table fub_sync_log add column if not exists cursor jsonb;
+
+-- Optional sync_config.requests_per_minute caps how fast a connection calls
+-- the FUB API, leaving room in the account's rate limit for other
+-- integrations. Without it, syncs only back off when FUB rate-limits them.
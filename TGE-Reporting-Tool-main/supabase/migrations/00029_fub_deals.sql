@@ -0,0 +1,335 @@
+-- Migration: FUB deals
+-- Description: Deals and pipeline stages synced from Follow Up Boss, with closed volume and GCI in the reporting views
+
+-- ============================================
+-- PIPELINE STAGES
+-- ============================================
+
+-- Deals in a stage marked is_closed count as closed revenue. New stages are
+-- marked from their name (closed, sold, won, funded); sync never overwrites
+-- the flag, so it can be corrected per stage.
+create table fub_pipeline_stages (
+  id uuid primary key default gen_random_uuid(),
+  fub_connection_id uuid references fub_connections(id) on delete cascade not null,
+
+  fub_pipeline_id bigint not null,
+  pipeline_name text,
+  fub_stage_id bigint not null,
+  name text not null,
+  position int,
+  is_closed boolean not null default false,
+
+  created_at timestamptz default now(),
+  updated_at timestamptz default now(),
+
+  unique(fub_connection_id, fub_stage_id)
+);
+
+-- ============================================
+-- DEALS
+-- ============================================
+
+create table fub_deals (
+  id uuid primary key default gen_random_uuid(),
+  fub_connection_id uuid references fub_connections(id) on delete cascade not null,
+  organization_id uuid references organizations(id) not null,
+
+  -- FUB identifiers
+  fub_deal_id bigint not null,
+  fub_person_id bigint, -- primary person on the deal
+  fub_lead_id uuid references fub_leads(id) on delete set null, -- set by link_fub_deals
+
+  name text,
+  fub_pipeline_id bigint,
+  pipeline_name text,
+  fub_stage_id bigint,
+  stage_name text,
+  status text, -- FUB status: 'Active', 'Archived', 'Deleted'
+
+  -- Money
+  price numeric(14, 2),
+  commission_value numeric(14, 2), -- GCI
+  agent_commission numeric(14, 2),
+  team_commission numeric(14, 2),
+  close_date date,
+
+  fub_user_ids bigint[], -- FUB users on the deal
+  fub_created_at timestamptz,
+  fub_updated_at timestamptz,
+
+  -- Sync tracking
+  raw_data jsonb,
+  last_synced_at timestamptz default now(),
+  sync_hash text,
+
+  created_at timestamptz default now(),
+  updated_at timestamptz default now(),
+
+  unique(fub_connection_id, fub_deal_id)
+);
+
+create index idx_fub_deals_org on fub_deals(organization_id);
+create index idx_fub_deals_lead on fub_deals(fub_lead_id) where fub_lead_id is not null;
+create index idx_fub_deals_person on fub_deals(fub_connection_id, fub_person_id);
+
+-- Deals are stored before their person may have synced: link any deal whose
+-- primary person is now in fub_leads. Returns the number of deals changed.
+create or replace function link_fub_deals(p_fub_connection_id uuid)
+returns int language plpgsql as $$
+declare
+  v_linked int;
+begin
+  update fub_deals d
+  set fub_lead_id = fl.id,
+      updated_at = now()
+  from fub_leads fl
+  where d.fub_connection_id = p_fub_connection_id
+    and fl.fub_connection_id = d.fub_connection_id
+    and fl.fub_lead_id = d.fub_person_id
+    and d.fub_lead_id is distinct from fl.id;
+
+  get diagnostics v_linked = row_count;
+  return v_linked;
+end;
+$$;
+
+-- Sync stats for deals
+alter table fub_sync_log add column if not exists deals_fetched int default 0;
+alter table fub_sync_log add column if not exists deals_updated int default 0;
+
+-- ============================================
+-- REPORTING VIEWS
+-- ============================================
+
+-- Deal totals per FUB lead. Deleted deals are ignored.
+create or replace view v_fub_lead_deals as
+select
+  d.fub_lead_id,
+  count(*) as deal_count,
+  count(*) filter (where ps.is_closed) as closed_deals,
+  coalesce(sum(d.price) filter (where ps.is_closed), 0) as closed_volume,
+  coalesce(sum(d.commission_value) filter (where ps.is_closed), 0) as closed_gci,
+  max(d.close_date) filter (where ps.is_closed) as last_close_date
+from fub_deals d
+left join fub_pipeline_stages ps
+  on ps.fub_connection_id = d.fub_connection_id
+  and ps.fub_stage_id = d.fub_stage_id
+where d.fub_lead_id is not null
+  and d.status is distinct from 'Deleted'
+group by d.fub_lead_id;
+
+-- Full lead attribution view, with the matched FUB lead's deals
+create or replace view v_lead_attribution as
+select
+  sl.id as source_lead_id,
+  sl.email,
+  sl.phone,
+  sl.first_name,
+  sl.last_name,
+  sl.full_name,
+  sl.property_address,
+  sl.property_city,
+  sl.property_state,
+  sl.property_zip,
+  sl.lead_type,
+  sl.source_created_at,
+  sl.match_status,
+  sl.match_confidence,
+
+  ls.display_name as lead_source,
+  ls.slug as lead_source_slug,
+
+  ri.file_name as import_file,
+  ri.created_at as imported_at,
+
+  lm.id as match_id,
+  lm.match_type,
+  lm.match_confidence as match_score,
+  lm.created_at as matched_at,
+
+  fl.id as fub_lead_uuid,
+  fl.fub_lead_id,
+  fl.fub_stage,
+  fl.assigned_user_name as fub_assigned_to,
+  fl.assigned_user_email as fub_assigned_email,
+  fl.fub_source,
+  fl.fub_created_at,
+
+  t.id as team_id,
+  t.name as attributed_team,
+
+  a.id as agent_id,
+  a.first_name || ' ' || a.last_name as attributed_agent,
+  a.email as agent_email,
+
+  o.id as organization_id,
+  o.name as organization,
+
+  coalesce(fd.deal_count, 0) as deal_count,
+  coalesce(fd.closed_deals, 0) as closed_deals,
+  coalesce(fd.closed_volume, 0) as closed_volume,
+  coalesce(fd.closed_gci, 0) as closed_gci,
+  fd.last_close_date
+
+from source_leads sl
+left join lead_sources ls on ls.id = sl.lead_source_id
+left join raw_ingestions ri on ri.id = sl.ingestion_id
+left join lead_matches lm on lm.source_lead_id = sl.id and lm.status = 'active'
+left join fub_leads fl on fl.id = lm.fub_lead_id
+left join teams t on t.id = lm.attributed_team_id
+left join agents a on a.id = lm.attributed_agent_id
+left join organizations o on o.id = sl.organization_id
+left join v_fub_lead_deals fd on fd.fub_lead_id = fl.id;
+
+-- Summary by source, with closed deals of the leads it sent. Several of its
+-- source leads can match the same FUB lead, so deals count once per FUB lead.
+create or replace view v_source_summary as
+select
+  ls.id as lead_source_id,
+  ls.slug as source_slug,
+  ls.display_name as source,
+  o.id as organization_id,
+  o.name as organization,
+  count(sl.id) as total_leads,
+  count(case when sl.match_status = 'matched' then 1 end) as matched_leads,
+  count(case when sl.match_status = 'unmatched' then 1 end) as unmatched_leads,
+  count(case when sl.match_status = 'pending' then 1 end) as pending_leads,
+  count(case when sl.match_status = 'review' then 1 end) as review_leads,
+  round(100.0 * count(case when sl.match_status = 'matched' then 1 end) / nullif(count(sl.id), 0), 2) as match_rate,
+  min(sl.source_created_at) as earliest_lead,
+  max(sl.source_created_at) as latest_lead,
+  min(sl.created_at) as first_import,
+  max(sl.created_at) as last_import,
+  deals.closed_deals,
+  deals.closed_volume,
+  deals.closed_gci
+from lead_sources ls
+cross join organizations o
+left join source_leads sl on sl.lead_source_id = ls.id and sl.organization_id = o.id
+left join lateral (
+  select
+    coalesce(sum(fd.closed_deals), 0) as closed_deals,
+    coalesce(sum(fd.closed_volume), 0) as closed_volume,
+    coalesce(sum(fd.closed_gci), 0) as closed_gci
+  from (
+    select distinct dm.fub_lead_id
+    from source_leads dsl
+    join lead_matches dm on dm.source_lead_id = dsl.id and dm.status = 'active'
+    where dsl.lead_source_id = ls.id
+      and dsl.organization_id = o.id
+  ) dl
+  join v_fub_lead_deals fd on fd.fub_lead_id = dl.fub_lead_id
+) deals on true
+group by ls.id, ls.slug, ls.display_name, o.id, o.name,
+  deals.closed_deals, deals.closed_volume, deals.closed_gci;
+
+-- Summary by team, with closed deals of its attributed leads (once per FUB lead)
+create or replace view v_team_summary as
+select
+  t.id as team_id,
+  t.name as team,
+  o.id as organization_id,
+  o.name as organization,
+  count(distinct lm.id) as total_attributed,
+  count(distinct case when lm.created_at > now() - interval '7 days' then lm.id end) as attributed_last_7_days,
+  count(distinct case when lm.created_at > now() - interval '30 days' then lm.id end) as attributed_last_30_days,
+  count(distinct a.id) as agent_count,
+  count(distinct sl.lead_source_id) as source_count,
+  avg(lm.match_confidence) as avg_match_confidence,
+  deals.closed_deals,
+  deals.closed_volume,
+  deals.closed_gci
+from teams t
+join organizations o on o.id = t.organization_id
+left join lead_matches lm on lm.attributed_team_id = t.id and lm.status = 'active'
+left join agents a on a.team_id = t.id and a.status = 'active'
+left join source_leads sl on sl.id = lm.source_lead_id
+left join lateral (
+  select
+    coalesce(sum(fd.closed_deals), 0) as closed_deals,
+    coalesce(sum(fd.closed_volume), 0) as closed_volume,
+    coalesce(sum(fd.closed_gci), 0) as closed_gci
+  from (
+    select distinct dm.fub_lead_id
+    from lead_matches dm
+    where dm.attributed_team_id = t.id
+      and dm.status = 'active'
+  ) dl
+  join v_fub_lead_deals fd on fd.fub_lead_id = dl.fub_lead_id
+) deals on true
+group by t.id, t.name, o.id, o.name,
+  deals.closed_deals, deals.closed_volume, deals.closed_gci;
+
+-- Summary by agent, with closed deals of their attributed leads (once per FUB lead)
+create or replace view v_agent_summary as
+select
+  a.id as agent_id,
+  a.first_name,
+  a.last_name,
+  a.email,
+  t.id as team_id,
+  t.name as team,
+  o.id as organization_id,
+  o.name as organization,
+  count(distinct lm.id) as total_attributed,
+  count(distinct case when lm.created_at > now() - interval '7 days' then lm.id end) as attributed_last_7_days,
+  count(distinct case when lm.created_at > now() - interval '30 days' then lm.id end) as attributed_last_30_days,
+  count(distinct sl.lead_source_id) as source_count,
+  avg(lm.match_confidence) as avg_match_confidence,
+  deals.closed_deals,
+  deals.closed_volume,
+  deals.closed_gci
+from agents a
+join teams t on t.id = a.team_id
+join organizations o on o.id = t.organization_id
+left join lead_matches lm on lm.attributed_agent_id = a.id and lm.status = 'active'
+left join source_leads sl on sl.id = lm.source_lead_id
+left join lateral (
+  select
+    coalesce(sum(fd.closed_deals), 0) as closed_deals,
+    coalesce(sum(fd.closed_volume), 0) as closed_volume,
+    coalesce(sum(fd.closed_gci), 0) as closed_gci
+  from (
+    select distinct dm.fub_lead_id
+    from lead_matches dm
+    where dm.attributed_agent_id = a.id
+      and dm.status = 'active'
+  ) dl
+  join v_fub_lead_deals fd on fd.fub_lead_id = dl.fub_lead_id
+) deals on true
+group by a.id, a.first_name, a.last_name, a.email, t.id, t.name, o.id, o.name,
+  deals.closed_deals, deals.closed_volume, deals.closed_gci;
+
+-- Closed revenue by source, team and agent. A FUB lead matched from several
+-- source leads credits its deals once, to its first touch: the match of the
+-- source lead that arrived first. Rows therefore add up to the real total.
+create or replace view v_closed_revenue as
+with first_touch as (
+  select distinct on (lm.fub_lead_id) lm.id as match_id
+  from lead_matches lm
+  join source_leads sl on sl.id = lm.source_lead_id
+  where lm.status = 'active'
+  order by lm.fub_lead_id, coalesce(sl.source_created_at, sl.created_at), lm.created_at, lm.id
+)
+select
+  sl.organization_id,
+  ls.id as lead_source_id,
+  ls.display_name as source,
+  t.id as team_id,
+  t.name as team,
+  a.id as agent_id,
+  a.first_name || ' ' || a.last_name as agent,
+  count(distinct sl.id) as attributed_leads,
+  coalesce(sum(fd.closed_deals), 0) as closed_deals,
+  coalesce(sum(fd.closed_volume), 0) as closed_volume,
+  coalesce(sum(fd.closed_gci), 0) as closed_gci,
+  max(fd.last_close_date) as last_close_date
+from lead_matches lm
+join source_leads sl on sl.id = lm.source_lead_id
+left join lead_sources ls on ls.id = sl.lead_source_id
+left join teams t on t.id = lm.attributed_team_id
+left join agents a on a.id = lm.attributed_agent_id
+left join first_touch ft on ft.match_id = lm.id
+left join v_fub_lead_deals fd on fd.fub_lead_id = lm.fub_lead_id and ft.match_id is not null
+where lm.status = 'active'
+group by sl.organization_id, ls.id, ls.display_name, t.id, t.name, a.id, a.first_name, a.last_name;
@@ -0,0 +1,96 @@
+-- Migration: FUB agent provisioning
+-- Description: Agents and teams reconciled from Follow Up Boss users and groups, with review of ambiguous mappings
+
+-- ============================================
+-- GROUP MAPPINGS
+-- ============================================
+
+-- A FUB group maps to one team per connection. The mapping with a null
+-- fub_team_id is the connection's default team, for users in no group.
+create unique index if not exists idx_team_fub_mappings_group
+  on team_fub_mappings(fub_connection_id, fub_team_id)
+  where fub_team_id is not null;
+
+create unique index if not exists idx_team_fub_mappings_default
+  on team_fub_mappings(fub_connection_id)
+  where fub_team_id is null;
+
+create index if not exists idx_agents_email on agents(lower(email));
+
+-- ============================================
+-- MAPPING REVIEWS
+-- ============================================
+
+-- FUB users and groups that sync couldn't map on its own:
+--   multiple_agents    - the user's email belongs to agents in several teams
+--   fub_user_conflict  - the agent with that email is linked to another FUB user
+--   multiple_groups    - a new user is in groups mapped to different teams
+--   multiple_teams     - a group's name matches several teams
+-- candidates: [{"id": "<agent or team id>", "type": "agent" | "team", "label": "..."}]
+create table fub_mapping_reviews (
+  id uuid primary key default gen_random_uuid(),
+  organization_id uuid references organizations(id) on delete cascade not null,
+  fub_connection_id uuid references fub_connections(id) on delete cascade not null,
+
+  kind text not null check (kind in ('user', 'group')),
+  fub_id bigint not null, -- FUB user or group ID
+  fub_name text,
+  fub_email text,
+  fub_first_name text,
+  fub_last_name text,
+
+  reason text not null check (reason in (
+    'multiple_agents', 'fub_user_conflict', 'multiple_groups', 'multiple_teams'
+  )),
+  candidates jsonb default '[]',
+
+  status text default 'pending' check (status in ('pending', 'resolved', 'dismissed')),
+  resolved_target_id uuid, -- chosen agent or team
+  resolved_by uuid,
+  resolved_at timestamptz,
+
+  created_at timestamptz default now(),
+  updated_at timestamptz default now(),
+
+  -- Each user or group is reviewed once; dismissed items aren't raised again
+  unique(fub_connection_id, kind, fub_id)
+);
+
+create index idx_fub_mapping_reviews_pending on fub_mapping_reviews(organization_id, created_at desc)
+  where status = 'pending';
+
+-- ============================================
+-- ATTRIBUTION BACKFILL
+-- ============================================
+
+-- Attribute active matches that have no agent yet, now that their FUB
+-- assignee may map to one. Uses the same lookup as create_lead_match.
+-- Returns the number of matches attributed.
+create or replace function backfill_match_attribution(p_organization_id uuid)
+returns int language plpgsql as $$
+declare
+  v_attributed int;
+begin
+  update lead_matches lm
+  set attributed_agent_id = pick.agent_id,
+      attributed_team_id = pick.team_id
+  from (
+    select distinct on (lm2.id)
+      lm2.id as match_id,
+      a.id as agent_id,
+      a.team_id
+    from lead_matches lm2
+    join fub_leads fl on fl.id = lm2.fub_lead_id
+    join agents a on a.fub_user_id = fl.assigned_user_id
+    join teams t on t.id = a.team_id and t.organization_id = fl.organization_id
+    where lm2.status = 'active'
+      and lm2.attributed_agent_id is null
+      and fl.organization_id = p_organization_id
+    order by lm2.id, (a.status = 'active') desc, a.created_at
+  ) pick
+  where lm.id = pick.match_id;
+
+  get diagnostics v_attributed = row_count;
+  return v_attributed;
+end;
+$$;
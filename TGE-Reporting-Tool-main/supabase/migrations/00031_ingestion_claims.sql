@@ -0,0 +1,29 @@
+-- Migration: Ingestion claims
+-- Description: Let one csv-parser or lead-transformer invocation at a time own an ingestion
+
+-- ============================================
+-- CLAIMS
+-- ============================================
+
+-- Set by the invocation that moves an ingestion into 'processing' or
+-- 'transforming', and passed on when it hands off to a fresh invocation.
+-- The claim is taken with an update guarded on the status (and on the
+-- previous claim when continuing), so a second trigger for the same
+-- ingestion finds nothing to update and stops instead of running alongside.
+alter table raw_ingestions add column if not exists claim_id uuid;
+
+-- A superseded csv-parser invocation can still insert a chunk after the new
+-- claimant deleted the rows past its checkpoint; one row per row_number
+-- keeps that from turning into duplicate leads
+create unique index if not exists idx_raw_lead_rows_ingestion_row
+  on raw_lead_rows(ingestion_id, row_number);
+
+-- ============================================
+-- TRANSFORMATION CHUNKS
+-- ============================================
+
+-- lead-transformer reads the rows still waiting for a source lead in
+-- row_number order, one chunk at a time
+create index if not exists idx_raw_lead_rows_untransformed
+  on raw_lead_rows(ingestion_id, row_number)
+  where is_valid = true and is_duplicate = false and source_lead_id is null;
@@ -0,0 +1,11 @@
+-- Migration: Ingestion progress
+-- Description: Estimated row count so an upload shows progress while it is parsed
+
+-- ============================================
+-- ESTIMATED ROWS
+-- ============================================
+
+-- Files are streamed, so total_rows is only known once parsing finishes.
+-- csv-parser writes an estimate when it starts (CSV and TSV only, from their
+-- line breaks) so parsed_rows can be shown against it until then.
+alter table raw_ingestions add column if not exists estimated_rows int;
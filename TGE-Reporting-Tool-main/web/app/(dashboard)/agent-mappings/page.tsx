@@ -0,0 +1,264 @@
+"use client";
+
+import { useState, useEffect, useCallback } from "react";
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { RefreshCw } from "lucide-react";
+import { createClient } from "@/lib/supabase/client";
+import { FubMappingReason, FubMappingReview } from "@/types";
+
+// Row shape of fub_mapping_reviews
+interface ReviewRow {
+  id: string;
+  kind: "user" | "group";
+  fub_id: number;
+  fub_name: string | null;
+  fub_email: string | null;
+  fub_first_name: string | null;
+  fub_last_name: string | null;
+  reason: FubMappingReason;
+  candidates: FubMappingReview["candidates"] | null;
+  status: FubMappingReview["status"];
+  resolved_target_id: string | null;
+  resolved_at: string | null;
+  created_at: string;
+}
+
+type StatusFilter = FubMappingReview["status"];
+
+const REASONS: Record<FubMappingReason, string> = {
+  multiple_agents: "Email belongs to agents in more than one team",
+  fub_user_conflict: "Agent with this email is linked to another FUB user",
+  multiple_groups: "In FUB groups mapped to different teams",
+  multiple_teams: "Group name matches more than one team",
+};
+
+function toReview(row: ReviewRow): FubMappingReview {
+  const name =
+    row.fub_name ||
+    [row.fub_first_name, row.fub_last_name].filter(Boolean).join(" ") ||
+    row.fub_email ||
+    `FUB ${row.kind} #${row.fub_id}`;
+
+  return {
+    id: row.id,
+    kind: row.kind,
+    fubId: row.fub_id,
+    name,
+    email: row.fub_email ?? undefined,
+    reason: row.reason,
+    candidates: row.candidates || [],
+    status: row.status,
+    resolvedTargetId: row.resolved_target_id ?? undefined,
+    resolvedAt: row.resolved_at ?? undefined,
+    createdAt: row.created_at,
+  };
+}
+
+export default function AgentMappingsPage() {
+  const [reviews, setReviews] = useState<FubMappingReview[]>([]);
+  const [statusFilter, setStatusFilter] = useState<StatusFilter>("pending");
+  const [isAdmin, setIsAdmin] = useState(false);
+  const [isLoading, setIsLoading] = useState(true);
+  const [submittingId, setSubmittingId] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [targets, setTargets] = useState<Record<string, string>>({});
+
+  const fetchReviews = useCallback(async () => {
+    setIsLoading(true);
+    setError(null);
+    const supabase = createClient();
+
+    try {
+      const { data: { user } } = await supabase.auth.getUser();
+      setIsAdmin(user?.app_metadata?.role === "admin");
+
+      const { data, error: queryError } = await supabase
+        .from("fub_mapping_reviews")
+        .select("*")
+        .eq("status", statusFilter)
+        .order("created_at", { ascending: false })
+        .limit(100);
+
+      if (queryError) {
+        throw new Error(queryError.message);
+      }
+
+      setReviews(((data || []) as ReviewRow[]).map(toReview));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to load mappings");
+    } finally {
+      setIsLoading(false);
+    }
+  }, [statusFilter]);
+
+  useEffect(() => {
+    fetchReviews();
+  }, [fetchReviews]);
+
+  const submit = async (reviewId: string, body: Record<string, unknown>) => {
+    setSubmittingId(reviewId);
+    setError(null);
+    const supabase = createClient();
+
+    try {
+      const { error: invokeError } = await supabase.functions.invoke("fub-mappings", {
+        body: { review_id: reviewId, ...body },
+      });
+
+      if (invokeError) {
+        throw new Error(invokeError.message);
+      }
+
+      setReviews((prev) => prev.filter((r) => r.id !== reviewId));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Request failed");
+    } finally {
+      setSubmittingId(null);
+    }
+  };
+
+  return (
+    <div className="p-6">
+      {/* Header */}
+      <div className="flex items-center justify-between mb-6">
+        <div>
+          <h1 className="text-2xl font-bold">Agent Mapping</h1>
+          <p className="text-muted-foreground">
+            Follow Up Boss users and groups that need an agent or team chosen
+          </p>
+        </div>
+        <Button variant="outline" onClick={fetchReviews} disabled={isLoading}>
+          <RefreshCw className={`h-4 w-4 mr-2 ${isLoading ? "animate-spin" : ""}`} />
+          Refresh
+        </Button>
+      </div>
+
+      {error && <p className="mb-4 text-sm text-destructive">{error}</p>}
+
+      <Card>
+        <CardHeader className="flex flex-row items-start justify-between">
+          <div>
+            <CardTitle>
+              {statusFilter === "pending"
+                ? "Needs Review"
+                : statusFilter === "resolved"
+                  ? "Resolved"
+                  : "Dismissed"}
+            </CardTitle>
+            <CardDescription>
+              {isLoading ? "Loading..." : `${reviews.length} mapping${reviews.length !== 1 ? "s" : ""}`}
+              {statusFilter === "pending" && !isAdmin && " · only admins can resolve mappings"}
+            </CardDescription>
+          </div>
+          <Select
+            value={statusFilter}
+            onValueChange={(value) => setStatusFilter(value as StatusFilter)}
+          >
+            <SelectTrigger className="w-[160px]">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="pending">Needs review</SelectItem>
+              <SelectItem value="resolved">Resolved</SelectItem>
+              <SelectItem value="dismissed">Dismissed</SelectItem>
+            </SelectContent>
+          </Select>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {!isLoading && reviews.length === 0 && (
+            <p className="text-sm text-muted-foreground">
+              {statusFilter === "pending"
+                ? "Every FUB user and group is mapped."
+                : "Nothing here yet."}
+            </p>
+          )}
+
+          {reviews.map((review) => {
+            const resolvedTarget = review.candidates.find((c) => c.id === review.resolvedTargetId);
+
+            return (
+              <div key={review.id} className="rounded-lg border p-4 space-y-3">
+                <div className="flex items-start justify-between gap-4">
+                  <div className="min-w-0">
+                    <p className="font-medium">
+                      {review.name}
+                      <span className="text-muted-foreground font-normal">
+                        {" "}(FUB {review.kind} #{review.fubId})
+                      </span>
+                    </p>
+                    {review.email && (
+                      <p className="text-sm text-muted-foreground">{review.email}</p>
+                    )}
+                  </div>
+                  <Badge variant={review.kind === "user" ? "secondary" : "outline"}>
+                    {review.kind === "user" ? "User" : "Group"}
+                  </Badge>
+                </div>
+
+                <p className="text-sm">
+                  <span className="text-muted-foreground">Reason: </span>
+                  {REASONS[review.reason]}
+                </p>
+
+                {review.status === "resolved" && (
+                  <p className="text-sm">
+                    <span className="text-muted-foreground">Mapped to: </span>
+                    {resolvedTarget?.label || review.resolvedTargetId}
+                  </p>
+                )}
+
+                {review.status === "pending" && isAdmin && (
+                  <div className="flex flex-col lg:flex-row gap-2">
+                    <Select
+                      value={targets[review.id] || ""}
+                      onValueChange={(value) =>
+                        setTargets((prev) => ({ ...prev, [review.id]: value }))
+                      }
+                    >
+                      <SelectTrigger className="lg:w-[360px]">
+                        <SelectValue
+                          placeholder={
+                            review.candidates[0]?.type === "agent" ? "Choose an agent" : "Choose a team"
+                          }
+                        />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {review.candidates.map((candidate) => (
+                          <SelectItem key={candidate.id} value={candidate.id}>
+                            {candidate.label}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <Button
+                      onClick={() => submit(review.id, { action: "resolve", target_id: targets[review.id] })}
+                      disabled={submittingId === review.id || !targets[review.id]}
+                    >
+                      Resolve
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      onClick={() => submit(review.id, { action: "dismiss" })}
+                      disabled={submittingId === review.id}
+                    >
+                      Dismiss
+                    </Button>
+                  </div>
+                )}
+              </div>
+            );
+          })}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,480 @@
+"use client";
+
+import { useState, useEffect, useCallback } from "react";
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card";
+import {
+  Table,
+  TableHeader,
+  TableBody,
+  TableRow,
+  TableHead,
+  TableCell,
+} from "@/components/ui/table";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Search, Flag, RefreshCw } from "lucide-react";
+import { createClient } from "@/lib/supabase/client";
+import { DisputeResolution, MatchDispute } from "@/types";
+
+// Row shape returned by the v_match_disputes view
+interface DisputeRow {
+  dispute_id: string;
+  status: "open" | "resolved";
+  reason: string;
+  raised_at: string;
+  resolution: DisputeResolution | null;
+  resolved_at: string | null;
+  resolution_notes: string | null;
+  match_id: string;
+  match_type: string;
+  match_confidence: number;
+  source_email: string | null;
+  source_phone: string | null;
+  source_name: string | null;
+  source_address: string | null;
+  lead_source: string;
+  fub_lead_id: number;
+  fub_email: string | null;
+  fub_first_name: string | null;
+  fub_last_name: string | null;
+  fub_assigned_to: string | null;
+  attributed_team: string | null;
+  attributed_agent: string | null;
+}
+
+// Matched leads from v_lead_attribution
+interface AttributionRow {
+  match_id: string;
+  source_lead_id: string;
+  email: string | null;
+  first_name: string | null;
+  last_name: string | null;
+  full_name: string | null;
+  lead_source: string;
+  match_type: string;
+  match_score: number;
+  fub_lead_id: number;
+  fub_assigned_to: string | null;
+  attributed_team: string | null;
+}
+
+const RESOLUTIONS: { value: DisputeResolution; label: string }[] = [
+  { value: "dismiss", label: "Dismiss (keep match)" },
+  { value: "invalidate", label: "Invalidate match" },
+  { value: "reattribute", label: "Re-attribute to another FUB lead" },
+  { value: "reopen", label: "Reopen lead for matching" },
+];
+
+function joinName(first: string | null, last: string | null, fallback?: string | null): string {
+  const name = [first, last].filter(Boolean).join(" ");
+  return name || fallback || "Unknown";
+}
+
+function toDispute(row: DisputeRow): MatchDispute {
+  return {
+    id: row.dispute_id,
+    status: row.status,
+    reason: row.reason,
+    raisedAt: row.raised_at,
+    resolution: row.resolution ?? undefined,
+    resolvedAt: row.resolved_at ?? undefined,
+    resolutionNotes: row.resolution_notes ?? undefined,
+    matchId: row.match_id,
+    matchType: row.match_type,
+    matchConfidence: Number(row.match_confidence),
+    sourceLead: {
+      name: row.source_name || "Unknown",
+      email: row.source_email ?? undefined,
+      phone: row.source_phone ?? undefined,
+      address: row.source_address ?? undefined,
+      source: row.lead_source,
+    },
+    fubLead: {
+      fubLeadId: row.fub_lead_id,
+      name: joinName(row.fub_first_name, row.fub_last_name),
+      email: row.fub_email ?? undefined,
+      assignedTo: row.fub_assigned_to ?? undefined,
+    },
+    attributedTeam: row.attributed_team ?? undefined,
+    attributedAgent: row.attributed_agent ?? undefined,
+  };
+}
+
+export default function DisputesPage() {
+  const [disputes, setDisputes] = useState<MatchDispute[]>([]);
+  const [statusFilter, setStatusFilter] = useState<"open" | "resolved">("open");
+  const [isAdmin, setIsAdmin] = useState(false);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Flagging
+  const [searchQuery, setSearchQuery] = useState("");
+  const [matches, setMatches] = useState<AttributionRow[]>([]);
+  const [flaggingId, setFlaggingId] = useState<string | null>(null);
+  const [reason, setReason] = useState("");
+
+  // Resolving
+  const [resolvingId, setResolvingId] = useState<string | null>(null);
+  const [resolution, setResolution] = useState<DisputeResolution>("dismiss");
+  const [fubPersonId, setFubPersonId] = useState("");
+  const [notes, setNotes] = useState("");
+
+  const fetchDisputes = useCallback(async () => {
+    setIsLoading(true);
+    setError(null);
+    const supabase = createClient();
+
+    try {
+      const { data: { user } } = await supabase.auth.getUser();
+      setIsAdmin(user?.app_metadata?.role === "admin");
+
+      const { data, error: queryError } = await supabase
+        .from("v_match_disputes")
+        .select("*")
+        .eq("status", statusFilter)
+        .limit(100);
+
+      if (queryError) {
+        throw new Error(queryError.message);
+      }
+
+      setDisputes(((data || []) as DisputeRow[]).map(toDispute));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to load disputes");
+    } finally {
+      setIsLoading(false);
+    }
+  }, [statusFilter]);
+
+  useEffect(() => {
+    fetchDisputes();
+  }, [fetchDisputes]);
+
+  const searchMatches = async () => {
+    const query = searchQuery.trim();
+    if (!query) return;
+
+    setError(null);
+    const supabase = createClient();
+
+    const { data, error: queryError } = await supabase
+      .from("v_lead_attribution")
+      .select(
+        "match_id, source_lead_id, email, first_name, last_name, full_name, lead_source, match_type, match_score, fub_lead_id, fub_assigned_to, attributed_team"
+      )
+      .not("match_id", "is", null)
+      .or(`email.ilike.%${query}%,first_name.ilike.%${query}%,last_name.ilike.%${query}%,full_name.ilike.%${query}%`)
+      .limit(20);
+
+    if (queryError) {
+      setError(queryError.message);
+      return;
+    }
+
+    setMatches((data || []) as AttributionRow[]);
+  };
+
+  const invoke = async (body: Record<string, unknown>): Promise<boolean> => {
+    setIsSubmitting(true);
+    setError(null);
+    const supabase = createClient();
+
+    try {
+      const { error: invokeError } = await supabase.functions.invoke("match-dispute", { body });
+
+      if (invokeError) {
+        throw new Error(invokeError.message);
+      }
+
+      return true;
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Request failed");
+      return false;
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const submitDispute = async (matchId: string) => {
+    const ok = await invoke({ action: "dispute", match_id: matchId, reason });
+
+    if (ok) {
+      setMatches((prev) => prev.filter((m) => m.match_id !== matchId));
+      setFlaggingId(null);
+      setReason("");
+      fetchDisputes();
+    }
+  };
+
+  const submitResolution = async (disputeId: string) => {
+    if (resolution === "reattribute" && !fubPersonId.trim()) {
+      setError("Enter the FUB person ID to re-attribute to");
+      return;
+    }
+
+    const ok = await invoke({
+      action: "resolve",
+      dispute_id: disputeId,
+      resolution,
+      fub_person_id: resolution === "reattribute" ? Number(fubPersonId) : undefined,
+      notes: notes || undefined,
+    });
+
+    if (ok) {
+      setDisputes((prev) => prev.filter((d) => d.id !== disputeId));
+      setResolvingId(null);
+      setResolution("dismiss");
+      setFubPersonId("");
+      setNotes("");
+    }
+  };
+
+  return (
+    <div className="p-6">
+      {/* Header */}
+      <div className="flex items-center justify-between mb-6">
+        <div>
+          <h1 className="text-2xl font-bold">Disputes</h1>
+          <p className="text-muted-foreground">
+            Challenge lead attribution and resolve disputed matches
+          </p>
+        </div>
+        <Button variant="outline" onClick={fetchDisputes} disabled={isLoading}>
+          <RefreshCw className={`h-4 w-4 mr-2 ${isLoading ? "animate-spin" : ""}`} />
+          Refresh
+        </Button>
+      </div>
+
+      {error && <p className="mb-4 text-sm text-destructive">{error}</p>}
+
+      {/* Flag a match */}
+      <Card className="mb-6">
+        <CardHeader>
+          <CardTitle>Dispute a Match</CardTitle>
+          <CardDescription>
+            Find a matched lead and explain why its attribution is wrong
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="flex gap-2">
+            <div className="flex-1 relative">
+              <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+              <Input
+                placeholder="Search by name or email..."
+                value={searchQuery}
+                onChange={(e) => setSearchQuery(e.target.value)}
+                onKeyDown={(e) => e.key === "Enter" && searchMatches()}
+                className="pl-9"
+              />
+            </div>
+            <Button variant="outline" onClick={searchMatches}>
+              Search
+            </Button>
+          </div>
+
+          {matches.length > 0 && (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Lead</TableHead>
+                  <TableHead>Source</TableHead>
+                  <TableHead>FUB Person</TableHead>
+                  <TableHead>Attributed To</TableHead>
+                  <TableHead>Match</TableHead>
+                  <TableHead />
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {matches.map((match) => (
+                  <TableRow key={match.match_id}>
+                    <TableCell>
+                      <p className="font-medium">
+                        {joinName(match.first_name, match.last_name, match.full_name)}
+                      </p>
+                      <p className="text-sm text-muted-foreground">{match.email}</p>
+                    </TableCell>
+                    <TableCell>
+                      <Badge variant="secondary">{match.lead_source}</Badge>
+                    </TableCell>
+                    <TableCell className="text-sm">#{match.fub_lead_id}</TableCell>
+                    <TableCell className="text-sm">
+                      {match.fub_assigned_to || "-"}
+                      {match.attributed_team && (
+                        <p className="text-muted-foreground">{match.attributed_team}</p>
+                      )}
+                    </TableCell>
+                    <TableCell className="text-sm">
+                      {match.match_type.replace("_", " ")} ({(Number(match.match_score) * 100).toFixed(0)}%)
+                    </TableCell>
+                    <TableCell className="text-right">
+                      {flaggingId === match.match_id ? (
+                        <div className="flex gap-2 justify-end">
+                          <Input
+                            placeholder="Reason"
+                            value={reason}
+                            onChange={(e) => setReason(e.target.value)}
+                            className="w-56"
+                          />
+                          <Button
+                            size="sm"
+                            onClick={() => submitDispute(match.match_id)}
+                            disabled={isSubmitting || !reason.trim()}
+                          >
+                            Submit
+                          </Button>
+                          <Button size="sm" variant="ghost" onClick={() => setFlaggingId(null)}>
+                            Cancel
+                          </Button>
+                        </div>
+                      ) : (
+                        <Button
+                          size="sm"
+                          variant="outline"
+                          onClick={() => {
+                            setFlaggingId(match.match_id);
+                            setReason("");
+                          }}
+                        >
+                          <Flag className="h-4 w-4 mr-2" />
+                          Dispute
+                        </Button>
+                      )}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* Disputes */}
+      <Card>
+        <CardHeader className="flex flex-row items-start justify-between">
+          <div>
+            <CardTitle>{statusFilter === "open" ? "Open Disputes" : "Resolved Disputes"}</CardTitle>
+            <CardDescription>
+              {isLoading ? "Loading..." : `${disputes.length} dispute${disputes.length !== 1 ? "s" : ""}`}
+              {statusFilter === "open" && !isAdmin && " · only admins can resolve disputes"}
+            </CardDescription>
+          </div>
+          <Select
+            value={statusFilter}
+            onValueChange={(value) => setStatusFilter(value as "open" | "resolved")}
+          >
+            <SelectTrigger className="w-[160px]">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="open">Open</SelectItem>
+              <SelectItem value="resolved">Resolved</SelectItem>
+            </SelectContent>
+          </Select>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {disputes.map((dispute) => (
+            <div key={dispute.id} className="rounded-lg border p-4 space-y-3">
+              <div className="flex items-start justify-between gap-4">
+                <div className="min-w-0">
+                  <p className="font-medium">
+                    {dispute.sourceLead.name}
+                    <span className="text-muted-foreground font-normal">
+                      {" "}→ {dispute.fubLead.name} (FUB #{dispute.fubLead.fubLeadId})
+                    </span>
+                  </p>
+                  <p className="text-sm text-muted-foreground">
+                    {dispute.sourceLead.email || dispute.sourceLead.phone} ·{" "}
+                    {dispute.attributedAgent || dispute.fubLead.assignedTo || "Unassigned"}
+                    {dispute.attributedTeam && ` (${dispute.attributedTeam})`}
+                  </p>
+                </div>
+                <div className="flex gap-2 shrink-0">
+                  <Badge variant="secondary">{dispute.sourceLead.source}</Badge>
+                  {dispute.resolution && (
+                    <Badge variant="outline">{dispute.resolution}</Badge>
+                  )}
+                </div>
+              </div>
+
+              <p className="text-sm">
+                <span className="text-muted-foreground">Reason: </span>
+                {dispute.reason}
+              </p>
+              {dispute.resolutionNotes && (
+                <p className="text-sm">
+                  <span className="text-muted-foreground">Resolution notes: </span>
+                  {dispute.resolutionNotes}
+                </p>
+              )}
+
+              {dispute.status === "open" && isAdmin && (
+                resolvingId === dispute.id ? (
+                  <div className="flex flex-col lg:flex-row gap-2">
+                    <Select
+                      value={resolution}
+                      onValueChange={(value) => setResolution(value as DisputeResolution)}
+                    >
+                      <SelectTrigger className="lg:w-[260px]">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {RESOLUTIONS.map((r) => (
+                          <SelectItem key={r.value} value={r.value}>
+                            {r.label}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    {resolution === "reattribute" && (
+                      <Input
+                        type="number"
+                        placeholder="FUB person ID"
+                        value={fubPersonId}
+                        onChange={(e) => setFubPersonId(e.target.value)}
+                        className="lg:w-40"
+                      />
+                    )}
+                    <Input
+                      placeholder="Notes (optional)"
+                      value={notes}
+                      onChange={(e) => setNotes(e.target.value)}
+                      className="flex-1"
+                    />
+                    <Button onClick={() => submitResolution(dispute.id)} disabled={isSubmitting}>
+                      Resolve
+                    </Button>
+                    <Button variant="ghost" onClick={() => setResolvingId(null)}>
+                      Cancel
+                    </Button>
+                  </div>
+                ) : (
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    onClick={() => {
+                      setResolvingId(dispute.id);
+                      setResolution("dismiss");
+                      setFubPersonId("");
+                      setNotes("");
+                    }}
+                  >
+                    Resolve
+                  </Button>
+                )
+              )}
+            </div>
+          ))}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
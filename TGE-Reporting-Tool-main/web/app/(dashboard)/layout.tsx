@@ -13,6 +13,8 @@ import {
   MessageSquare,
   Users,
   GitCompare,
+  Flag,
+  Upload,
   Lightbulb,
   Settings,
   Menu,
@@ -20,6 +22,7 @@ import {
   ChevronDown,
   LogOut,
   Building2,
+  UserCog,
 } from "lucide-react";
 
 const navigation = [
@@ -27,7 +30,10 @@ const navigation = [
   { name: "Chat", href: "/chat", icon: MessageSquare },
   { name: "Leads", href: "/leads", icon: Users },
   { name: "Matches", href: "/matches", icon: GitCompare },
+  { name: "Disputes", href: "/disputes", icon: Flag },
+  { name: "Upload", href: "/upload", icon: Upload },
   { name: "Insights", href: "/insights", icon: Lightbulb },
+  { name: "Agent Mapping", href: "/agent-mappings", icon: UserCog },
 ];
 
 const bottomNav = [
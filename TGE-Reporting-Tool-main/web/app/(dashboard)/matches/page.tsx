@@ -1,110 +1,411 @@
 "use client";
 
-import { useState } from "react";
+import { useState, useEffect, useCallback, useRef } from "react";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
 import { Progress } from "@/components/ui/progress";
 import { ScrollArea } from "@/components/ui/scroll-area";
 import { Separator } from "@/components/ui/separator";
-import { Check, X, ChevronRight, AlertCircle } from "lucide-react";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Check, X, ChevronRight, AlertCircle, RefreshCw } from "lucide-react";
+import { createClient } from "@/lib/supabase/client";
+import { MatchReason, MatchReviewItem } from "@/types";
 
-// Sample match candidates
-const matchCandidates = [
-  {
-    id: "1",
-    sourceLead: {
-      email: "john.smith@email.com",
-      name: "John Smith",
-      phone: "(555) 123-4567",
-      address: "123 Main St, Austin, TX",
-      source: "Zillow",
-    },
-    fubLead: {
-      email: "johnsmith@email.com",
-      name: "John D. Smith",
-      phone: "(555) 123-4567",
-      address: "123 Main Street, Austin, TX 78701",
-      assignedTo: "Sarah Agent",
-      stage: "Active",
-    },
-    confidence: 0.89,
-    matchReasons: [
-      { type: "phone_exact", score: 1.0 },
-      { type: "address_fuzzy", score: 0.92 },
-      { type: "name_fuzzy", score: 0.75 },
-    ],
-  },
-  {
-    id: "2",
-    sourceLead: {
-      email: "jane.doe@gmail.com",
-      name: "Jane Doe",
-      phone: "(555) 234-5678",
-      address: "456 Oak Ave, Austin, TX",
-      source: "Realtor.com",
-    },
-    fubLead: {
-      email: "jdoe@yahoo.com",
-      name: "Jane M. Doe",
-      phone: "(555) 234-5678",
-      address: "456 Oak Avenue, Austin, TX 78702",
-      assignedTo: "Mike Agent",
-      stage: "New",
-    },
-    confidence: 0.78,
-    matchReasons: [
-      { type: "phone_exact", score: 1.0 },
-      { type: "address_fuzzy", score: 0.85 },
-      { type: "name_fuzzy", score: 0.65 },
-    ],
-  },
-  {
-    id: "3",
+// Row shape returned by the v_match_review_queue view
+interface ReviewQueueRow {
+  candidate_id: string;
+  source_lead_id: string;
+  fub_lead_id: string;
+  confidence_score: number;
+  match_reasons: MatchReason[];
+  created_at: string;
+  expires_at: string;
+  source_email: string | null;
+  source_phone: string | null;
+  source_first_name: string | null;
+  source_last_name: string | null;
+  source_full_name: string | null;
+  source_address: string | null;
+  lead_source: string;
+  fub_email: string | null;
+  fub_phone: string | null;
+  fub_first_name: string | null;
+  fub_last_name: string | null;
+  fub_address: string | null;
+  fub_assigned_to: string | null;
+  fub_stage: string | null;
+  match_type: string | null;
+  ingestion_id: string | null;
+  ingestion_file: string | null;
+}
+
+interface QueueFilters {
+  source: string;
+  band: string;
+  matchType: string;
+  ingestion: string;
+}
+
+const ALL = "all";
+
+const CONFIDENCE_BANDS = [
+  { value: "high", label: "High (85%+)", min: 0.85, max: undefined },
+  { value: "medium", label: "Medium (60-85%)", min: 0.6, max: 0.85 },
+  { value: "low", label: "Low (<60%)", min: undefined, max: 0.6 },
+];
+
+// match-review accepts at most this many candidate ids per request
+const BULK_CHUNK_SIZE = 200;
+
+function joinName(first: string | null, last: string | null, fallback?: string | null): string {
+  const name = [first, last].filter(Boolean).join(" ");
+  return name || fallback || "Unknown";
+}
+
+function formatMatchType(type: string): string {
+  return type.replace("_", " ").replace(/\b\w/g, (l) => l.toUpperCase());
+}
+
+function toReviewItem(row: ReviewQueueRow): MatchReviewItem {
+  return {
+    id: row.candidate_id,
+    sourceLeadId: row.source_lead_id,
+    fubLeadId: row.fub_lead_id,
+    confidenceScore: Number(row.confidence_score),
+    matchReasons: row.match_reasons || [],
     sourceLead: {
-      email: "bob.wilson@email.com",
-      name: "Bob Wilson",
-      phone: "(555) 345-6789",
-      address: "789 Pine Rd, Austin, TX",
-      source: "OpCity",
+      name: joinName(row.source_first_name, row.source_last_name, row.source_full_name),
+      email: row.source_email ?? undefined,
+      phone: row.source_phone ?? undefined,
+      address: row.source_address ?? undefined,
+      source: row.lead_source,
     },
     fubLead: {
-      email: "bob.wilson@email.com",
-      name: "Robert Wilson",
-      phone: "(555) 999-8888",
-      address: "790 Pine Road, Austin, TX 78703",
-      assignedTo: "Lisa Agent",
-      stage: "Active",
+      name: joinName(row.fub_first_name, row.fub_last_name),
+      email: row.fub_email ?? undefined,
+      phone: row.fub_phone ?? undefined,
+      address: row.fub_address ?? undefined,
+      assignedTo: row.fub_assigned_to ?? undefined,
+      stage: row.fub_stage ?? undefined,
     },
-    confidence: 0.65,
-    matchReasons: [
-      { type: "email_exact", score: 1.0 },
-      { type: "address_fuzzy", score: 0.72 },
-      { type: "phone_mismatch", score: 0.0 },
-    ],
-  },
-];
+    matchType: row.match_type ?? undefined,
+    ingestionId: row.ingestion_id ?? undefined,
+    ingestionFile: row.ingestion_file ?? undefined,
+    createdAt: row.created_at,
+    expiresAt: row.expires_at,
+  };
+}
 
 export default function MatchesPage() {
-  const [candidates, setCandidates] = useState(matchCandidates);
-  const [selectedId, setSelectedId] = useState<string | null>(candidates[0]?.id || null);
+  const [candidates, setCandidates] = useState<MatchReviewItem[]>([]);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [checkedIds, setCheckedIds] = useState<Set<string>>(new Set());
+  const [filters, setFilters] = useState<QueueFilters>({
+    source: ALL,
+    band: ALL,
+    matchType: ALL,
+    ingestion: ALL,
+  });
+  const [filterOptions, setFilterOptions] = useState<{
+    sources: string[];
+    matchTypes: string[];
+    ingestions: { id: string; label: string }[];
+  }>({ sources: [], matchTypes: [], ingestions: [] });
+  const [notes, setNotes] = useState("");
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const notesRef = useRef<HTMLInputElement>(null);
 
   const selectedCandidate = candidates.find((c) => c.id === selectedId);
 
-  const handleApprove = (id: string) => {
-    setCandidates((prev) => prev.filter((c) => c.id !== id));
-    if (selectedId === id) {
-      setSelectedId(candidates.find((c) => c.id !== id)?.id || null);
+  // Filter values come from the whole queue so options don't disappear
+  // when a filter is applied
+  const fetchFilterOptions = useCallback(async () => {
+    const supabase = createClient();
+    const { data } = await supabase
+      .from("v_match_review_queue")
+      .select("lead_source, match_type, ingestion_id, ingestion_file");
+
+    const rows = (data || []) as Pick<
+      ReviewQueueRow,
+      "lead_source" | "match_type" | "ingestion_id" | "ingestion_file"
+    >[];
+
+    const ingestions = new Map<string, string>();
+    for (const row of rows) {
+      if (row.ingestion_id) {
+        ingestions.set(row.ingestion_id, row.ingestion_file || row.ingestion_id.slice(0, 8));
+      }
     }
-  };
 
-  const handleReject = (id: string) => {
-    setCandidates((prev) => prev.filter((c) => c.id !== id));
-    if (selectedId === id) {
-      setSelectedId(candidates.find((c) => c.id !== id)?.id || null);
+    setFilterOptions({
+      sources: [...new Set(rows.map((r) => r.lead_source))].sort(),
+      matchTypes: [...new Set(rows.map((r) => r.match_type).filter(Boolean) as string[])].sort(),
+      ingestions: [...ingestions].map(([id, label]) => ({ id, label })),
+    });
+  }, []);
+
+  // Load pending candidates from the review queue
+  const fetchCandidates = useCallback(async () => {
+    setIsLoading(true);
+    setError(null);
+    const supabase = createClient();
+
+    try {
+      let query = supabase.from("v_match_review_queue").select("*");
+
+      if (filters.source !== ALL) {
+        query = query.eq("lead_source", filters.source);
+      }
+      if (filters.matchType !== ALL) {
+        query = query.eq("match_type", filters.matchType);
+      }
+      if (filters.ingestion !== ALL) {
+        query = query.eq("ingestion_id", filters.ingestion);
+      }
+
+      const band = CONFIDENCE_BANDS.find((b) => b.value === filters.band);
+      if (band?.min !== undefined) {
+        query = query.gte("confidence_score", band.min);
+      }
+      if (band?.max !== undefined) {
+        query = query.lt("confidence_score", band.max);
+      }
+
+      const { data, error: queryError } = await query;
+
+      if (queryError) {
+        throw new Error(queryError.message);
+      }
+
+      const items = ((data || []) as ReviewQueueRow[]).map(toReviewItem);
+      setCandidates(items);
+      setSelectedId((current) =>
+        items.some((c) => c.id === current) ? current : items[0]?.id || null
+      );
+      setCheckedIds((current) => new Set(items.filter((c) => current.has(c.id)).map((c) => c.id)));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to load review queue");
+    } finally {
+      setIsLoading(false);
+    }
+  }, [filters]);
+
+  useEffect(() => {
+    fetchCandidates();
+  }, [fetchCandidates]);
+
+  useEffect(() => {
+    fetchFilterOptions();
+  }, [fetchFilterOptions]);
+
+  // Keep the focused candidate visible while moving with the keyboard
+  useEffect(() => {
+    if (selectedId) {
+      document.getElementById(`candidate-${selectedId}`)?.scrollIntoView({ block: "nearest" });
+    }
+  }, [selectedId]);
+
+  // Drop reviewed candidates and move focus to the next one in the list.
+  // Approving a match rejects the lead's other pending candidates, so those
+  // go too.
+  const removeCandidates = useCallback(
+    (ids: string[], approved = false) => {
+      const removed = new Set(ids);
+
+      if (approved) {
+        const sourceLeadIds = new Set(
+          candidates.filter((c) => removed.has(c.id)).map((c) => c.sourceLeadId)
+        );
+        candidates
+          .filter((c) => sourceLeadIds.has(c.sourceLeadId))
+          .forEach((c) => removed.add(c.id));
+      }
+
+      const index = candidates.findIndex((c) => c.id === selectedId);
+      const remaining = candidates.filter((c) => !removed.has(c.id));
+
+      setCandidates(remaining);
+      setCheckedIds((current) => new Set([...current].filter((id) => !removed.has(id))));
+
+      if (selectedId && removed.has(selectedId)) {
+        const next =
+          candidates.slice(index + 1).find((c) => !removed.has(c.id)) ||
+          remaining[remaining.length - 1];
+        setSelectedId(next?.id || null);
+      }
+    },
+    [candidates, selectedId]
+  );
+
+  // Persist the decision, then drop the candidate from the queue
+  const submitReview = useCallback(
+    async (id: string, action: "approve" | "reject") => {
+      setIsSubmitting(true);
+      setError(null);
+      const supabase = createClient();
+
+      try {
+        const { error: invokeError } = await supabase.functions.invoke("match-review", {
+          body: { action, candidate_id: id, notes: notes || undefined },
+        });
+
+        if (invokeError) {
+          throw new Error(invokeError.message);
+        }
+
+        removeCandidates([id], action === "approve");
+        setNotes("");
+      } catch (err) {
+        setError(err instanceof Error ? err.message : `Failed to ${action} match`);
+      } finally {
+        setIsSubmitting(false);
+      }
+    },
+    [notes, removeCandidates]
+  );
+
+  const submitBulkReview = async (action: "approve" | "reject") => {
+    const ids = candidates.filter((c) => checkedIds.has(c.id)).map((c) => c.id);
+    if (ids.length === 0) return;
+
+    setIsSubmitting(true);
+    setError(null);
+    const supabase = createClient();
+    const reviewed: string[] = [];
+    let failed = 0;
+    let firstError: string | null = null;
+
+    // Chunks are independent: one failing doesn't stop the rest
+    for (let i = 0; i < ids.length; i += BULK_CHUNK_SIZE) {
+      const chunk = ids.slice(i, i + BULK_CHUNK_SIZE);
+
+      try {
+        const { data, error: invokeError } = await supabase.functions.invoke("match-review", {
+          body: { action, candidate_ids: chunk, notes: notes || undefined },
+        });
+
+        if (invokeError) {
+          throw new Error(invokeError.message);
+        }
+
+        for (const result of (data?.results || []) as {
+          candidate_id: string;
+          success: boolean;
+          error?: string;
+        }[]) {
+          if (result.success) {
+            reviewed.push(result.candidate_id);
+          } else {
+            failed++;
+            firstError = firstError || result.error || "Unknown error";
+          }
+        }
+      } catch (err) {
+        failed += chunk.length;
+        firstError = firstError || (err instanceof Error ? err.message : `Failed to ${action} matches`);
+      }
     }
+
+    removeCandidates(reviewed, action === "approve");
+    if (reviewed.length > 0) setNotes("");
+    if (failed > 0) {
+      setError(
+        `${reviewed.length} ${action}d, ${failed} of ${ids.length} could not be ${action}d: ${firstError}`
+      );
+    }
+    setIsSubmitting(false);
+  };
+
+  const handleApprove = (id: string) => submitReview(id, "approve");
+
+  const handleReject = (id: string) => submitReview(id, "reject");
+
+  const toggleChecked = (id: string) => {
+    setCheckedIds((current) => {
+      const next = new Set(current);
+      if (next.has(id)) {
+        next.delete(id);
+      } else {
+        next.add(id);
+      }
+      return next;
+    });
+  };
+
+  const allChecked = candidates.length > 0 && checkedIds.size === candidates.length;
+
+  const toggleAll = () => {
+    setCheckedIds(allChecked ? new Set() : new Set(candidates.map((c) => c.id)));
   };
 
+  const updateFilter = (key: keyof QueueFilters, value: string) => {
+    setFilters((prev) => ({ ...prev, [key]: value }));
+    setCheckedIds(new Set());
+  };
+
+  // Keyboard triage: j/k move, a/r approve or reject, n adds a note, x toggles selection
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      const target = e.target as HTMLElement;
+      const isTyping =
+        (target instanceof HTMLInputElement && target.type !== "checkbox") ||
+        target instanceof HTMLTextAreaElement ||
+        target.isContentEditable;
+
+      if (isTyping) {
+        if (e.key === "Escape") target.blur();
+        return;
+      }
+
+      // Leave keys alone while a filter dropdown is open
+      if (target.closest("[role='listbox']")) return;
+
+      if (e.metaKey || e.ctrlKey || e.altKey || isSubmitting) return;
+
+      const index = candidates.findIndex((c) => c.id === selectedId);
+
+      switch (e.key) {
+        case "j":
+        case "ArrowDown":
+          if (index < candidates.length - 1) setSelectedId(candidates[index + 1].id);
+          break;
+        case "k":
+        case "ArrowUp":
+          if (index > 0) setSelectedId(candidates[index - 1].id);
+          break;
+        case "a":
+          if (selectedId) submitReview(selectedId, "approve");
+          break;
+        case "r":
+          if (selectedId) submitReview(selectedId, "reject");
+          break;
+        case "n":
+          notesRef.current?.focus();
+          break;
+        case "x":
+          if (selectedId) toggleChecked(selectedId);
+          break;
+        default:
+          return;
+      }
+
+      e.preventDefault();
+    };
+
+    window.addEventListener("keydown", handleKeyDown);
+    return () => window.removeEventListener("keydown", handleKeyDown);
+  }, [candidates, selectedId, isSubmitting, submitReview]);
+
   const getProgressColor = (value: number): "green" | "yellow" | "red" => {
     if (value > 0.8) return "green";
     if (value > 0.6) return "yellow";
@@ -115,18 +416,123 @@ export default function MatchesPage() {
     <div className="flex h-full">
       {/* Left panel - Candidate list */}
       <div className="w-96 border-r flex flex-col">
-        <div className="p-4 border-b">
-          <h1 className="text-xl font-bold">Match Review</h1>
-          <p className="text-sm text-muted-foreground">
-            {candidates.length} pending review{candidates.length !== 1 ? "s" : ""}
-          </p>
+        <div className="p-4 border-b flex items-start justify-between">
+          <div>
+            <h1 className="text-xl font-bold">Match Review</h1>
+            <p className="text-sm text-muted-foreground">
+              {isLoading
+                ? "Loading..."
+                : `${candidates.length} pending review${candidates.length !== 1 ? "s" : ""}`}
+            </p>
+          </div>
+          <Button
+            variant="ghost"
+            size="icon"
+            onClick={() => {
+              fetchCandidates();
+              fetchFilterOptions();
+            }}
+            disabled={isLoading}
+          >
+            <RefreshCw className={`h-4 w-4 ${isLoading ? "animate-spin" : ""}`} />
+          </Button>
+        </div>
+
+        {/* Filters */}
+        <div className="p-2 border-b grid grid-cols-2 gap-2">
+          <Select value={filters.source} onValueChange={(v) => updateFilter("source", v)}>
+            <SelectTrigger className="h-8 text-xs">
+              <SelectValue placeholder="Source" />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={ALL}>All Sources</SelectItem>
+              {filterOptions.sources.map((source) => (
+                <SelectItem key={source} value={source}>
+                  {source}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Select value={filters.band} onValueChange={(v) => updateFilter("band", v)}>
+            <SelectTrigger className="h-8 text-xs">
+              <SelectValue placeholder="Confidence" />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={ALL}>All Confidence</SelectItem>
+              {CONFIDENCE_BANDS.map((band) => (
+                <SelectItem key={band.value} value={band.value}>
+                  {band.label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Select value={filters.matchType} onValueChange={(v) => updateFilter("matchType", v)}>
+            <SelectTrigger className="h-8 text-xs">
+              <SelectValue placeholder="Match type" />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={ALL}>All Match Types</SelectItem>
+              {filterOptions.matchTypes.map((type) => (
+                <SelectItem key={type} value={type}>
+                  {formatMatchType(type)}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Select value={filters.ingestion} onValueChange={(v) => updateFilter("ingestion", v)}>
+            <SelectTrigger className="h-8 text-xs">
+              <SelectValue placeholder="Ingestion" />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={ALL}>All Ingestions</SelectItem>
+              {filterOptions.ingestions.map((ingestion) => (
+                <SelectItem key={ingestion.id} value={ingestion.id}>
+                  {ingestion.label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        {/* Bulk actions */}
+        <div className="px-4 py-2 border-b flex items-center justify-between gap-2">
+          <label className="flex items-center gap-2 text-sm">
+            <input
+              type="checkbox"
+              className="h-4 w-4 accent-primary"
+              checked={allChecked}
+              onChange={toggleAll}
+              disabled={candidates.length === 0}
+            />
+            {checkedIds.size > 0 ? `${checkedIds.size} selected` : "Select all"}
+          </label>
+          {checkedIds.size > 0 && (
+            <div className="flex gap-2">
+              <Button
+                size="sm"
+                variant="outline"
+                onClick={() => submitBulkReview("reject")}
+                disabled={isSubmitting}
+              >
+                Reject
+              </Button>
+              <Button size="sm" onClick={() => submitBulkReview("approve")} disabled={isSubmitting}>
+                Approve
+              </Button>
+            </div>
+          )}
         </div>
 
+        {error && (
+          <div className="px-4 py-2 border-b text-sm text-destructive">{error}</div>
+        )}
+
         <ScrollArea className="flex-1">
           <div className="p-2 space-y-2">
             {candidates.map((candidate) => (
               <Card
                 key={candidate.id}
+                id={`candidate-${candidate.id}`}
                 className={`cursor-pointer transition-colors ${
                   selectedId === candidate.id
                     ? "ring-2 ring-primary"
@@ -135,7 +541,14 @@ export default function MatchesPage() {
                 onClick={() => setSelectedId(candidate.id)}
               >
                 <CardContent className="pt-4">
-                  <div className="flex items-start justify-between">
+                  <div className="flex items-start gap-3">
+                    <input
+                      type="checkbox"
+                      className="h-4 w-4 mt-1 accent-primary"
+                      checked={checkedIds.has(candidate.id)}
+                      onClick={(e) => e.stopPropagation()}
+                      onChange={() => toggleChecked(candidate.id)}
+                    />
                     <div className="min-w-0 flex-1">
                       <p className="font-medium truncate">
                         {candidate.sourceLead.name}
@@ -143,13 +556,18 @@ export default function MatchesPage() {
                       <p className="text-sm text-muted-foreground truncate">
                         {candidate.sourceLead.email}
                       </p>
-                      <Badge variant="secondary" className="mt-2">
-                        {candidate.sourceLead.source}
-                      </Badge>
+                      <div className="flex flex-wrap gap-1 mt-2">
+                        <Badge variant="secondary">
+                          {candidate.sourceLead.source}
+                        </Badge>
+                        {candidate.matchType && (
+                          <Badge variant="outline">{formatMatchType(candidate.matchType)}</Badge>
+                        )}
+                      </div>
                     </div>
                     <div className="text-right">
                       <span className="font-bold text-lg">
-                        {(candidate.confidence * 100).toFixed(0)}%
+                        {(candidate.confidenceScore * 100).toFixed(0)}%
                       </span>
                       <ChevronRight className="h-4 w-4 text-muted-foreground" />
                     </div>
@@ -158,7 +576,7 @@ export default function MatchesPage() {
               </Card>
             ))}
 
-            {candidates.length === 0 && (
+            {candidates.length === 0 && !isLoading && (
               <div className="text-center py-12">
                 <Check className="h-12 w-12 text-green-500 mx-auto mb-4" />
                 <p className="font-medium">All caught up!</p>
@@ -169,6 +587,10 @@ export default function MatchesPage() {
             )}
           </div>
         </ScrollArea>
+
+        <div className="px-4 py-2 border-t text-xs text-muted-foreground">
+          j/k move · a approve · r reject · n note · x select
+        </div>
       </div>
 
       {/* Right panel - Match details */}
@@ -182,24 +604,35 @@ export default function MatchesPage() {
                 <div className="flex items-center gap-2 mt-1">
                   <span className="text-sm text-muted-foreground">Confidence:</span>
                   <Progress
-                    value={selectedCandidate.confidence * 100}
-                    color={getProgressColor(selectedCandidate.confidence)}
+                    value={selectedCandidate.confidenceScore * 100}
+                    color={getProgressColor(selectedCandidate.confidenceScore)}
                     className="w-32"
                   />
                   <span className="font-bold text-sm">
-                    {(selectedCandidate.confidence * 100).toFixed(0)}%
+                    {(selectedCandidate.confidenceScore * 100).toFixed(0)}%
                   </span>
                 </div>
               </div>
               <div className="flex gap-2">
+                <Input
+                  ref={notesRef}
+                  placeholder="Review notes (optional)"
+                  value={notes}
+                  onChange={(e) => setNotes(e.target.value)}
+                  className="w-64"
+                />
                 <Button
                   variant="outline"
                   onClick={() => handleReject(selectedCandidate.id)}
+                  disabled={isSubmitting}
                 >
                   <X className="h-4 w-4 mr-2" />
                   Reject
                 </Button>
-                <Button onClick={() => handleApprove(selectedCandidate.id)}>
+                <Button
+                  onClick={() => handleApprove(selectedCandidate.id)}
+                  disabled={isSubmitting}
+                >
                   <Check className="h-4 w-4 mr-2" />
                   Approve Match
                 </Button>
@@ -249,9 +682,11 @@ export default function MatchesPage() {
                 <Card>
                   <CardHeader>
                     <CardTitle>FUB Lead</CardTitle>
-                    <Badge className="bg-green-100 text-green-800">
-                      {selectedCandidate.fubLead.stage}
-                    </Badge>
+                    {selectedCandidate.fubLead.stage && (
+                      <Badge className="bg-green-100 text-green-800">
+                        {selectedCandidate.fubLead.stage}
+                      </Badge>
+                    )}
                   </CardHeader>
                   <CardContent className="space-y-3">
                     <div>
@@ -299,17 +734,27 @@ export default function MatchesPage() {
                 <CardContent className="space-y-3">
                   {selectedCandidate.matchReasons.map((reason, i) => (
                     <div key={i} className="flex items-center justify-between">
-                      <div className="flex items-center gap-2">
+                      <div className="flex items-start gap-2 min-w-0">
                         {reason.score > 0.8 ? (
-                          <Check className="h-4 w-4 text-green-500" />
+                          <Check className="h-4 w-4 mt-0.5 text-green-500" />
                         ) : reason.score > 0.5 ? (
-                          <AlertCircle className="h-4 w-4 text-yellow-500" />
+                          <AlertCircle className="h-4 w-4 mt-0.5 text-yellow-500" />
                         ) : (
-                          <X className="h-4 w-4 text-red-500" />
+                          <X className="h-4 w-4 mt-0.5 text-red-500" />
                         )}
-                        <span className="text-sm">
-                          {reason.type.replace("_", " ").replace(/\b\w/g, (l) => l.toUpperCase())}
-                        </span>
+                        <div className="min-w-0">
+                          <span className="text-sm">
+                            {formatMatchType(reason.type)}
+                          </span>
+                          {reason.details && (
+                            <p className="text-xs text-muted-foreground">{reason.details}</p>
+                          )}
+                          {(reason.source_value || reason.fub_value) && (
+                            <p className="text-xs text-muted-foreground truncate">
+                              {reason.source_value || "-"} / {reason.fub_value || "-"}
+                            </p>
+                          )}
+                        </div>
                       </div>
                       <div className="flex items-center gap-2">
                         <Progress
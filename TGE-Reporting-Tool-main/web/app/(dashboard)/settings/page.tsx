@@ -5,6 +5,7 @@ import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Badge } from "@/components/ui/badge";
 import { Separator } from "@/components/ui/separator";
+import { MatchingSettings } from "@/components/settings/matching-settings";
 import { Building2, Users, Plug, Bell, Shield } from "lucide-react";
 
 export default function SettingsPage() {
@@ -134,6 +135,9 @@ export default function SettingsPage() {
           </CardContent>
         </Card>
 
+        {/* Matching */}
+        <MatchingSettings />
+
         {/* Notifications */}
         <Card>
           <CardHeader>
@@ -0,0 +1,554 @@
+"use client";
+
+import { useState, useEffect, useCallback } from "react";
+import Link from "next/link";
+import { useParams } from "next/navigation";
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card";
+import {
+  Table,
+  TableHeader,
+  TableBody,
+  TableRow,
+  TableHead,
+  TableCell,
+} from "@/components/ui/table";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { ArrowLeft, Download, RefreshCw, RotateCcw, Pencil } from "lucide-react";
+import { createClient } from "@/lib/supabase/client";
+import { IngestionStatus, RawIngestion, RawLeadRow, ValidationIssue } from "@/types";
+
+// Row shape of raw_ingestions, with the lead source name
+interface IngestionRow {
+  id: string;
+  lead_source_id: string | null;
+  ingest_type: RawIngestion["ingestType"];
+  file_name: string | null;
+  status: IngestionStatus;
+  total_rows: number | null;
+  parsed_rows: number | null;
+  valid_rows: number | null;
+  duplicate_rows: number | null;
+  error_rows: number | null;
+  warning_rows: number | null;
+  errors: unknown[] | null;
+  created_at: string;
+  completed_at: string | null;
+  lead_sources?: { display_name: string } | null;
+}
+
+// Row shape of raw_lead_rows
+interface LeadRowRow {
+  id: string;
+  row_number: number;
+  raw_data: Record<string, string>;
+  is_valid: boolean | null;
+  has_warnings: boolean | null;
+  validation_errors: (ValidationIssue | string)[] | null;
+  is_duplicate: boolean | null;
+  source_lead_id: string | null;
+}
+
+type RowFilter = "errors" | "warnings";
+
+const PAGE_SIZE = 50;
+
+const BUSY_STATUSES: IngestionStatus[] = ["pending", "processing", "transforming"];
+
+const statusColors: Record<IngestionStatus, string> = {
+  pending: "bg-gray-100 text-gray-800",
+  processing: "bg-blue-100 text-blue-800",
+  parsed: "bg-blue-100 text-blue-800",
+  transforming: "bg-blue-100 text-blue-800",
+  completed: "bg-green-100 text-green-800",
+  partial: "bg-yellow-100 text-yellow-800",
+  failed: "bg-red-100 text-red-800",
+};
+
+function toIngestion(row: IngestionRow): RawIngestion {
+  return {
+    id: row.id,
+    leadSourceId: row.lead_source_id ?? undefined,
+    ingestType: row.ingest_type,
+    fileName: row.file_name ?? undefined,
+    status: row.status,
+    totalRows: row.total_rows ?? undefined,
+    parsedRows: row.parsed_rows ?? 0,
+    validRows: row.valid_rows ?? 0,
+    duplicateRows: row.duplicate_rows ?? 0,
+    errorRows: row.error_rows ?? 0,
+    warningRows: row.warning_rows ?? 0,
+    errors: row.errors || [],
+    createdAt: row.created_at,
+    completedAt: row.completed_at ?? undefined,
+  };
+}
+
+function toLeadRow(row: LeadRowRow): RawLeadRow {
+  return {
+    id: row.id,
+    rowNumber: row.row_number,
+    rawData: row.raw_data,
+    isValid: !!row.is_valid,
+    hasWarnings: !!row.has_warnings,
+    validationErrors: row.validation_errors || [],
+    isDuplicate: !!row.is_duplicate,
+    sourceLeadId: row.source_lead_id ?? undefined,
+  };
+}
+
+function issueMessage(issue: ValidationIssue | string): string {
+  return typeof issue === "string" ? issue : issue.message;
+}
+
+function issueSeverity(issue: ValidationIssue | string): ValidationIssue["severity"] {
+  return typeof issue === "string" ? "error" : issue.severity;
+}
+
+export default function IngestionDetailPage() {
+  const { id } = useParams<{ id: string }>();
+  const [ingestion, setIngestion] = useState<RawIngestion | null>(null);
+  const [sourceName, setSourceName] = useState<string | null>(null);
+  const [rows, setRows] = useState<RawLeadRow[]>([]);
+  const [rowCount, setRowCount] = useState(0);
+  const [filter, setFilter] = useState<RowFilter>("errors");
+  const [page, setPage] = useState(0);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [draft, setDraft] = useState<Record<string, string>>({});
+  // Rows edited into a valid state that haven't been reprocessed yet
+  const [fixedIds, setFixedIds] = useState<string[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [busyAction, setBusyAction] = useState<string | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchRows = useCallback(async () => {
+    const supabase = createClient();
+
+    let query = supabase
+      .from("raw_lead_rows")
+      .select(
+        "id, row_number, raw_data, is_valid, has_warnings, validation_errors, is_duplicate, source_lead_id",
+        { count: "exact" }
+      )
+      .eq("ingestion_id", id)
+      .order("row_number")
+      .range(page * PAGE_SIZE, (page + 1) * PAGE_SIZE - 1);
+
+    query = filter === "errors" ? query.eq("is_valid", false) : query.eq("has_warnings", true);
+
+    const { data, count } = await query;
+
+    setRows(((data || []) as LeadRowRow[]).map(toLeadRow));
+    setRowCount(count || 0);
+  }, [id, filter, page]);
+
+  useEffect(() => {
+    const load = async () => {
+      setIsLoading(true);
+      const supabase = createClient();
+
+      const { data } = await supabase
+        .from("raw_ingestions")
+        .select("*, lead_sources(display_name)")
+        .eq("id", id)
+        .maybeSingle();
+
+      if (data) {
+        setIngestion(toIngestion(data as IngestionRow));
+        setSourceName((data as IngestionRow).lead_sources?.display_name || null);
+      }
+      setIsLoading(false);
+    };
+
+    load();
+  }, [id]);
+
+  useEffect(() => {
+    fetchRows();
+  }, [fetchRows]);
+
+  // Follow status and counters while the ingestion is reprocessed
+  useEffect(() => {
+    const supabase = createClient();
+    const channel = supabase
+      .channel(`ingestion-detail-${id}`)
+      .on(
+        "postgres_changes",
+        {
+          event: "UPDATE",
+          schema: "public",
+          table: "raw_ingestions",
+          filter: `id=eq.${id}`,
+        },
+        (payload) => {
+          const updated = toIngestion(payload.new as IngestionRow);
+          setIngestion(updated);
+
+          if (!BUSY_STATUSES.includes(updated.status)) {
+            fetchRows();
+          }
+        }
+      )
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [id, fetchRows]);
+
+  const invoke = async (action: string, body: Record<string, unknown>) => {
+    setBusyAction(action);
+    setError(null);
+    setMessage(null);
+    const supabase = createClient();
+
+    const { data, error: invokeError } = await supabase.functions.invoke("ingestion-rows", {
+      body: { action, ingestion_id: id, ...body },
+    });
+
+    setBusyAction(null);
+
+    if (invokeError) {
+      setError(invokeError.message);
+      return null;
+    }
+
+    return data;
+  };
+
+  const startEdit = (row: RawLeadRow) => {
+    setEditingId(row.id);
+    setDraft({ ...row.rawData });
+  };
+
+  const saveEdit = async (row: RawLeadRow) => {
+    const changed = Object.fromEntries(
+      Object.entries(draft).filter(([col, value]) => row.rawData[col] !== value)
+    );
+
+    if (Object.keys(changed).length === 0) {
+      setEditingId(null);
+      return;
+    }
+
+    const data = await invoke("update_row", { row_id: row.id, raw_data: changed });
+    if (!data) return;
+
+    // Keep the row in view so it can be reprocessed, even if it no longer matches the filter
+    setRows((prev) =>
+      prev.map((r) =>
+        r.id === row.id
+          ? {
+              ...r,
+              rawData: { ...r.rawData, ...changed },
+              isValid: data.is_valid,
+              hasWarnings: data.has_warnings,
+              validationErrors: data.validation_errors,
+            }
+          : r
+      )
+    );
+    setIngestion((prev) =>
+      prev
+        ? {
+            ...prev,
+            validRows: data.valid_rows,
+            errorRows: data.error_rows,
+            warningRows: data.warning_rows,
+          }
+        : prev
+    );
+    setFixedIds((prev) =>
+      data.is_valid ? Array.from(new Set([...prev, row.id])) : prev.filter((r) => r !== row.id)
+    );
+    setEditingId(null);
+  };
+
+  const handleDownload = async () => {
+    const data = await invoke("export_rejected", {});
+    if (!data) return;
+
+    const url = URL.createObjectURL(new Blob([data.csv], { type: "text/csv" }));
+    const link = document.createElement("a");
+    link.href = url;
+    link.download = data.file_name;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const handleReprocess = async (rowIds?: string[]) => {
+    const data = await invoke("reprocess", rowIds ? { row_ids: rowIds } : {});
+    if (!data) return;
+
+    setFixedIds([]);
+    setMessage(
+      `Reprocessing ${data.rows_checked} rows (${data.valid_rows} valid, ${data.error_rows} with errors)`
+    );
+    fetchRows();
+  };
+
+  const handleReparse = async () => {
+    if (
+      !window.confirm(
+        "Re-parse the original file? Rows are read again from the file and inline edits are discarded."
+      )
+    ) {
+      return;
+    }
+
+    const data = await invoke("reparse", {});
+    if (!data) return;
+
+    setFixedIds([]);
+    setMessage("Re-parsing file");
+  };
+
+  if (isLoading) {
+    return <p className="text-sm text-muted-foreground">Loading ingestion...</p>;
+  }
+
+  if (!ingestion) {
+    return (
+      <div className="space-y-4">
+        <p className="text-sm text-muted-foreground">Ingestion not found</p>
+        <Link href="/upload" className="text-sm text-primary hover:underline">
+          Back to uploads
+        </Link>
+      </div>
+    );
+  }
+
+  const isBusy = BUSY_STATUSES.includes(ingestion.status) || busyAction !== null;
+  const pageCount = Math.max(1, Math.ceil(rowCount / PAGE_SIZE));
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <Link
+          href="/upload"
+          className="text-sm text-muted-foreground hover:text-foreground flex items-center gap-1 mb-2"
+        >
+          <ArrowLeft className="h-4 w-4" />
+          Uploads
+        </Link>
+        <div className="flex items-center gap-3">
+          <h1 className="text-2xl font-bold">{ingestion.fileName || "Ingestion"}</h1>
+          <Badge className={statusColors[ingestion.status]}>
+            {ingestion.status.charAt(0).toUpperCase() + ingestion.status.slice(1)}
+          </Badge>
+        </div>
+        <p className="text-muted-foreground">
+          {sourceName || "Unknown source"} · {ingestion.ingestType} ·{" "}
+          {new Date(ingestion.createdAt).toLocaleString()}
+        </p>
+      </div>
+
+      <div className="grid grid-cols-2 md:grid-cols-5 gap-4">
+        {[
+          { label: "Rows", value: ingestion.totalRows ?? ingestion.parsedRows },
+          { label: "Valid", value: ingestion.validRows },
+          { label: "Duplicates", value: ingestion.duplicateRows },
+          { label: "Warnings", value: ingestion.warningRows, className: "text-yellow-600" },
+          { label: "Errors", value: ingestion.errorRows, className: "text-destructive" },
+        ].map((stat) => (
+          <Card key={stat.label}>
+            <CardContent className="pt-6 text-center">
+              <p className={`text-2xl font-bold ${stat.className || ""}`}>{stat.value}</p>
+              <p className="text-xs text-muted-foreground">{stat.label}</p>
+            </CardContent>
+          </Card>
+        ))}
+      </div>
+
+      {ingestion.errors.length > 0 && (
+        <Card>
+          <CardHeader>
+            <CardTitle>Ingestion Errors</CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-1 text-sm text-destructive">
+            {ingestion.errors.map((err, i) => (
+              <p key={i}>{typeof err === "string" ? err : JSON.stringify(err)}</p>
+            ))}
+          </CardContent>
+        </Card>
+      )}
+
+      <Card>
+        <CardHeader>
+          <div className="flex flex-wrap items-start justify-between gap-4">
+            <div>
+              <CardTitle>{filter === "errors" ? "Rejected Rows" : "Rows with Warnings"}</CardTitle>
+              <CardDescription>
+                Fix rows inline, or download the rejected rows, correct them and upload the file
+                again
+              </CardDescription>
+            </div>
+            <div className="flex flex-wrap items-center gap-2">
+              <Select
+                value={filter}
+                onValueChange={(value) => {
+                  setFilter(value as RowFilter);
+                  setPage(0);
+                }}
+              >
+                <SelectTrigger className="w-[160px]">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="errors">Errors</SelectItem>
+                  <SelectItem value="warnings">Warnings</SelectItem>
+                </SelectContent>
+              </Select>
+              <Button
+                variant="outline"
+                onClick={handleDownload}
+                disabled={isBusy || ingestion.errorRows === 0}
+              >
+                <Download className="h-4 w-4 mr-2" />
+                Download Rejected CSV
+              </Button>
+              <Button
+                onClick={() => handleReprocess(fixedIds)}
+                disabled={isBusy || fixedIds.length === 0}
+              >
+                <RefreshCw className="h-4 w-4 mr-2" />
+                Reprocess Fixed ({fixedIds.length})
+              </Button>
+              <Button variant="outline" onClick={() => handleReprocess()} disabled={isBusy}>
+                <RefreshCw className="h-4 w-4 mr-2" />
+                Reprocess All
+              </Button>
+              <Button variant="outline" onClick={handleReparse} disabled={isBusy}>
+                <RotateCcw className="h-4 w-4 mr-2" />
+                Re-parse File
+              </Button>
+            </div>
+          </div>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {message && <p className="text-sm text-muted-foreground">{message}</p>}
+          {error && <p className="text-sm text-destructive">{error}</p>}
+
+          {rows.length === 0 ? (
+            <p className="text-sm text-muted-foreground">
+              {filter === "errors" ? "No rejected rows" : "No rows with warnings"}
+            </p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead className="w-16">Row</TableHead>
+                  <TableHead>Issues</TableHead>
+                  <TableHead>Data</TableHead>
+                  <TableHead className="w-24" />
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {rows.map((row) => (
+                  <TableRow key={row.id} className="align-top">
+                    <TableCell className="font-mono text-sm">{row.rowNumber}</TableCell>
+                    <TableCell className="space-y-1">
+                      {fixedIds.includes(row.id) && <Badge variant="success">Fixed</Badge>}
+                      {row.validationErrors.map((issue, i) => (
+                        <p
+                          key={i}
+                          className={`text-sm ${
+                            issueSeverity(issue) === "error" ? "text-destructive" : "text-yellow-600"
+                          }`}
+                        >
+                          {issueMessage(issue)}
+                        </p>
+                      ))}
+                    </TableCell>
+                    <TableCell>
+                      {editingId === row.id ? (
+                        <div className="grid grid-cols-1 md:grid-cols-2 gap-2">
+                          {Object.keys(row.rawData).map((col) => (
+                            <label key={col} className="text-xs text-muted-foreground">
+                              {col}
+                              <Input
+                                className="h-8 mt-1"
+                                value={draft[col] ?? ""}
+                                onChange={(e) =>
+                                  setDraft((prev) => ({ ...prev, [col]: e.target.value }))
+                                }
+                              />
+                            </label>
+                          ))}
+                        </div>
+                      ) : (
+                        <p className="text-sm text-muted-foreground break-all">
+                          {Object.entries(row.rawData)
+                            .filter(([, value]) => value)
+                            .map(([col, value]) => `${col}: ${value}`)
+                            .join(" · ")}
+                        </p>
+                      )}
+                    </TableCell>
+                    <TableCell>
+                      {editingId === row.id ? (
+                        <div className="flex flex-col gap-2">
+                          <Button size="sm" onClick={() => saveEdit(row)} disabled={isBusy}>
+                            {busyAction === "update_row" ? "Saving..." : "Save"}
+                          </Button>
+                          <Button size="sm" variant="outline" onClick={() => setEditingId(null)}>
+                            Cancel
+                          </Button>
+                        </div>
+                      ) : (
+                        <Button
+                          size="sm"
+                          variant="ghost"
+                          onClick={() => startEdit(row)}
+                          disabled={isBusy || !!row.sourceLeadId}
+                        >
+                          <Pencil className="h-4 w-4 mr-1" />
+                          Edit
+                        </Button>
+                      )}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+
+          {rowCount > PAGE_SIZE && (
+            <div className="flex items-center justify-between text-sm">
+              <span className="text-muted-foreground">
+                Page {page + 1} of {pageCount} ({rowCount} rows)
+              </span>
+              <div className="flex gap-2">
+                <Button
+                  size="sm"
+                  variant="outline"
+                  onClick={() => setPage((p) => p - 1)}
+                  disabled={page === 0}
+                >
+                  Previous
+                </Button>
+                <Button
+                  size="sm"
+                  variant="outline"
+                  onClick={() => setPage((p) => p + 1)}
+                  disabled={page + 1 >= pageCount}
+                >
+                  Next
+                </Button>
+              </div>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,609 @@
+"use client";
+
+import { useState, useEffect, useCallback, useRef } from "react";
+import Link from "next/link";
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card";
+import {
+  Table,
+  TableHeader,
+  TableBody,
+  TableRow,
+  TableHead,
+  TableCell,
+} from "@/components/ui/table";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Progress } from "@/components/ui/progress";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Upload, FileText, Check, X, Loader2, Circle } from "lucide-react";
+import { ColumnMappingWizard } from "@/components/upload/column-mapping-wizard";
+import { createClient } from "@/lib/supabase/client";
+import { IngestionStatus, RawIngestion } from "@/types";
+
+// Row shape of raw_ingestions
+interface IngestionRow {
+  id: string;
+  lead_source_id: string | null;
+  ingest_type: RawIngestion["ingestType"];
+  file_name: string | null;
+  status: IngestionStatus;
+  total_rows: number | null;
+  estimated_rows: number | null;
+  parsed_rows: number | null;
+  valid_rows: number | null;
+  duplicate_rows: number | null;
+  error_rows: number | null;
+  warning_rows: number | null;
+  errors: unknown[] | null;
+  created_at: string;
+  completed_at: string | null;
+}
+
+// File uploaded to storage, waiting for its column mapping to be confirmed
+interface StagedUpload {
+  path: string;
+  hash: string;
+  name: string;
+  size: number;
+  sourceId: string;
+}
+
+interface LeadSourceOption {
+  id: string;
+  display_name: string;
+}
+
+const PIPELINE_STEPS: { status: IngestionStatus; label: string }[] = [
+  { status: "processing", label: "Parsing file" },
+  { status: "parsed", label: "Parsed" },
+  { status: "transforming", label: "Creating leads" },
+  { status: "completed", label: "Completed" },
+];
+
+// Formats csv-parser can read, keyed by extension
+const CONTENT_TYPES: Record<string, string> = {
+  csv: "text/csv",
+  tsv: "text/tab-separated-values",
+  xlsx: "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
+  xls: "application/vnd.ms-excel",
+};
+
+const TERMINAL_STATUSES: IngestionStatus[] = ["completed", "failed", "partial"];
+
+const statusColors: Record<IngestionStatus, string> = {
+  pending: "bg-gray-100 text-gray-800",
+  processing: "bg-blue-100 text-blue-800",
+  parsed: "bg-blue-100 text-blue-800",
+  transforming: "bg-blue-100 text-blue-800",
+  completed: "bg-green-100 text-green-800",
+  partial: "bg-yellow-100 text-yellow-800",
+  failed: "bg-red-100 text-red-800",
+};
+
+function toIngestion(row: IngestionRow): RawIngestion {
+  return {
+    id: row.id,
+    leadSourceId: row.lead_source_id ?? undefined,
+    ingestType: row.ingest_type,
+    fileName: row.file_name ?? undefined,
+    status: row.status,
+    totalRows: row.total_rows ?? undefined,
+    estimatedRows: row.estimated_rows ?? undefined,
+    parsedRows: row.parsed_rows ?? 0,
+    validRows: row.valid_rows ?? 0,
+    duplicateRows: row.duplicate_rows ?? 0,
+    errorRows: row.error_rows ?? 0,
+    warningRows: row.warning_rows ?? 0,
+    errors: row.errors || [],
+    createdAt: row.created_at,
+    completedAt: row.completed_at ?? undefined,
+  };
+}
+
+function formatBytes(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
+
+/**
+ * SHA-256 of the file's base64 content, the same hash email-ingest stores,
+ * so a file already received by email is recognised as a duplicate
+ */
+async function computeFileHash(file: File): Promise<string> {
+  const bytes = new Uint8Array(await file.arrayBuffer());
+  let binary = "";
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+
+  const data = new TextEncoder().encode(btoa(binary));
+  const hashBuffer = await crypto.subtle.digest("SHA-256", data);
+  return Array.from(new Uint8Array(hashBuffer))
+    .map((b) => b.toString(16).padStart(2, "0"))
+    .join("");
+}
+
+export default function UploadPage() {
+  const [sources, setSources] = useState<LeadSourceOption[]>([]);
+  const [organizationId, setOrganizationId] = useState<string | null>(null);
+  const [sourceId, setSourceId] = useState("");
+  const [file, setFile] = useState<File | null>(null);
+  const [isDragging, setIsDragging] = useState(false);
+  const [isUploading, setIsUploading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [staged, setStaged] = useState<StagedUpload | null>(null);
+  const [current, setCurrent] = useState<RawIngestion | null>(null);
+  const [recent, setRecent] = useState<RawIngestion[]>([]);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const fetchRecent = useCallback(async () => {
+    const supabase = createClient();
+    const { data } = await supabase
+      .from("raw_ingestions")
+      .select("*")
+      .eq("ingest_type", "manual")
+      .order("created_at", { ascending: false })
+      .limit(10);
+
+    setRecent(((data || []) as IngestionRow[]).map(toIngestion));
+  }, []);
+
+  useEffect(() => {
+    const load = async () => {
+      const supabase = createClient();
+
+      const { data: org } = await supabase
+        .from("organizations")
+        .select("id")
+        .order("created_at")
+        .limit(1)
+        .maybeSingle();
+
+      const { data: sourceRows } = await supabase
+        .from("lead_sources")
+        .select("id, display_name")
+        .eq("is_active", true)
+        .order("display_name");
+
+      setOrganizationId(org?.id || null);
+      setSources((sourceRows || []) as LeadSourceOption[]);
+    };
+
+    load();
+    fetchRecent();
+  }, [fetchRecent]);
+
+  // Stream status and counter changes for the ingestion being processed
+  const currentId = current?.id;
+
+  useEffect(() => {
+    if (!currentId) return;
+
+    const supabase = createClient();
+    const channel = supabase
+      .channel(`ingestion-${currentId}`)
+      .on(
+        "postgres_changes",
+        {
+          event: "UPDATE",
+          schema: "public",
+          table: "raw_ingestions",
+          filter: `id=eq.${currentId}`,
+        },
+        (payload) => {
+          const ingestion = toIngestion(payload.new as IngestionRow);
+          setCurrent(ingestion);
+
+          if (TERMINAL_STATUSES.includes(ingestion.status)) {
+            fetchRecent();
+          }
+        }
+      )
+      .subscribe(async (status) => {
+        if (status !== "SUBSCRIBED") return;
+
+        // Catch up on anything that changed before the subscription was live
+        const { data } = await supabase
+          .from("raw_ingestions")
+          .select("*")
+          .eq("id", currentId)
+          .single();
+
+        if (data) setCurrent(toIngestion(data as IngestionRow));
+      });
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [currentId, fetchRecent]);
+
+  const selectFile = (selected: File | null | undefined) => {
+    setError(null);
+
+    if (!selected) return;
+
+    const extension = selected.name.toLowerCase().split(".").pop() || "";
+
+    if (!(extension in CONTENT_TYPES)) {
+      setError("Only .csv, .tsv, .xlsx and .xls files are supported");
+      return;
+    }
+
+    setFile(selected);
+  };
+
+  const handleDrop = (e: React.DragEvent<HTMLDivElement>) => {
+    e.preventDefault();
+    setIsDragging(false);
+    selectFile(e.dataTransfer.files?.[0]);
+  };
+
+  const handleUpload = async () => {
+    if (!file || !sourceId) return;
+
+    if (!organizationId) {
+      setError("No organization found");
+      return;
+    }
+
+    setIsUploading(true);
+    setError(null);
+    const supabase = createClient();
+
+    try {
+      const fileHash = await computeFileHash(file);
+
+      // Failed imports can be retried with the same file
+      const { data: existing } = await supabase
+        .from("raw_ingestions")
+        .select("id, created_at")
+        .eq("organization_id", organizationId)
+        .eq("file_hash", fileHash)
+        .neq("status", "failed")
+        .limit(1)
+        .maybeSingle();
+
+      if (existing) {
+        throw new Error(
+          `This file was already imported on ${new Date(existing.created_at).toLocaleDateString()}`
+        );
+      }
+
+      const storagePath = `uploads/${Date.now()}_${file.name}`;
+
+      const { error: uploadError } = await supabase.storage
+        .from("lead-files")
+        .upload(storagePath, file, {
+          contentType: CONTENT_TYPES[file.name.toLowerCase().split(".").pop() || ""],
+        });
+
+      if (uploadError) {
+        throw new Error(`Upload failed: ${uploadError.message}`);
+      }
+
+      setStaged({
+        path: storagePath,
+        hash: fileHash,
+        name: file.name,
+        size: file.size,
+        sourceId,
+      });
+      setFile(null);
+      if (fileInputRef.current) fileInputRef.current.value = "";
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Upload failed");
+    } finally {
+      setIsUploading(false);
+    }
+  };
+
+  // Runs once the column mapping has been confirmed
+  const startImport = async (upload: StagedUpload) => {
+    setError(null);
+    const supabase = createClient();
+
+    try {
+      const { data: userData } = await supabase.auth.getUser();
+
+      const { data: ingestion, error: ingestionError } = await supabase
+        .from("raw_ingestions")
+        .insert({
+          lead_source_id: upload.sourceId,
+          organization_id: organizationId,
+          ingest_type: "manual",
+          file_name: upload.name,
+          file_url: upload.path,
+          file_hash: upload.hash,
+          status: "pending",
+          processing_log: [
+            {
+              timestamp: new Date().toISOString(),
+              action: "file_uploaded",
+              details: { size: upload.size, uploaded_by: userData.user?.id ?? null },
+            },
+          ],
+        })
+        .select("*")
+        .single();
+
+      if (ingestionError || !ingestion) {
+        throw new Error(`Failed to create ingestion: ${ingestionError?.message}`);
+      }
+
+      setCurrent(toIngestion(ingestion as IngestionRow));
+      setStaged(null);
+      fetchRecent();
+
+      // Parsing can take a while; progress arrives through the subscription
+      supabase.functions
+        .invoke("csv-parser", { body: { ingestion_id: ingestion.id } })
+        .then(({ error: invokeError }) => {
+          if (invokeError) setError(`Parsing failed: ${invokeError.message}`);
+        });
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Import failed");
+    }
+  };
+
+  const stepIndex = current
+    ? PIPELINE_STEPS.findIndex((step) => step.status === current.status)
+    : -1;
+
+  // Files are streamed, so until parsing finishes progress is measured
+  // against csv-parser's estimate (none for workbooks)
+  const expectedRows = current?.totalRows ?? current?.estimatedRows;
+  const progressValue =
+    current && expectedRows ? Math.min(100, Math.round((current.parsedRows / expectedRows) * 100)) : 0;
+
+  return (
+    <div className="p-6">
+      {/* Header */}
+      <div className="flex items-center justify-between mb-6">
+        <div>
+          <h1 className="text-2xl font-bold">Upload Leads</h1>
+          <p className="text-muted-foreground">
+            Import a CSV or Excel export from a lead source
+          </p>
+        </div>
+      </div>
+
+      {staged && (
+        <div className="mb-6">
+          <ColumnMappingWizard
+            key={staged.path}
+            leadSourceId={staged.sourceId}
+            leadSourceName={
+              sources.find((source) => source.id === staged.sourceId)?.display_name || "the source"
+            }
+            filePath={staged.path}
+            onConfirm={() => startImport(staged)}
+            onCancel={() => setStaged(null)}
+          />
+        </div>
+      )}
+
+      <div className="grid gap-6 lg:grid-cols-2 mb-6">
+        {/* Upload */}
+        <Card>
+          <CardHeader>
+            <CardTitle>Lead File</CardTitle>
+            <CardDescription>Choose the lead source the file came from, then drop the file</CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <Select value={sourceId} onValueChange={setSourceId}>
+              <SelectTrigger>
+                <SelectValue placeholder="Select lead source" />
+              </SelectTrigger>
+              <SelectContent>
+                {sources.map((source) => (
+                  <SelectItem key={source.id} value={source.id}>
+                    {source.display_name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+
+            <div
+              className={`flex flex-col items-center justify-center rounded-lg border-2 border-dashed p-8 text-center cursor-pointer transition-colors ${
+                isDragging ? "border-primary bg-primary/5" : "hover:bg-muted/50"
+              }`}
+              onClick={() => fileInputRef.current?.click()}
+              onDragOver={(e) => {
+                e.preventDefault();
+                setIsDragging(true);
+              }}
+              onDragLeave={() => setIsDragging(false)}
+              onDrop={handleDrop}
+            >
+              <input
+                ref={fileInputRef}
+                type="file"
+                accept={Object.keys(CONTENT_TYPES).map((ext) => `.${ext}`).join(",")}
+                className="hidden"
+                onChange={(e) => selectFile(e.target.files?.[0])}
+              />
+              {file ? (
+                <>
+                  <FileText className="h-10 w-10 text-muted-foreground mb-2" />
+                  <p className="font-medium">{file.name}</p>
+                  <p className="text-sm text-muted-foreground">{formatBytes(file.size)}</p>
+                </>
+              ) : (
+                <>
+                  <Upload className="h-10 w-10 text-muted-foreground mb-2" />
+                  <p className="font-medium">Drag and drop a CSV, TSV or Excel file</p>
+                  <p className="text-sm text-muted-foreground">or click to browse</p>
+                </>
+              )}
+            </div>
+
+            {error && <p className="text-sm text-destructive">{error}</p>}
+
+            <Button
+              className="w-full"
+              onClick={handleUpload}
+              disabled={!file || !sourceId || isUploading || !!staged}
+            >
+              {isUploading ? "Uploading..." : "Upload and Map Columns"}
+            </Button>
+          </CardContent>
+        </Card>
+
+        {/* Progress */}
+        <Card>
+          <CardHeader>
+            <CardTitle>Import Progress</CardTitle>
+            <CardDescription>
+              {current ? current.fileName : "Progress appears here once a file is uploaded"}
+            </CardDescription>
+          </CardHeader>
+          {current && (
+            <CardContent className="space-y-4">
+              <div className="space-y-2">
+                {PIPELINE_STEPS.map((step, i) => {
+                  const done = current.status === "completed" || i < stepIndex;
+                  const active = i === stepIndex && current.status !== "completed";
+
+                  return (
+                    <div key={step.status} className="flex items-center gap-2 text-sm">
+                      {done ? (
+                        <Check className="h-4 w-4 text-green-500" />
+                      ) : active ? (
+                        <Loader2 className="h-4 w-4 animate-spin text-primary" />
+                      ) : (
+                        <Circle className="h-4 w-4 text-muted-foreground" />
+                      )}
+                      <span className={done || active ? "" : "text-muted-foreground"}>
+                        {step.label}
+                      </span>
+                    </div>
+                  );
+                })}
+                {(current.status === "failed" || current.status === "partial") && (
+                  <div className="flex items-center gap-2 text-sm text-destructive">
+                    <X className="h-4 w-4" />
+                    <span>
+                      {current.status === "failed" ? "Import failed" : "Import partially completed"}
+                    </span>
+                  </div>
+                )}
+              </div>
+
+              <div>
+                <div className="flex justify-between text-sm mb-1">
+                  <span className="text-muted-foreground">Rows parsed</span>
+                  <span>
+                    {current.totalRows !== undefined
+                      ? `${current.parsedRows} / ${current.totalRows}`
+                      : expectedRows !== undefined
+                        ? `${current.parsedRows} / ~${expectedRows}`
+                        : current.parsedRows}
+                  </span>
+                </div>
+                {expectedRows !== undefined && <Progress value={progressValue} />}
+              </div>
+
+              <div className="grid grid-cols-4 gap-4 text-center">
+                <div>
+                  <p className="text-2xl font-bold">{current.validRows}</p>
+                  <p className="text-xs text-muted-foreground">Valid</p>
+                </div>
+                <div>
+                  <p className="text-2xl font-bold">{current.duplicateRows}</p>
+                  <p className="text-xs text-muted-foreground">Duplicates</p>
+                </div>
+                <div>
+                  <p className="text-2xl font-bold text-yellow-600">{current.warningRows}</p>
+                  <p className="text-xs text-muted-foreground">Warnings</p>
+                </div>
+                <div>
+                  <p className="text-2xl font-bold text-destructive">{current.errorRows}</p>
+                  <p className="text-xs text-muted-foreground">Errors</p>
+                </div>
+              </div>
+
+              {current.errors.length > 0 && (
+                <div className="text-sm text-destructive">
+                  {current.errors.slice(0, 3).map((err, i) => (
+                    <p key={i}>{typeof err === "string" ? err : JSON.stringify(err)}</p>
+                  ))}
+                </div>
+              )}
+
+              {TERMINAL_STATUSES.includes(current.status) &&
+                (current.errorRows > 0 || current.warningRows > 0 || current.status !== "completed") && (
+                  <Link
+                    href={`/upload/${current.id}`}
+                    className="text-sm text-primary hover:underline"
+                  >
+                    Review rejected rows
+                  </Link>
+                )}
+            </CardContent>
+          )}
+        </Card>
+      </div>
+
+      {/* Recent uploads */}
+      <Card>
+        <CardHeader>
+          <CardTitle>Recent Uploads</CardTitle>
+          <CardDescription>{recent.length} manual imports</CardDescription>
+        </CardHeader>
+        <CardContent>
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>File</TableHead>
+                <TableHead>Status</TableHead>
+                <TableHead>Rows</TableHead>
+                <TableHead>Valid</TableHead>
+                <TableHead>Errors</TableHead>
+                <TableHead>Uploaded</TableHead>
+                <TableHead />
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {recent.map((ingestion) => (
+                <TableRow
+                  key={ingestion.id}
+                  className="hover:bg-muted/50 cursor-pointer"
+                  onClick={() => setCurrent(ingestion)}
+                >
+                  <TableCell className="font-medium">{ingestion.fileName}</TableCell>
+                  <TableCell>
+                    <Badge className={statusColors[ingestion.status]}>
+                      {ingestion.status.charAt(0).toUpperCase() + ingestion.status.slice(1)}
+                    </Badge>
+                  </TableCell>
+                  <TableCell>{ingestion.totalRows ?? "-"}</TableCell>
+                  <TableCell>{ingestion.validRows}</TableCell>
+                  <TableCell>{ingestion.errorRows}</TableCell>
+                  <TableCell className="text-sm">
+                    {new Date(ingestion.createdAt).toLocaleString()}
+                  </TableCell>
+                  <TableCell>
+                    <Link
+                      href={`/upload/${ingestion.id}`}
+                      className="text-sm text-primary hover:underline"
+                      onClick={(e) => e.stopPropagation()}
+                    >
+                      Details
+                    </Link>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
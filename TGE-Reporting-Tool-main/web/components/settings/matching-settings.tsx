@@ -0,0 +1,365 @@
+"use client";
+
+import { useState, useEffect, useCallback } from "react";
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { GitCompare } from "lucide-react";
+import { createClient } from "@/lib/supabase/client";
+import { MatchConfig } from "@/types";
+
+const THRESHOLD_FIELDS = [
+  { key: "auto_match", label: "Auto-match at", defaultValue: 0.9 },
+  { key: "review", label: "Review at", defaultValue: 0.6 },
+  { key: "reject", label: "Reject below", defaultValue: 0.4 },
+] as const;
+
+const MATCH_TYPES = [
+  { key: "email_exact", label: "Email (exact)" },
+  { key: "phone_exact", label: "Phone (exact)" },
+  { key: "email_fuzzy", label: "Email (fuzzy)" },
+  { key: "phone_fuzzy", label: "Phone (fuzzy)" },
+  { key: "address_fuzzy", label: "Address (fuzzy)" },
+  { key: "name_fuzzy", label: "Name similarity" },
+  { key: "vector_similarity", label: "Vector similarity" },
+];
+
+const ORGANIZATION_SCOPE = "organization";
+
+interface OrganizationRow {
+  id: string;
+  name: string;
+  settings: Record<string, unknown> | null;
+}
+
+interface LeadSourceRow {
+  id: string;
+  display_name: string;
+  matching_config: MatchConfig | null;
+}
+
+// Form values are kept as strings so an empty field means "inherit"
+interface FormState {
+  autoMatch: "inherit" | "on" | "off";
+  thresholds: Record<string, string>;
+  weights: Record<string, string>;
+}
+
+function toFormState(config: MatchConfig | null | undefined): FormState {
+  const thresholds: Record<string, string> = {};
+  const weights: Record<string, string> = {};
+
+  for (const field of THRESHOLD_FIELDS) {
+    const value = config?.thresholds?.[field.key];
+    thresholds[field.key] = value !== undefined ? String(value) : "";
+  }
+
+  for (const type of MATCH_TYPES) {
+    const value = config?.weights?.[type.key];
+    weights[type.key] = value !== undefined ? String(value) : "";
+  }
+
+  return {
+    autoMatch:
+      config?.auto_match_enabled === undefined
+        ? "inherit"
+        : config.auto_match_enabled
+          ? "on"
+          : "off",
+    thresholds,
+    weights,
+  };
+}
+
+function toMatchConfig(form: FormState): { config: MatchConfig; error: string | null } {
+  const config: MatchConfig = {};
+  const thresholds: Record<string, number> = {};
+  const weights: Record<string, number> = {};
+
+  if (form.autoMatch !== "inherit") {
+    config.auto_match_enabled = form.autoMatch === "on";
+  }
+
+  for (const field of THRESHOLD_FIELDS) {
+    const raw = form.thresholds[field.key].trim();
+    if (raw === "") continue;
+
+    const value = Number(raw);
+    if (isNaN(value) || value < 0 || value > 1) {
+      return { config, error: `${field.label} must be between 0 and 1` };
+    }
+    thresholds[field.key] = value;
+  }
+
+  if (
+    thresholds.reject !== undefined &&
+    thresholds.review !== undefined &&
+    thresholds.reject > thresholds.review
+  ) {
+    return { config, error: "Reject threshold cannot be above the review threshold" };
+  }
+
+  if (
+    thresholds.review !== undefined &&
+    thresholds.auto_match !== undefined &&
+    thresholds.review > thresholds.auto_match
+  ) {
+    return { config, error: "Review threshold cannot be above the auto-match threshold" };
+  }
+
+  for (const type of MATCH_TYPES) {
+    const raw = form.weights[type.key].trim();
+    if (raw === "") continue;
+
+    const value = Number(raw);
+    if (isNaN(value) || value < 0 || value > 2) {
+      return { config, error: `${type.label} weight must be between 0 and 2` };
+    }
+    weights[type.key] = value;
+  }
+
+  if (Object.keys(thresholds).length > 0) config.thresholds = thresholds;
+  if (Object.keys(weights).length > 0) config.weights = weights;
+
+  return { config, error: null };
+}
+
+/**
+ * Editor for per-organization match thresholds and scoring weights,
+ * with optional per-source overrides
+ */
+export function MatchingSettings() {
+  const [organization, setOrganization] = useState<OrganizationRow | null>(null);
+  const [sources, setSources] = useState<LeadSourceRow[]>([]);
+  const [scope, setScope] = useState(ORGANIZATION_SCOPE);
+  const [form, setForm] = useState<FormState>(toFormState(null));
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+  const [message, setMessage] = useState<{ type: "error" | "success"; text: string } | null>(null);
+
+  const fetchConfig = useCallback(async () => {
+    setIsLoading(true);
+    const supabase = createClient();
+
+    try {
+      const { data: org } = await supabase
+        .from("organizations")
+        .select("id, name, settings")
+        .order("created_at")
+        .limit(1)
+        .maybeSingle();
+
+      const { data: sourceRows } = await supabase
+        .from("lead_sources")
+        .select("id, display_name, matching_config")
+        .eq("is_active", true)
+        .order("display_name");
+
+      setOrganization(org as OrganizationRow | null);
+      setSources((sourceRows || []) as LeadSourceRow[]);
+    } catch (error) {
+      console.error("Failed to load matching settings:", error);
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchConfig();
+  }, [fetchConfig]);
+
+  // Reset the form whenever the scope or the loaded config changes
+  useEffect(() => {
+    if (scope === ORGANIZATION_SCOPE) {
+      setForm(toFormState(organization?.settings?.matching as MatchConfig | undefined));
+    } else {
+      setForm(toFormState(sources.find((s) => s.id === scope)?.matching_config));
+    }
+  }, [scope, organization, sources]);
+
+  const handleScopeChange = (value: string) => {
+    setScope(value);
+    setMessage(null);
+  };
+
+  const handleSave = async () => {
+    const { config, error } = toMatchConfig(form);
+
+    if (error) {
+      setMessage({ type: "error", text: error });
+      return;
+    }
+
+    setIsSaving(true);
+    setMessage(null);
+    const supabase = createClient();
+
+    try {
+      if (scope === ORGANIZATION_SCOPE) {
+        if (!organization) {
+          throw new Error("No organization found");
+        }
+
+        const settings = { ...(organization.settings || {}), matching: config };
+        const { error: updateError } = await supabase
+          .from("organizations")
+          .update({ settings })
+          .eq("id", organization.id);
+
+        if (updateError) throw new Error(updateError.message);
+        setOrganization({ ...organization, settings });
+      } else {
+        const { error: updateError } = await supabase
+          .from("lead_sources")
+          .update({ matching_config: config })
+          .eq("id", scope);
+
+        if (updateError) throw new Error(updateError.message);
+        setSources((prev) =>
+          prev.map((s) => (s.id === scope ? { ...s, matching_config: config } : s))
+        );
+      }
+
+      setMessage({ type: "success", text: "Matching settings saved" });
+    } catch (err) {
+      setMessage({
+        type: "error",
+        text: err instanceof Error ? err.message : "Failed to save matching settings",
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const inheritLabel = scope === ORGANIZATION_SCOPE ? "Default" : "Organization";
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center gap-3">
+          <GitCompare className="h-5 w-5 text-muted-foreground" />
+          <CardTitle>Matching</CardTitle>
+        </div>
+        <CardDescription>
+          Confidence thresholds and signal weights used when matching leads to Follow Up Boss.
+          Matches between the reject and review thresholds are only suggested when nothing
+          scores higher. Leave a field empty to inherit the {inheritLabel.toLowerCase()} value.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="flex flex-col sm:flex-row gap-4">
+          <div className="flex-1">
+            <label className="text-sm font-medium">Applies to</label>
+            <Select value={scope} onValueChange={handleScopeChange} disabled={isLoading}>
+              <SelectTrigger className="mt-1.5">
+                <SelectValue placeholder="Scope" />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ORGANIZATION_SCOPE}>
+                  {organization?.name || "Organization"} (all sources)
+                </SelectItem>
+                {sources.map((source) => (
+                  <SelectItem key={source.id} value={source.id}>
+                    {source.display_name} override
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="flex-1">
+            <label className="text-sm font-medium">Auto-matching</label>
+            <Select
+              value={form.autoMatch}
+              onValueChange={(value) =>
+                setForm((prev) => ({ ...prev, autoMatch: value as FormState["autoMatch"] }))
+              }
+            >
+              <SelectTrigger className="mt-1.5">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="inherit">{inheritLabel}</SelectItem>
+                <SelectItem value="on">Enabled</SelectItem>
+                <SelectItem value="off">Disabled (send everything to review)</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+
+        <div>
+          <p className="text-sm font-medium mb-2">Thresholds</p>
+          <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+            {THRESHOLD_FIELDS.map((field) => (
+              <div key={field.key}>
+                <label className="text-xs text-muted-foreground">{field.label}</label>
+                <Input
+                  type="number"
+                  step="0.01"
+                  min="0"
+                  max="1"
+                  placeholder={scope === ORGANIZATION_SCOPE ? String(field.defaultValue) : inheritLabel}
+                  value={form.thresholds[field.key]}
+                  onChange={(e) =>
+                    setForm((prev) => ({
+                      ...prev,
+                      thresholds: { ...prev.thresholds, [field.key]: e.target.value },
+                    }))
+                  }
+                  className="mt-1"
+                />
+              </div>
+            ))}
+          </div>
+        </div>
+
+        <div>
+          <p className="text-sm font-medium mb-2">Signal weights</p>
+          <div className="grid grid-cols-2 sm:grid-cols-3 gap-4">
+            {MATCH_TYPES.map((type) => (
+              <div key={type.key}>
+                <label className="text-xs text-muted-foreground">{type.label}</label>
+                <Input
+                  type="number"
+                  step="0.05"
+                  min="0"
+                  max="2"
+                  placeholder={scope === ORGANIZATION_SCOPE ? "1.0" : inheritLabel}
+                  value={form.weights[type.key]}
+                  onChange={(e) =>
+                    setForm((prev) => ({
+                      ...prev,
+                      weights: { ...prev.weights, [type.key]: e.target.value },
+                    }))
+                  }
+                  className="mt-1"
+                />
+              </div>
+            ))}
+          </div>
+        </div>
+
+        <div className="flex items-center gap-3">
+          <Button onClick={handleSave} disabled={isLoading || isSaving}>
+            {isSaving ? "Saving..." : "Save Matching Settings"}
+          </Button>
+          {message && (
+            <p
+              className={`text-sm ${
+                message.type === "error" ? "text-destructive" : "text-muted-foreground"
+              }`}
+            >
+              {message.text}
+            </p>
+          )}
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
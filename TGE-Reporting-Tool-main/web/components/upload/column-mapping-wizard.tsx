@@ -0,0 +1,270 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card";
+import {
+  Table,
+  TableHeader,
+  TableBody,
+  TableRow,
+  TableHead,
+  TableCell,
+} from "@/components/ui/table";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { ScrollArea, ScrollBar } from "@/components/ui/scroll-area";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Columns3 } from "lucide-react";
+import { createClient } from "@/lib/supabase/client";
+import { FieldMappingPreview } from "@/types";
+
+// Select items can't have an empty value
+const NOT_MAPPED = "__not_mapped__";
+
+const FIELD_LABELS: Record<string, string> = {
+  email: "Email",
+  phone: "Phone",
+  first_name: "First name",
+  last_name: "Last name",
+  full_name: "Full name",
+  address: "Property address",
+  city: "City",
+  state: "State",
+  zip: "ZIP",
+  lead_type: "Lead type",
+  source_lead_id: "Source lead ID",
+  source_created_at: "Created date",
+};
+
+interface ColumnMappingWizardProps {
+  leadSourceId: string;
+  leadSourceName: string;
+  /** Storage path of the uploaded file (uploads/...) */
+  filePath: string;
+  onConfirm: () => void;
+  onCancel: () => void;
+}
+
+/**
+ * Previews the first rows of an uploaded file, suggests a column for each
+ * target field and saves the confirmed choices to the lead source
+ */
+export function ColumnMappingWizard({
+  leadSourceId,
+  leadSourceName,
+  filePath,
+  onConfirm,
+  onCancel,
+}: ColumnMappingWizardProps) {
+  const [preview, setPreview] = useState<FieldMappingPreview | null>(null);
+  const [selections, setSelections] = useState<Record<string, string | null>>({});
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const loadPreview = async () => {
+      setIsLoading(true);
+      setError(null);
+      const supabase = createClient();
+
+      const { data, error: invokeError } = await supabase.functions.invoke("field-mapping", {
+        body: { action: "preview", lead_source_id: leadSourceId, file_path: filePath },
+      });
+
+      if (invokeError || !data) {
+        setError(invokeError?.message || "Failed to preview file");
+        setIsLoading(false);
+        return;
+      }
+
+      setPreview({
+        headers: data.headers,
+        rows: data.rows,
+        estimatedRows: data.estimated_rows ?? null,
+        targetFields: data.target_fields,
+        requiredFields: data.required_fields,
+        suggestions: data.suggestions,
+      });
+      setSelections(data.suggestions);
+      setIsLoading(false);
+    };
+
+    loadPreview();
+  }, [leadSourceId, filePath]);
+
+  const missingRequired = preview
+    ? preview.requiredFields.filter((field) => !selections[field])
+    : [];
+
+  const handleConfirm = async () => {
+    if (!preview) return;
+
+    setIsSaving(true);
+    setError(null);
+    const supabase = createClient();
+
+    const { error: invokeError } = await supabase.functions.invoke("field-mapping", {
+      body: {
+        action: "save",
+        lead_source_id: leadSourceId,
+        headers: preview.headers,
+        selections,
+      },
+    });
+
+    setIsSaving(false);
+
+    if (invokeError) {
+      setError(invokeError.message);
+      return;
+    }
+
+    onConfirm();
+  };
+
+  // Columns that feed a target field are shown first in the preview
+  const mappedColumns = new Set(Object.values(selections).filter(Boolean));
+  const previewColumns = preview
+    ? [
+        ...preview.headers.filter((h) => mappedColumns.has(h)),
+        ...preview.headers.filter((h) => !mappedColumns.has(h)),
+      ]
+    : [];
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center gap-3">
+          <Columns3 className="h-5 w-5 text-muted-foreground" />
+          <CardTitle>Map Columns</CardTitle>
+        </div>
+        <CardDescription>
+          Confirm which column holds each field. The mapping is saved to {leadSourceName} and
+          used for future imports.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {isLoading ? (
+          <p className="text-sm text-muted-foreground">Reading file...</p>
+        ) : preview ? (
+          <>
+            <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-4">
+              {preview.targetFields.map((field) => {
+                const required = preview.requiredFields.includes(field);
+                const suggested = preview.suggestions[field];
+
+                return (
+                  <div key={field}>
+                    <label className="text-xs text-muted-foreground flex items-center gap-2">
+                      {FIELD_LABELS[field] || field}
+                      {required && (
+                        <Badge variant="outline" className="text-[10px] px-1 py-0">
+                          Required
+                        </Badge>
+                      )}
+                    </label>
+                    <Select
+                      value={selections[field] || NOT_MAPPED}
+                      onValueChange={(value) =>
+                        setSelections((prev) => ({
+                          ...prev,
+                          [field]: value === NOT_MAPPED ? null : value,
+                        }))
+                      }
+                    >
+                      <SelectTrigger
+                        className={`mt-1 ${required && !selections[field] ? "border-destructive" : ""}`}
+                      >
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value={NOT_MAPPED}>Not mapped</SelectItem>
+                        {preview.headers.filter(Boolean).map((header) => (
+                          <SelectItem key={header} value={header}>
+                            {header}
+                            {header === suggested ? " (suggested)" : ""}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                );
+              })}
+            </div>
+
+            <div>
+              <p className="text-sm font-medium mb-2">
+                Preview ({preview.rows.length}
+                {preview.estimatedRows !== null && ` of about ${preview.estimatedRows}`} rows)
+              </p>
+              <ScrollArea className="w-full rounded-md border">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      {previewColumns.map((header) => {
+                        const field = Object.keys(selections).find((f) => selections[f] === header);
+
+                        return (
+                          <TableHead key={header} className="whitespace-nowrap">
+                            {header}
+                            {field && (
+                              <span className="block text-xs font-normal text-primary">
+                                → {FIELD_LABELS[field] || field}
+                              </span>
+                            )}
+                          </TableHead>
+                        );
+                      })}
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {preview.rows.map((row, i) => (
+                      <TableRow key={i}>
+                        {previewColumns.map((header) => (
+                          <TableCell
+                            key={header}
+                            className={`whitespace-nowrap text-sm ${
+                              mappedColumns.has(header) ? "" : "text-muted-foreground"
+                            }`}
+                          >
+                            {row[header]}
+                          </TableCell>
+                        ))}
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+                <ScrollBar orientation="horizontal" />
+              </ScrollArea>
+            </div>
+          </>
+        ) : null}
+
+        {missingRequired.length > 0 && (
+          <p className="text-sm text-destructive">
+            Rows without{" "}
+            {missingRequired.map((field) => FIELD_LABELS[field] || field).join(", ")} will fail
+            validation
+          </p>
+        )}
+        {error && <p className="text-sm text-destructive">{error}</p>}
+
+        <div className="flex items-center gap-3">
+          <Button onClick={handleConfirm} disabled={!preview || isSaving}>
+            {isSaving ? "Saving..." : "Save Mapping and Import"}
+          </Button>
+          <Button variant="outline" onClick={onCancel} disabled={isSaving}>
+            Cancel
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
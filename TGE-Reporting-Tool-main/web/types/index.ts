@@ -50,6 +50,69 @@ export interface LeadSource {
   isActive: boolean;
 }
 
+export type IngestionStatus =
+  | "pending"
+  | "processing"
+  | "parsed"
+  | "transforming"
+  | "completed"
+  | "failed"
+  | "partial";
+
+/** Raw Ingestion (one imported file) */
+export interface RawIngestion {
+  id: string;
+  leadSourceId?: string;
+  ingestType: "email" | "api" | "manual" | "backfill";
+  fileName?: string;
+  status: IngestionStatus;
+  totalRows?: number;
+  /** Estimated while the file is parsed, until totalRows is known */
+  estimatedRows?: number;
+  parsedRows: number;
+  validRows: number;
+  duplicateRows: number;
+  errorRows: number;
+  /** Valid rows flagged by warning-severity rules */
+  warningRows: number;
+  errors: unknown[];
+  createdAt: string;
+  completedAt?: string;
+}
+
+/** One failed validation rule (see validation rules on the lead source) */
+export interface ValidationIssue {
+  rule: string;
+  field: string;
+  severity: "error" | "warning";
+  message: string;
+  value?: string;
+}
+
+/** Raw Lead Row (one parsed file row, before it becomes a source lead) */
+export interface RawLeadRow {
+  id: string;
+  rowNumber: number;
+  rawData: Record<string, string>;
+  isValid: boolean;
+  hasWarnings: boolean;
+  /** Rows parsed before structured validation hold plain messages */
+  validationErrors: (ValidationIssue | string)[];
+  isDuplicate: boolean;
+  sourceLeadId?: string;
+}
+
+/** First rows of an uploaded file with suggested columns (from field-mapping) */
+export interface FieldMappingPreview {
+  headers: string[];
+  rows: Record<string, string>[];
+  /** Counted from line breaks; unknown for workbooks */
+  estimatedRows: number | null;
+  targetFields: string[];
+  requiredFields: string[];
+  suggestions: Record<string, string | null>;
+}
+
 /** Source Lead (from CSV imports) */
 export interface SourceLead {
   id: string;
@@ -102,23 +165,129 @@ export interface LeadMatch {
   createdAt: string;
 }
 
+/** Single signal behind a match score (stored as JSON, so snake_case) */
+export interface MatchReason {
+  type: string;
+  field: string;
+  source_value?: string | null;
+  fub_value?: string | null;
+  score: number;
+  details?: string;
+}
+
 /** Match Candidate (for review) */
 export interface MatchCandidate {
   id: string;
   sourceLeadId: string;
   fubLeadId: string;
   confidenceScore: number;
-  matchReasons: {
-    type: string;
-    field: string;
-    score: number;
-    details?: string;
-  }[];
+  matchReasons: MatchReason[];
   status: "pending" | "approved" | "rejected" | "expired";
   createdAt: string;
   expiresAt: string;
 }
 
+/**
+ * Matching configuration as stored in organizations.settings.matching
+ * and lead_sources.matching_config. Omitted fields inherit the next level.
+ */
+export interface MatchConfig {
+  auto_match_enabled?: boolean;
+  thresholds?: {
+    auto_match?: number;
+    review?: number;
+    reject?: number;
+  };
+  /** Multiplier applied to each match type's confidence */
+  weights?: Record<string, number>;
+}
+
+/** Match review queue item (from v_match_review_queue) */
+export interface MatchReviewItem {
+  id: string;
+  sourceLeadId: string;
+  fubLeadId: string;
+  confidenceScore: number;
+  matchReasons: MatchReason[];
+  sourceLead: {
+    name: string;
+    email?: string;
+    phone?: string;
+    address?: string;
+    source: string;
+  };
+  fubLead: {
+    name: string;
+    email?: string;
+    phone?: string;
+    address?: string;
+    assignedTo?: string;
+    stage?: string;
+  };
+  /** Type of the strongest signal */
+  matchType?: string;
+  ingestionId?: string;
+  ingestionFile?: string;
+  createdAt: string;
+  expiresAt: string;
+}
+
+export type DisputeResolution = "dismiss" | "invalidate" | "reattribute" | "reopen";
+
+/** Match dispute (from v_match_disputes) */
+export interface MatchDispute {
+  id: string;
+  status: "open" | "resolved";
+  reason: string;
+  raisedAt: string;
+  resolution?: DisputeResolution;
+  resolvedAt?: string;
+  resolutionNotes?: string;
+  matchId: string;
+  matchType: string;
+  matchConfidence: number;
+  sourceLead: {
+    name: string;
+    email?: string;
+    phone?: string;
+    address?: string;
+    source: string;
+  };
+  fubLead: {
+    fubLeadId: number;
+    name: string;
+    email?: string;
+    assignedTo?: string;
+  };
+  attributedTeam?: string;
+  attributedAgent?: string;
+}
+
+export type FubMappingReason =
+  | "multiple_agents"
+  | "fub_user_conflict"
+  | "multiple_groups"
+  | "multiple_teams";
+
+/** FUB user or group that sync couldn't map on its own (from fub_mapping_reviews) */
+export interface FubMappingReview {
+  id: string;
+  kind: "user" | "group";
+  fubId: number;
+  name: string;
+  email?: string;
+  reason: FubMappingReason;
+  candidates: {
+    id: string;
+    type: "agent" | "team";
+    label: string;
+  }[];
+  status: "pending" | "resolved" | "dismissed";
+  resolvedTargetId?: string;
+  resolvedAt?: string;
+  createdAt: string;
+}
+
 /** AI Insight */
 export interface AIInsight {
   id: string;